@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Activity, Plus } from 'lucide-react';
+import { differenceInMinutes, format, subDays, subHours } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { beerRepository, consumptionRepository, versionSnapshot } from '../repositories';
+import { beerAlcoholGrams } from '../lib/alcoholUnits';
+import { BacDrink, bacCurve, BacPoint, estimateBac, timeBelowThreshold } from '../lib/bac';
+import { drinkingDate, toDateString } from '../lib/dates';
+import { addGlasses } from '../lib/quickLog';
+import { drinkEvents, formatDuration, timestampFor } from '../lib/sessions';
+import { Beer } from '../types';
+
+// Only glasses from the last day can still matter for tonight's estimate
+const LOOKBACK_HOURS = 24;
+
+// The card re-evaluates the estimate this often while it is on screen
+const TICK_MS = 60 * 1000;
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 80;
+
+const BacChart = ({ curve, threshold, now }: { curve: BacPoint[]; threshold: number; now: Date }) => {
+  const start = curve[0].at.getTime();
+  const end = curve[curve.length - 1].at.getTime();
+  const maxBac = Math.max(threshold * 1.5, ...curve.map(point => point.bac));
+  const x = (at: number) => (end === start ? 0 : (at - start) / (end - start) * CHART_WIDTH);
+  const y = (bac: number) => CHART_HEIGHT - bac / maxBac * CHART_HEIGHT;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-20" preserveAspectRatio="none">
+      <line x1={0} x2={CHART_WIDTH} y1={y(threshold)} y2={y(threshold)} className="stroke-red-300" strokeDasharray="4 3" />
+      <polyline
+        points={curve.map(point => `${x(point.at.getTime())},${y(point.bac)}`).join(' ')}
+        fill="none"
+        className="stroke-primary"
+        strokeWidth={2}
+      />
+      <line x1={x(now.getTime())} x2={x(now.getTime())} y1={0} y2={CHART_HEIGHT} className="stroke-gray-400" />
+    </svg>
+  );
+};
+
+const BacCard: React.FC<{ refreshKey?: number; onDrinkAdded?: () => void }> = ({ refreshKey, onDrinkAdded }) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const [now, setNow] = useState(new Date());
+  const [drinks, setDrinks] = useState<BacDrink[]>([]);
+  const [beers, setBeers] = useState<Beer[]>([]);
+  const [beerId, setBeerId] = useState('');
+  const [time, setTime] = useState(() => format(new Date(), 'HH:mm'));
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState('');
+
+  const hasProfile = settings.body_weight !== null && settings.body_water_constant !== null;
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (user && hasProfile) {
+      loadDrinks();
+    }
+  }, [user, hasProfile, refreshKey]);
+
+  const loadDrinks = async () => {
+    try {
+      const today = new Date();
+      const [records, beerList] = await Promise.all([
+        consumptionRepository.listWithBeers(user!.id, {
+          start: toDateString(subDays(today, 1)),
+          end: toDateString(today)
+        }),
+        beerRepository.list(user!.id)
+      ]);
+      const since = subHours(today, LOOKBACK_HOURS);
+      setDrinks(drinkEvents(records)
+        .filter(event => event.at >= since)
+        .map(event => ({ at: event.at, grams: beerAlcoholGrams(event.beer) })));
+
+      const active = beerList.filter(beer => !beer.archived_at);
+      setBeers(active);
+      setBeerId(current => current || active[0]?.id || '');
+    } catch (error) {
+      console.error('Error loading drinks for BAC:', error);
+    }
+  };
+
+  // Adds one timed glass to the night it belongs to, keeping that day's other entries as they are
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!beerId) return;
+    try {
+      setAdding(true);
+      setError('');
+      const date = drinkingDate(new Date(), settings.day_start_hour);
+      const current = await consumptionRepository.listByDate(user!.id, date);
+      const at = timestampFor(date, time, settings.day_start_hour);
+      await consumptionRepository.saveDay(user!.id, date, addGlasses(current, beerId, 1, at), versionSnapshot(current));
+      await loadDrinks();
+      setNow(new Date());
+      onDrinkAdded?.();
+    } catch (error) {
+      console.error('Error adding drink:', error);
+      setError('잔을 추가하지 못했습니다. 다시 시도해주세요.');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  if (!hasProfile) {
+    return (
+      <button
+        onClick={() => navigate('/settings')}
+        className="w-full p-4 bg-white rounded-xl shadow-md text-left text-sm text-gray-600 hover:shadow-lg transition-all"
+      >
+        체중과 체내 수분 계수를 입력하면 혈중알코올농도 추정치를 볼 수 있습니다. <span className="text-primary font-medium">프로필 입력하기 →</span>
+      </button>
+    );
+  }
+
+  const profile = { weight: settings.body_weight!, r: settings.body_water_constant! };
+  const bac = estimateBac(drinks, profile, now);
+  const belowAt = timeBelowThreshold(drinks, profile, settings.bac_threshold, now);
+  const chartEnd = belowAt && belowAt > now ? belowAt : now;
+  const curve = bacCurve(drinks, profile, chartEnd);
+  const overThreshold = belowAt !== null && belowAt > now;
+
+  return (
+    <div className="bg-white rounded-xl p-4 shadow-md space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900 flex items-center">
+          <Activity className="w-5 h-5 mr-2 text-primary" /> 추정 혈중알코올농도
+        </h3>
+        <span className={`text-xl font-bold ${overThreshold ? 'text-red-600' : 'text-gray-900'}`}>
+          {bac.toFixed(3)}%
+        </span>
+      </div>
+
+      {drinks.length === 0 ? (
+        <p className="text-sm text-gray-500">최근 24시간 동안 시간을 기록한 잔이 없습니다.</p>
+      ) : (
+        <>
+          {curve.length > 1 && <BacChart curve={curve} threshold={settings.bac_threshold} now={now} />}
+          <p className="text-sm text-gray-600">
+            {belowAt === null
+              ? `${settings.bac_threshold}% 아래로 내려가는 시각을 추정할 수 없습니다.`
+              : overThreshold
+                ? `${format(belowAt, 'HH:mm')}쯤 ${settings.bac_threshold}% 미만 예상 (약 ${formatDuration(differenceInMinutes(belowAt, now))} 후)`
+                : `현재 ${settings.bac_threshold}% 미만으로 추정됩니다.`}
+          </p>
+        </>
+      )}
+
+      {beers.length > 0 && (
+        <form onSubmit={handleAdd} className="flex items-center space-x-2">
+          <select
+            value={beerId}
+            onChange={(e) => setBeerId(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            {beers.map(beer => (
+              <option key={beer.id} value={beer.id}>{beer.name}</option>
+            ))}
+          </select>
+          <input
+            type="time"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={adding}
+            className="p-2 bg-primary text-white rounded-lg hover:bg-primary-dark transition-colors disabled:opacity-50"
+            aria-label="지금 마시는 잔 추가"
+          >
+            <Plus size={18} />
+          </button>
+        </form>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <p className="text-xs text-gray-400">
+        체중·성별 계수와 평균 분해 속도로 계산한 참고용 추정치이며 실제 농도와 크게 다를 수 있습니다.
+        운전 가능 여부를 판단하는 데 사용하지 마세요.
+      </p>
+    </div>
+  );
+};
+
+export default BacCard;
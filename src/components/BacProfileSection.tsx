@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { WIDMARK_R } from '../lib/bac';
+import { UserSettings } from '../types';
+
+const toForm = (settings: UserSettings) => ({
+  body_weight: settings.body_weight?.toString() ?? '',
+  body_water_constant: settings.body_water_constant?.toString() ?? '',
+  bac_threshold: settings.bac_threshold.toString(),
+});
+
+const toPositive = (value: string) => {
+  const parsed = parseFloat(value);
+  return parsed > 0 ? parsed : null;
+};
+
+const BacProfileSection: React.FC = () => {
+  const { settings, updateSettings } = useSettings();
+  const [formData, setFormData] = useState(() => toForm(settings));
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setFormData(toForm(settings));
+  }, [settings]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const constant = toPositive(formData.body_water_constant);
+    if (constant !== null && constant > 1) {
+      setError('체내 수분 계수는 0과 1 사이여야 합니다.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      setMessage('');
+      await updateSettings({
+        body_weight: toPositive(formData.body_weight),
+        body_water_constant: constant,
+        bac_threshold: parseFloat(formData.bac_threshold) >= 0 ? parseFloat(formData.bac_threshold) : settings.bac_threshold,
+      });
+      setMessage('프로필을 저장했습니다.');
+    } catch (error) {
+      console.error('Error saving BAC profile:', error);
+      setError('프로필을 저장하지 못했습니다.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const presetClass = (value: number) =>
+    `flex-1 py-2 px-3 rounded-lg text-sm font-medium border transition-colors ${
+      parseFloat(formData.body_water_constant) === value
+        ? 'border-primary bg-primary-light/10 text-primary-dark'
+        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+    }`;
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl p-6 shadow-md space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">혈중알코올농도 추정</h3>
+        <p className="text-sm text-gray-600">
+          체중과 체내 수분 계수를 입력하면 홈 화면에서 Widmark 공식으로 추정한 혈중알코올농도를 볼 수 있습니다.
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">체중 (kg)</label>
+        <input
+          type="number"
+          step="0.1"
+          min="0"
+          value={formData.body_weight}
+          onChange={(e) => setFormData({ ...formData, body_weight: e.target.value })}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+          placeholder="70"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">체내 수분 계수 (r)</label>
+        <div className="flex space-x-2 mb-2">
+          <button type="button" onClick={() => setFormData({ ...formData, body_water_constant: WIDMARK_R.male.toString() })} className={presetClass(WIDMARK_R.male)}>
+            남성 {WIDMARK_R.male}
+          </button>
+          <button type="button" onClick={() => setFormData({ ...formData, body_water_constant: WIDMARK_R.female.toString() })} className={presetClass(WIDMARK_R.female)}>
+            여성 {WIDMARK_R.female}
+          </button>
+        </div>
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          max="1"
+          value={formData.body_water_constant}
+          onChange={(e) => setFormData({ ...formData, body_water_constant: e.target.value })}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+          placeholder="직접 입력"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">기준 농도 (%)</label>
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          value={formData.bac_threshold}
+          onChange={(e) => setFormData({ ...formData, bac_threshold: e.target.value })}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+        />
+        <p className="mt-1 text-xs text-gray-500">한국의 음주운전 단속 기준은 0.03% 입니다.</p>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-green-600">{message}</p>}
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="w-full py-2 px-4 bg-primary text-white rounded-lg font-medium hover:bg-primary-dark transition-colors disabled:opacity-50"
+      >
+        {saving ? '저장 중...' : '프로필 저장'}
+      </button>
+    </form>
+  );
+};
+
+export default BacProfileSection;
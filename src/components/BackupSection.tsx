@@ -0,0 +1,165 @@
+import React, { useRef, useState } from 'react';
+import { Download, FileSpreadsheet, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import { ALL_DATES, consumptionRepository } from '../repositories';
+import {
+  BackupBundle,
+  BackupFormatError,
+  exportBackup,
+  parseBackup,
+  recordsToCsv,
+  restoreBackup,
+  RestoreMode,
+  RestoreResult
+} from '../lib/backup';
+import { downloadFile } from '../lib/download';
+
+const BackupSection: React.FC = () => {
+  const { user } = useAuth();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [bundle, setBundle] = useState<BackupBundle | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  const [error, setError] = useState('');
+
+  const today = format(new Date(), 'yyyyMMdd');
+
+  const handleExportJson = async () => {
+    try {
+      setBusy(true);
+      const backup = await exportBackup(user!.id);
+      downloadFile(`beer-tracker-backup-${today}.json`, JSON.stringify(backup, null, 2), 'application/json');
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      setError('백업 파일을 만들지 못했습니다.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExportCsv = async () => {
+    try {
+      setBusy(true);
+      const records = await consumptionRepository.listWithBeers(user!.id, ALL_DATES);
+      // BOM so spreadsheet apps detect UTF-8 and show Korean beer names correctly
+      downloadFile(`beer-tracker-records-${today}.csv`, '\uFEFF' + recordsToCsv(records), 'text/csv;charset=utf-8');
+    } catch (error) {
+      console.error('Error exporting CSV:', error);
+      setError('CSV 파일을 만들지 못했습니다.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    setResult(null);
+    try {
+      setBundle(parseBackup(await file.text()));
+    } catch (error) {
+      setBundle(null);
+      setError(error instanceof BackupFormatError ? error.message : '파일을 읽지 못했습니다.');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!bundle) return;
+    if (mode === 'replace' && !confirm('현재 계정의 모든 맥주와 기록을 삭제하고 백업으로 교체합니다. 계속하시겠습니까?')) return;
+
+    try {
+      setBusy(true);
+      setError('');
+      setResult(await restoreBackup(user!.id, bundle, mode));
+      setBundle(null);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      setError(error instanceof Error ? error.message : '복원 중 오류가 발생했습니다.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-md space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">데이터 백업</h3>
+        <p className="text-sm text-gray-600">모든 맥주와 소비 기록을 파일로 내보내거나 복원합니다.</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={handleExportJson}
+          disabled={busy}
+          className="flex items-center justify-center space-x-2 py-3 px-4 bg-gradient-to-r from-primary to-secondary text-white rounded-lg font-medium hover:from-primary-dark hover:to-secondary-dark transition-all disabled:opacity-50"
+        >
+          <Download size={18} />
+          <span>JSON 백업</span>
+        </button>
+        <button
+          onClick={handleExportCsv}
+          disabled={busy}
+          className="flex items-center justify-center space-x-2 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          <FileSpreadsheet size={18} />
+          <span>CSV 내보내기</span>
+        </button>
+      </div>
+
+      <div className="border-t border-gray-100 pt-4 space-y-3">
+        <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={busy}
+          className="w-full flex items-center justify-center space-x-2 py-3 px-4 border border-dashed border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          <Upload size={18} />
+          <span>백업 파일에서 복원</span>
+        </button>
+
+        {bundle && (
+          <div className="p-4 bg-blue-50 rounded-lg space-y-3">
+            <p className="text-sm text-primary-dark">
+              {format(new Date(bundle.exported_at), 'yyyy.M.d HH:mm')} 백업 · 맥주 {bundle.beers.length}개 · 기록 {bundle.consumption_records.length}건
+            </p>
+            <div className="flex space-x-4 text-sm">
+              <label className="flex items-center space-x-2">
+                <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                <span>병합 (기존 데이터 유지)</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                <span>교체 (기존 데이터 삭제)</span>
+              </label>
+            </div>
+            <button
+              onClick={handleRestore}
+              disabled={busy}
+              className="w-full py-2 px-4 bg-primary text-white rounded-lg font-medium hover:bg-primary-dark transition-colors disabled:opacity-50"
+            >
+              {busy ? '복원 중...' : '복원하기'}
+            </button>
+          </div>
+        )}
+
+        {result && (
+          <p className="text-sm text-green-700 bg-green-50 p-3 rounded-lg">
+            복원 완료: 맥주 {result.beersCreated}개 추가 ({result.beersMatched}개는 기존 맥주와 연결),
+            기록 {result.recordsInserted}건 추가{result.recordsSkipped > 0 && `, 이미 있는 ${result.recordsSkipped}건은 건너뜀`}
+          </p>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupSection;
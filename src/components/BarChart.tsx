@@ -0,0 +1,67 @@
+import React from 'react';
+
+export interface BarDatum {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: BarDatum[];
+  formatValue: (value: number) => string;
+  /** Makes bars tappable, e.g. to open that month. */
+  onSelect?: (index: number) => void;
+  highlight?: number;
+}
+
+const WIDTH = 360;
+const HEIGHT = 180;
+const LABEL_HEIGHT = 18;
+const VALUE_HEIGHT = 14;
+const GAP_RATIO = 0.25;
+
+// Drawn in viewBox units and scaled to the card width, so it fits phones without a resize listener
+const BarChart: React.FC<BarChartProps> = ({ data, formatValue, onSelect, highlight }) => {
+  const max = Math.max(...data.map(d => d.value), 0);
+  const slot = WIDTH / data.length;
+  const barWidth = slot * (1 - GAP_RATIO);
+  const plotHeight = HEIGHT - LABEL_HEIGHT - VALUE_HEIGHT;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+      {data.map((d, index) => {
+        const height = max > 0 ? d.value / max * plotHeight : 0;
+        const x = index * slot + (slot - barWidth) / 2;
+        const y = VALUE_HEIGHT + plotHeight - height;
+        return (
+          <g
+            key={d.label}
+            onClick={onSelect ? () => onSelect(index) : undefined}
+            className={onSelect ? 'cursor-pointer' : undefined}
+          >
+            <title>{`${d.label}: ${formatValue(d.value)}`}</title>
+            {/* Full-height hit area so empty months can be tapped too */}
+            <rect x={index * slot} y={0} width={slot} height={HEIGHT} fill="transparent" />
+            <rect
+              x={x}
+              y={y}
+              width={barWidth}
+              height={Math.max(height, d.value > 0 ? 2 : 0)}
+              rx={3}
+              className={index === highlight ? 'fill-primary-dark' : 'fill-primary'}
+            />
+            {d.value > 0 && (
+              <text x={x + barWidth / 2} y={y - 3} textAnchor="middle" className="fill-gray-500 text-[9px]">
+                {formatValue(d.value)}
+              </text>
+            )}
+            <text x={x + barWidth / 2} y={HEIGHT - 4} textAnchor="middle" className="fill-gray-600 text-[11px]">
+              {d.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default BarChart;
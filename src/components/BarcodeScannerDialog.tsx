@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, ImageUp, X } from 'lucide-react';
+import { decodeBarcodeImage, detectBarcode, supportsLiveScan } from '../lib/barcode';
+import { isValidBarcode, normalizeBarcode } from '../lib/ean';
+
+interface BarcodeScannerDialogProps {
+  title: string;
+  onDetected: (code: string) => void;
+  onClose: () => void;
+}
+
+const SCAN_INTERVAL_MS = 300;
+
+const BarcodeScannerDialog: React.FC<BarcodeScannerDialogProps> = ({ title, onDetected, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // Keeps the camera loop from restarting when the parent re-renders with a new callback
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+  const [liveScan] = useState(supportsLiveScan);
+  const [cameraError, setCameraError] = useState('');
+  const [error, setError] = useState('');
+  const [decoding, setDecoding] = useState(false);
+  const [manualCode, setManualCode] = useState('');
+
+  useEffect(() => {
+    if (!liveScan) return;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const scan = async () => {
+      if (stopped || !videoRef.current) return;
+      try {
+        const code = await detectBarcode(videoRef.current);
+        if (code && !stopped) {
+          stopped = true;
+          onDetectedRef.current(code);
+          return;
+        }
+      } catch (error) {
+        console.error('Error detecting barcode:', error);
+      }
+      timer = setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async media => {
+        stream = media;
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = media;
+        await videoRef.current.play();
+        scan();
+      })
+      .catch(error => {
+        console.error('Error starting camera:', error);
+        setCameraError('카메라를 사용할 수 없습니다. 사진을 올리거나 번호를 직접 입력해주세요.');
+      });
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [liveScan]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setDecoding(true);
+      setError('');
+      const code = await decodeBarcodeImage(file);
+      if (code) onDetected(code);
+      else setError('사진에서 바코드를 찾지 못했습니다. 바코드가 화면 가운데에 가로로 나오도록 다시 찍어주세요.');
+    } catch (error) {
+      console.error('Error decoding barcode image:', error);
+      setError('사진을 읽지 못했습니다.');
+    } finally {
+      setDecoding(false);
+    }
+  };
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizeBarcode(manualCode);
+    if (!isValidBarcode(code)) {
+      setError('올바른 바코드 번호가 아닙니다 (8자리 또는 13자리).');
+      return;
+    }
+    onDetected(code);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-end sm:items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl p-6 shadow-xl w-full max-w-md max-h-[80vh] overflow-y-auto space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        {liveScan && !cameraError ? (
+          <div className="relative rounded-lg overflow-hidden bg-black">
+            <video ref={videoRef} className="w-full" muted playsInline />
+            <div className="absolute inset-x-6 top-1/2 h-0.5 bg-red-500/80" />
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600 flex items-start">
+            <Camera size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+            {cameraError || '이 브라우저는 실시간 바코드 인식을 지원하지 않습니다. 바코드 사진을 올려주세요.'}
+          </p>
+        )}
+
+        <label className="w-full flex items-center justify-center space-x-2 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors cursor-pointer">
+          <ImageUp size={18} />
+          <span>{decoding ? '읽는 중...' : '바코드 사진 올리기'}</span>
+          <input type="file" accept="image/*" capture="environment" onChange={handleFile} className="hidden" disabled={decoding} />
+        </label>
+
+        <form onSubmit={handleManualSubmit} className="flex space-x-2">
+          <input
+            type="text"
+            inputMode="numeric"
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+            placeholder="바코드 번호 직접 입력"
+          />
+          <button type="submit" className="px-4 py-2 bg-primary text-white rounded-lg font-medium hover:bg-primary-dark transition-colors">
+            확인
+          </button>
+        </form>
+
+        {error && <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default BarcodeScannerDialog;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { AlertTriangle, Wallet } from 'lucide-react';
+import { BUDGET_WARNING_RATIO, formatWon } from '../lib/spending';
+
+interface BudgetCardProps {
+  spent: number;
+  budget: number;
+}
+
+const BudgetCard: React.FC<BudgetCardProps> = ({ spent, budget }) => {
+  const ratio = spent / budget;
+  const over = ratio > 1;
+  const warning = !over && ratio >= BUDGET_WARNING_RATIO;
+
+  return (
+    <div className="bg-white rounded-xl p-4 shadow-md space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold text-gray-900 flex items-center">
+          <Wallet className="w-5 h-5 mr-2 text-primary" /> 이번 달 지출
+        </h3>
+        <span className={over ? 'text-sm text-red-600 font-medium' : 'text-sm text-gray-500'}>
+          {formatWon(spent)} / {formatWon(budget)}
+        </span>
+      </div>
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full ${over ? 'bg-red-500' : warning ? 'bg-amber-500' : 'bg-gradient-to-r from-primary to-secondary'}`}
+          style={{ width: `${Math.min(ratio, 1) * 100}%` }}
+        />
+      </div>
+      {(over || warning) && (
+        <p className={`text-sm flex items-center ${over ? 'text-red-600' : 'text-amber-700'}`}>
+          <AlertTriangle className="w-4 h-4 mr-1 flex-shrink-0" />
+          {over
+            ? `예산을 ${formatWon(spent - budget)} 초과했습니다.`
+            : `예산의 ${Math.round(ratio * 100)}%를 사용했습니다. 남은 예산 ${formatWon(budget - spent)}`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BudgetCard;
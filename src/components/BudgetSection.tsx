@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+
+const BudgetSection: React.FC = () => {
+  const { settings, updateSettings } = useSettings();
+  const [budget, setBudget] = useState(settings.monthly_budget?.toString() ?? '');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setBudget(settings.monthly_budget?.toString() ?? '');
+  }, [settings.monthly_budget]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError('');
+      setMessage('');
+      const parsed = parseFloat(budget);
+      await updateSettings({ monthly_budget: parsed > 0 ? parsed : null });
+      setMessage('예산을 저장했습니다.');
+    } catch (error) {
+      console.error('Error saving budget:', error);
+      setError('예산을 저장하지 못했습니다.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl p-6 shadow-md space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">월 예산</h3>
+        <p className="text-sm text-gray-600">
+          맥주에 등록한 가격과 기록마다 입력한 가격으로 지출을 계산합니다. 비워 두면 예산 알림을 표시하지 않습니다.
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">한 달 예산 (원)</label>
+        <input
+          type="number"
+          step="1000"
+          min="0"
+          value={budget}
+          onChange={(e) => setBudget(e.target.value)}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+          placeholder="예: 100000"
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-green-600">{message}</p>}
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="w-full py-2 px-4 bg-primary text-white rounded-lg font-medium hover:bg-primary-dark transition-colors disabled:opacity-50"
+      >
+        {saving ? '저장 중...' : '예산 저장'}
+      </button>
+    </form>
+  );
+};
+
+export default BudgetSection;
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { formatDayStart, MAX_DAY_START_HOUR } from '../lib/dates';
+
+const HOURS = Array.from({ length: MAX_DAY_START_HOUR + 1 }, (_, hour) => hour);
+
+const DayStartSection: React.FC = () => {
+  const { settings, updateSettings } = useSettings();
+  const [error, setError] = useState('');
+
+  const handleChange = async (hour: number) => {
+    try {
+      setError('');
+      await updateSettings({ day_start_hour: hour });
+    } catch (error) {
+      console.error('Error saving day start hour:', error);
+      setError('설정을 저장하지 못했습니다.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-md space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">하루 시작 시각</h3>
+        <p className="text-sm text-gray-600">
+          이 시각 전에 마신 잔은 전날 밤 기록으로 셉니다. 기록의 기본 날짜, 달력과 통계에 모두 적용됩니다.
+        </p>
+      </div>
+
+      <select
+        value={settings.day_start_hour}
+        onChange={(e) => handleChange(parseInt(e.target.value, 10))}
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+      >
+        {HOURS.map(hour => (
+          <option key={hour} value={hour}>{formatDayStart(hour)}</option>
+        ))}
+      </select>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default DayStartSection;
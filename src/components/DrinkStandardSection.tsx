@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { alcoholGrams, DRINK_STANDARD_INFO, formatStandardDrinks } from '../lib/alcoholUnits';
+import { DRINK_STANDARDS, DrinkStandard } from '../types';
+
+// A 500ml can at 5% is the reference shown next to each option
+const SAMPLE_GRAMS = alcoholGrams(500, 5);
+
+const DrinkStandardSection: React.FC = () => {
+  const { settings, updateSettings } = useSettings();
+  const [error, setError] = useState('');
+
+  const handleChange = async (standard: DrinkStandard) => {
+    try {
+      setError('');
+      await updateSettings({ drink_standard: standard });
+    } catch (error) {
+      console.error('Error saving drink standard:', error);
+      setError('설정을 저장하지 못했습니다.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-md space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">표준잔 기준</h3>
+        <p className="text-sm text-gray-600">알코올 섭취량을 그램과 표준잔으로 환산할 때 사용할 기준입니다.</p>
+      </div>
+
+      <div className="space-y-2">
+        {DRINK_STANDARDS.map(standard => (
+          <label
+            key={standard}
+            className={`flex items-center justify-between p-3 rounded-lg border cursor-pointer transition-colors ${
+              settings.drink_standard === standard ? 'border-primary bg-primary-light/10' : 'border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center space-x-3">
+              <input
+                type="radio"
+                checked={settings.drink_standard === standard}
+                onChange={() => handleChange(standard)}
+              />
+              <span className="font-medium text-gray-900">{DRINK_STANDARD_INFO[standard].label}</span>
+              <span className="text-sm text-gray-500">1{DRINK_STANDARD_INFO[standard].unitName} = 알코올 {DRINK_STANDARD_INFO[standard].grams}g</span>
+            </div>
+            <span className="text-xs text-gray-500">500ml 5% ≈ {formatStandardDrinks(SAMPLE_GRAMS, standard)}</span>
+          </label>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default DrinkStandardSection;
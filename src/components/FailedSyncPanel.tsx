@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, RotateCcw, Trash2 } from 'lucide-react';
+import { FailedSync, syncService } from '../repositories';
+
+const describe = (operation: FailedSync) => {
+  switch (operation.kind) {
+    case 'saveDay':
+      return `${operation.date} 기록 저장`;
+    case 'createBeer':
+      return `맥주 추가 (${operation.input.name})`;
+    case 'updateBeer':
+      return `맥주 수정 (${operation.input.name})`;
+    case 'archiveBeer':
+      return operation.archived ? '맥주 보관' : '맥주 보관 해제';
+    case 'pinBeer':
+      return operation.pinned ? '맥주 고정' : '맥주 고정 해제';
+    case 'removeBeer':
+      return '맥주 삭제';
+    case 'mergeBeers':
+      return '맥주 합치기';
+    case 'reorderBeers':
+      return '맥주 순서 변경';
+    case 'updateSettings':
+      return '설정 변경';
+    case 'setDryDay':
+      return `${operation.date} 금주일 ${operation.dry ? '표시' : '해제'}`;
+  }
+};
+
+/** Writes the server rejected, each of which the user can send again or give up on. */
+const FailedSyncPanel: React.FC<{ count: number }> = ({ count }) => {
+  const [failed, setFailed] = useState<FailedSync[]>([]);
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    loadFailed();
+  }, [count]);
+
+  const loadFailed = async () => {
+    try {
+      setFailed(await syncService.listFailed());
+    } catch (error) {
+      console.error('Error loading failed sync operations:', error);
+    }
+  };
+
+  const handleRetry = async (id: number) => {
+    try {
+      setBusy(true);
+      await syncService.retryFailed(id);
+    } catch (error) {
+      console.error('Error retrying sync operation:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDiscard = async (id: number) => {
+    if (!confirm('이 변경 사항을 버리면 서버에 저장된 내용으로 돌아갑니다. 계속하시겠습니까?')) return;
+    try {
+      setBusy(true);
+      await syncService.discardFailed(id);
+    } catch (error) {
+      console.error('Error discarding sync operation:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (count === 0) return null;
+
+  return (
+    <div className="mt-2 text-xs text-white/90">
+      <button onClick={() => setOpen(!open)} className="flex items-center hover:text-white">
+        <AlertTriangle size={14} className="mr-1" />
+        서버에 반영하지 못한 변경 사항 {count}건 {open ? '접기' : '보기'}
+      </button>
+      {open && (
+        <ul className="mt-2 space-y-2">
+          {failed.map(operation => (
+            <li key={operation.id} className="flex items-center justify-between p-2 bg-white/10 rounded-lg">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{describe(operation)}</p>
+                <p className="text-white/70 truncate">{operation.error}</p>
+              </div>
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                <button
+                  onClick={() => handleRetry(operation.id)}
+                  disabled={busy}
+                  className="p-1.5 hover:bg-white/20 rounded-lg transition-colors disabled:opacity-50"
+                  title="다시 시도"
+                >
+                  <RotateCcw size={14} />
+                </button>
+                <button
+                  onClick={() => handleDiscard(operation.id)}
+                  disabled={busy}
+                  className="p-1.5 hover:bg-white/20 rounded-lg transition-colors disabled:opacity-50"
+                  title="버리기"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FailedSyncPanel;
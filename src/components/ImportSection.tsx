@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ArrowLeft, FileUp } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { beerRepository, consumptionRepository } from '../repositories';
+import { parseCsv } from '../lib/csv';
+import {
+  Checkin,
+  ColumnMapping,
+  commitImport,
+  GENERIC_FIELD_LABELS,
+  GENERIC_FIELDS,
+  guessMapping,
+  ImportFormatError,
+  ImportPlan,
+  ImportSource,
+  parseGeneric,
+  parseUntappd,
+  planImport
+} from '../lib/checkinImport';
+
+type Step = 'select' | 'map' | 'preview' | 'done';
+
+const ImportSection: React.FC = () => {
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const [step, setStep] = useState<Step>('select');
+  const [source, setSource] = useState<ImportSource>('untappd');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  // ABV typed in for new beers the file gave none for, by planned beer id
+  const [abvInputs, setAbvInputs] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<{ beersCreated: number; recordsInserted: number } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const reset = () => {
+    setStep('select');
+    setRows([]);
+    setMapping(null);
+    setPlan(null);
+    setAbvInputs({});
+    setError('');
+  };
+
+  const buildPreview = async (checkins: Checkin[]) => {
+    if (checkins.length === 0) {
+      throw new ImportFormatError('가져올 수 있는 체크인이 없습니다.');
+    }
+    const dates = checkins.map(checkin => checkin.date).sort();
+    const [beers, records] = await Promise.all([
+      beerRepository.list(user!.id),
+      consumptionRepository.listWithBeers(user!.id, { start: dates[0], end: dates[dates.length - 1] }),
+    ]);
+    setPlan(planImport(checkins, beers, records));
+    setAbvInputs({});
+    setStep('preview');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    try {
+      setBusy(true);
+      const text = await file.text();
+      if (source === 'untappd') {
+        await buildPreview(parseUntappd(text, settings.day_start_hour));
+      } else {
+        const parsed = parseCsv(text);
+        if (parsed.length < 2) throw new ImportFormatError('CSV 파일에 데이터가 없습니다.');
+        setRows(parsed);
+        setMapping(guessMapping(parsed[0]));
+        setStep('map');
+      }
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setError(error instanceof ImportFormatError ? error.message : '파일을 읽지 못했습니다.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleMappingConfirm = async () => {
+    setError('');
+    try {
+      setBusy(true);
+      await buildPreview(parseGeneric(rows.slice(1), mapping!, settings.day_start_hour));
+    } catch (error) {
+      console.error('Error parsing CSV:', error);
+      setError(error instanceof ImportFormatError ? error.message : '파일을 읽지 못했습니다.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    try {
+      setBusy(true);
+      setError('');
+      setResult(await commitImport(user!.id, plan!, abvs));
+      setStep('done');
+    } catch (error) {
+      console.error('Error importing check-ins:', error);
+      setError(error instanceof Error ? error.message : '가져오기 중 오류가 발생했습니다.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const newBeers = plan?.beers.filter(beer => !beer.existing) ?? [];
+  const duplicates = plan?.entries.filter(entry => entry.duplicate) ?? [];
+  const needsAbv = newBeers.filter(beer => beer.needsAbv);
+  const abvs = needsAbv.reduce((acc, beer) => {
+    const abv = parseFloat(abvInputs[beer.id] ?? '');
+    if (Number.isFinite(abv) && abv >= 0 && abv <= 100) acc[beer.id] = abv;
+    return acc;
+  }, {} as Record<string, number>);
+  const abvMissing = needsAbv.length - Object.keys(abvs).length;
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-md space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">기록 가져오기</h3>
+          <p className="text-sm text-gray-600">Untappd 내보내기나 CSV 파일의 체크인을 일별 기록으로 가져옵니다.</p>
+        </div>
+        {step !== 'select' && (
+          <button onClick={reset} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <ArrowLeft size={18} className="text-gray-500" />
+          </button>
+        )}
+      </div>
+
+      {step === 'select' && (
+        <div className="space-y-3">
+          <div className="flex bg-primary-light/20 rounded-lg p-1">
+            {(['untappd', 'generic'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setSource(option)}
+                className={`flex-1 px-3 py-2 rounded text-sm font-medium transition-colors ${source === option ? 'bg-white text-primary-dark shadow-sm' : 'text-gray-600 hover:text-primary-dark'}`}
+              >
+                {option === 'untappd' ? 'Untappd (CSV/JSON)' : '일반 CSV'}
+              </button>
+            ))}
+          </div>
+          <label className={`w-full flex items-center justify-center space-x-2 py-3 px-4 border border-dashed border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors cursor-pointer ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+            <FileUp size={18} />
+            <span>{busy ? '읽는 중...' : '파일 선택'}</span>
+            <input
+              type="file"
+              accept={source === 'untappd' ? '.csv,.json,text/csv,application/json' : '.csv,text/csv'}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </label>
+        </div>
+      )}
+
+      {step === 'map' && mapping && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">각 항목에 해당하는 열을 선택하세요. 총 {rows.length - 1}행</p>
+          {GENERIC_FIELDS.map(field => (
+            <div key={field} className="flex items-center justify-between space-x-3">
+              <label className="text-sm font-medium text-gray-700 w-28">
+                {GENERIC_FIELD_LABELS[field]}
+                {(field === 'date' || field === 'name') && <span className="text-red-500"> *</span>}
+              </label>
+              <select
+                value={mapping[field]}
+                onChange={(e) => setMapping({ ...mapping, [field]: parseInt(e.target.value, 10) })}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+              >
+                <option value={-1}>없음</option>
+                {rows[0].map((column, index) => (
+                  <option key={index} value={index}>{column || `${index + 1}번째 열`}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <button
+            onClick={handleMappingConfirm}
+            disabled={busy}
+            className="w-full py-2 px-4 bg-primary text-white rounded-lg font-medium hover:bg-primary-dark transition-colors disabled:opacity-50"
+          >
+            미리보기
+          </button>
+        </div>
+      )}
+
+      {step === 'preview' && plan && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="p-3 bg-blue-50 rounded-lg">
+              <p className="text-xl font-bold text-primary-dark">{plan.entries.length - duplicates.length}</p>
+              <p className="text-xs text-gray-600">추가될 기록</p>
+            </div>
+            <div className="p-3 bg-blue-50 rounded-lg">
+              <p className="text-xl font-bold text-primary-dark">{newBeers.length}</p>
+              <p className="text-xs text-gray-600">새 맥주</p>
+            </div>
+            <div className="p-3 bg-amber-50 rounded-lg">
+              <p className="text-xl font-bold text-amber-700">{duplicates.length + plan.repeatedCheckins}</p>
+              <p className="text-xs text-gray-600">중복</p>
+            </div>
+          </div>
+
+          {(duplicates.length > 0 || plan.repeatedCheckins > 0) && (
+            <div className="flex items-start space-x-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+              <p>
+                {duplicates.length > 0 && `이미 기록이 있는 ${duplicates.length}건은 건너뜁니다. `}
+                {plan.repeatedCheckins > 0 && `파일 안에서 반복된 체크인 ${plan.repeatedCheckins}건은 한 번만 계산했습니다.`}
+              </p>
+            </div>
+          )}
+
+          {needsAbv.length > 0 && (
+            <div className="space-y-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <div className="flex items-start space-x-2 text-sm text-amber-800">
+                <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+                <p>파일에 알코올 도수가 없는 맥주가 있습니다. 도수를 입력해야 가져올 수 있습니다.</p>
+              </div>
+              {needsAbv.map(beer => (
+                <div key={beer.id} className="flex items-center justify-between space-x-3">
+                  <label htmlFor={`abv-${beer.id}`} className="text-sm text-gray-700 truncate">
+                    {beer.input.name} <span className="text-gray-400">({beer.input.type})</span>
+                  </label>
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <input
+                      id={`abv-${beer.id}`}
+                      type="number"
+                      inputMode="decimal"
+                      step="0.1"
+                      min="0"
+                      max="100"
+                      value={abvInputs[beer.id] ?? ''}
+                      onChange={(e) => setAbvInputs({ ...abvInputs, [beer.id]: e.target.value })}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-sm text-right focus:ring-2 focus:ring-primary focus:border-transparent"
+                    />
+                    <span className="text-sm text-gray-500">%</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {newBeers.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">새로 추가될 맥주</h4>
+              <ul className="space-y-1 text-sm text-gray-600 max-h-40 overflow-y-auto">
+                {newBeers.map(beer => (
+                  <li key={beer.id}>
+                    {beer.input.name} <span className="text-gray-400">({beer.input.type} · {beer.input.volume}ml · {beer.needsAbv ? `${abvs[beer.id] ?? '?'}%` : `${beer.input.alcohol_percentage}%`})</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">일별 기록</h4>
+            <ul className="divide-y divide-gray-100 text-sm max-h-60 overflow-y-auto">
+              {plan.entries.map(entry => (
+                <li key={`${entry.date}-${entry.beer_id}`} className={`flex justify-between py-1 ${entry.duplicate ? 'text-gray-400 line-through' : 'text-gray-700'}`}>
+                  <span>{entry.date} · {entry.beerName}</span>
+                  <span>{entry.quantity}잔</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <button
+            onClick={handleCommit}
+            disabled={busy || plan.entries.length === duplicates.length || abvMissing > 0}
+            className="w-full py-3 px-4 bg-gradient-to-r from-primary to-secondary text-white rounded-lg font-medium hover:from-primary-dark hover:to-secondary-dark transition-all disabled:opacity-50"
+          >
+            {busy ? '가져오는 중...' : abvMissing > 0 ? `도수 ${abvMissing}개를 입력해주세요` : '가져오기'}
+          </button>
+        </div>
+      )}
+
+      {step === 'done' && result && (
+        <p className="text-sm text-green-700 bg-green-50 p-3 rounded-lg">
+          가져오기 완료: 맥주 {result.beersCreated}개, 기록 {result.recordsInserted}건을 추가했습니다.
+        </p>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default ImportSection;
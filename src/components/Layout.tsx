@@ -1,7 +1,10 @@
 import React from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { Home, BarChart3, Plus, Beer, LogOut } from 'lucide-react';
+import { Home, BarChart3, Plus, Beer, LogOut, CloudOff, RefreshCw, Settings } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { syncService } from '../repositories';
+import FailedSyncPanel from './FailedSyncPanel';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -11,9 +14,17 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const navigate = useNavigate();
   const location = useLocation();
   const { signOut } = useAuth();
+  const syncStatus = useSyncStatus();
 
   const handleSignOut = async () => {
     try {
+      // Queued writes are tied to this account, so send them before leaving or drop them knowingly
+      await syncService.flush();
+      const { pending } = syncService.getStatus();
+      if (pending > 0) {
+        if (!confirm(`서버에 반영되지 않은 변경 사항 ${pending}건이 있습니다. 로그아웃하면 이 변경 사항은 삭제됩니다. 계속하시겠습니까?`)) return;
+        await syncService.discardPending();
+      }
       await signOut();
       navigate('/login');
     } catch (error) {
@@ -26,6 +37,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     { path: '/beers', icon: Beer, label: '맥주' },
     { path: '/record', icon: Plus, label: '기록' },
     { path: '/stats', icon: BarChart3, label: '통계' },
+    { path: '/settings', icon: Settings, label: '설정' },
   ];
 
   return (
@@ -33,13 +45,37 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
       <header className="bg-gradient-to-r from-primary-dark to-secondary-dark text-white p-4 shadow-lg">
         <div className="flex justify-between items-center">
           <h1 className="text-xl font-bold">🍺 맥주 트래커</h1>
-          <button
-            onClick={handleSignOut}
-            className="p-2 hover:bg-white/20 rounded-lg transition-colors"
-          >
-            <LogOut size={20} />
-          </button>
+          <div className="flex items-center space-x-2">
+            {(syncStatus.pending > 0 || !syncStatus.online) && (
+              <button
+                onClick={() => syncService.flush()}
+                disabled={!syncStatus.online || syncStatus.syncing}
+                className="flex items-center space-x-1 px-3 py-1 bg-white/20 hover:bg-white/30 rounded-full text-xs font-medium transition-colors disabled:cursor-default"
+                title={syncStatus.online ? '지금 동기화' : '연결되면 자동으로 동기화됩니다'}
+              >
+                {syncStatus.online
+                  ? <RefreshCw size={14} className={syncStatus.syncing ? 'animate-spin' : ''} />
+                  : <CloudOff size={14} />}
+                <span>
+                  {syncStatus.online ? '동기화 대기' : '오프라인'}
+                  {syncStatus.pending > 0 && ` ${syncStatus.pending}`}
+                </span>
+              </button>
+            )}
+            <button
+              onClick={handleSignOut}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <LogOut size={20} />
+            </button>
+          </div>
         </div>
+        {syncStatus.lastError && (
+          <p className="mt-2 text-xs text-white/80">
+            일부 변경 사항을 서버에 반영하지 못했습니다: {syncStatus.lastError}
+          </p>
+        )}
+        <FailedSyncPanel count={syncStatus.failed} />
       </header>
 
       <main className="pb-20">
@@ -49,12 +85,13 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
       <nav className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 shadow-lg">
         <div className="flex justify-around py-2">
           {navItems.map(({ path, icon: Icon, label }) => {
-            const isActive = location.pathname === path;
+            // Detail pages such as /beers/:id keep their section's tab highlighted
+            const isActive = path === '/' ? location.pathname === '/' : location.pathname.startsWith(path);
             return (
               <button
                 key={path}
                 onClick={() => navigate(path)}
-                className={`flex flex-col items-center py-2 px-4 rounded-lg transition-colors ${
+                className={`flex flex-col items-center py-2 px-3 rounded-lg transition-colors ${
                   isActive
                     ? 'text-primary-dark bg-blue-50'
                     : 'text-gray-600 hover:text-primary-dark hover:bg-blue-50'
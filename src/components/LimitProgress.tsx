@@ -0,0 +1,44 @@
+import React from 'react';
+import { AlertTriangle, Target } from 'lucide-react';
+import { formatLimitAmount, LIMIT_PERIOD_LABELS, LimitStatus } from '../lib/limits';
+import { UserSettings } from '../types';
+
+interface LimitProgressProps {
+  statuses: LimitStatus[];
+  settings: UserSettings;
+}
+
+const barColor = (ratio: number) => {
+  if (ratio > 1) return 'bg-red-500';
+  if (ratio >= 0.8) return 'bg-amber-500';
+  return 'bg-gradient-to-r from-primary to-secondary';
+};
+
+const LimitProgress: React.FC<LimitProgressProps> = ({ statuses, settings }) => (
+  <div className="bg-white rounded-xl p-4 shadow-md space-y-4">
+    <h3 className="font-semibold text-gray-900 flex items-center">
+      <Target className="w-5 h-5 mr-2 text-primary" /> 음주 한도
+    </h3>
+    {statuses.map(status => {
+      const ratio = status.amount / status.limit;
+      return (
+        <div key={status.period}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-medium text-gray-700 flex items-center">
+              {LIMIT_PERIOD_LABELS[status.period]}
+              {status.exceeded && <AlertTriangle className="w-4 h-4 ml-1 text-red-500" />}
+            </span>
+            <span className={status.exceeded ? 'text-red-600 font-medium' : 'text-gray-500'}>
+              {formatLimitAmount(status.amount, settings)} / {formatLimitAmount(status.limit, settings)}
+            </span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className={`h-full rounded-full ${barColor(ratio)}`} style={{ width: `${Math.min(ratio, 1) * 100}%` }} />
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default LimitProgress;
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { LIMIT_NAMES, LIMIT_UNIT_LABELS } from '../lib/limits';
+import { LIMIT_UNITS, LimitUnit, UserSettings } from '../types';
+
+type LimitKey = 'daily_limit' | 'weekly_limit' | 'monthly_limit';
+
+const LIMIT_FIELDS: { key: LimitKey; label: string }[] = [
+  { key: 'daily_limit', label: LIMIT_NAMES.day },
+  { key: 'weekly_limit', label: `${LIMIT_NAMES.week} (일~토)` },
+  { key: 'monthly_limit', label: LIMIT_NAMES.month },
+];
+
+const toForm = (settings: UserSettings) => ({
+  limit_unit: settings.limit_unit,
+  daily_limit: settings.daily_limit?.toString() ?? '',
+  weekly_limit: settings.weekly_limit?.toString() ?? '',
+  monthly_limit: settings.monthly_limit?.toString() ?? '',
+});
+
+const toLimit = (value: string) => {
+  const parsed = parseFloat(value);
+  return parsed > 0 ? parsed : null;
+};
+
+const LimitsSection: React.FC = () => {
+  const { settings, updateSettings } = useSettings();
+  const [formData, setFormData] = useState(() => toForm(settings));
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setFormData(toForm(settings));
+  }, [settings]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError('');
+      setMessage('');
+      await updateSettings({
+        limit_unit: formData.limit_unit,
+        daily_limit: toLimit(formData.daily_limit),
+        weekly_limit: toLimit(formData.weekly_limit),
+        monthly_limit: toLimit(formData.monthly_limit),
+      });
+      setMessage('한도를 저장했습니다.');
+    } catch (error) {
+      console.error('Error saving limits:', error);
+      setError('한도를 저장하지 못했습니다.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl p-6 shadow-md space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">음주 한도</h3>
+        <p className="text-sm text-gray-600">비워 둔 한도는 추적하지 않습니다. 홈 화면에서 진행 상황을 확인할 수 있습니다.</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">단위</label>
+        <select
+          value={formData.limit_unit}
+          onChange={(e) => setFormData({ ...formData, limit_unit: e.target.value as LimitUnit })}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+        >
+          {LIMIT_UNITS.map(unit => (
+            <option key={unit} value={unit}>{LIMIT_UNIT_LABELS[unit]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {LIMIT_FIELDS.map(field => (
+          <div key={field.key}>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{field.label}</label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              value={formData[field.key]}
+              onChange={(e) => setFormData({ ...formData, [field.key]: e.target.value })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+              placeholder="없음"
+            />
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-green-600">{message}</p>}
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="w-full py-2 px-4 bg-primary text-white rounded-lg font-medium hover:bg-primary-dark transition-colors disabled:opacity-50"
+      >
+        {saving ? '저장 중...' : '한도 저장'}
+      </button>
+    </form>
+  );
+};
+
+export default LimitsSection;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { GitMerge, X } from 'lucide-react';
+import { beerRepository } from '../repositories';
+import { Beer } from '../types';
+
+interface MergeBeersDialogProps {
+  beers: Beer[];
+  initialTargetId: string;
+  initialSourceIds: string[];
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+const MergeBeersDialog: React.FC<MergeBeersDialogProps> = ({ beers, initialTargetId, initialSourceIds, onClose, onMerged }) => {
+  const [targetId, setTargetId] = useState(initialTargetId);
+  const [sourceIds, setSourceIds] = useState<string[]>(initialSourceIds);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState('');
+
+  const target = beers.find(beer => beer.id === targetId);
+  const sources = sourceIds.filter(id => id !== targetId);
+
+  const toggleSource = (id: string) => {
+    setSourceIds(prev => prev.includes(id) ? prev.filter(sourceId => sourceId !== id) : [...prev, id]);
+  };
+
+  const handleMerge = async () => {
+    if (!target || sources.length === 0) return;
+    const names = beers.filter(beer => sources.includes(beer.id)).map(beer => beer.name).join(', ');
+    if (!confirm(`${names}의 모든 기록을 '${target.name}'(으)로 옮기고 삭제합니다. 계속하시겠습니까?`)) return;
+
+    try {
+      setMerging(true);
+      setError('');
+      await beerRepository.merge(targetId, sources);
+      onMerged();
+    } catch (error) {
+      console.error('Error merging beers:', error);
+      setError('병합하지 못했습니다. 다시 시도해주세요.');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-end sm:items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl p-6 shadow-xl w-full max-w-md max-h-[80vh] overflow-y-auto space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-gray-900">맥주 병합</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          남길 맥주를 고르고 합칠 중복 맥주를 선택하세요. 같은 날짜의 기록은 수량이 합산됩니다.
+        </p>
+
+        <ul className="space-y-2">
+          {beers.map(beer => {
+            const isTarget = beer.id === targetId;
+            return (
+              <li
+                key={beer.id}
+                className={`flex items-center space-x-3 p-3 rounded-lg border ${isTarget ? 'border-primary bg-blue-50' : 'border-gray-200'}`}
+              >
+                <input
+                  type="radio"
+                  name="merge-target"
+                  checked={isTarget}
+                  onChange={() => setTargetId(beer.id)}
+                  title="남길 맥주"
+                />
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900">
+                    {beer.name} <span className="text-sm text-gray-500">({beer.type})</span>
+                  </p>
+                  <p className="text-xs text-gray-500">{beer.volume}ml · {beer.alcohol_percentage}%</p>
+                </div>
+                {isTarget ? (
+                  <span className="text-xs font-medium text-primary-dark">남길 맥주</span>
+                ) : (
+                  <label className="flex items-center space-x-1 text-xs text-gray-600">
+                    <input type="checkbox" checked={sourceIds.includes(beer.id)} onChange={() => toggleSource(beer.id)} />
+                    <span>합치기</span>
+                  </label>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {error && <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">{error}</p>}
+
+        <button
+          onClick={handleMerge}
+          disabled={merging || sources.length === 0}
+          className="w-full flex items-center justify-center space-x-2 py-3 px-4 bg-gradient-to-r from-primary to-secondary text-white rounded-lg font-medium hover:from-primary-dark hover:to-secondary-dark transition-all disabled:opacity-50"
+        >
+          <GitMerge size={18} />
+          <span>{merging ? '병합 중...' : `${sources.length}개 병합`}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MergeBeersDialog;
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Undo2, Zap } from 'lucide-react';
+import { subDays } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { beerRepository, consumptionRepository, dryDayRepository, versionSnapshot } from '../repositories';
+import { beerAlcoholGrams, formatStandardDrinks } from '../lib/alcoholUnits';
+import { drinkingDate, drinkingDay, toDateString } from '../lib/dates';
+import { addGlasses, clearDryMark, QUICK_LOG_STEPS, quickLogBeers, removeGlasses, totalGlasses } from '../lib/quickLog';
+import { SUGGESTION_LOOKBACK_DAYS } from '../lib/suggestions';
+import { Beer, ConsumptionRecord, ConsumptionRecordWithBeer } from '../types';
+
+// How long the undo toast stays up after a tap
+const UNDO_MS = 5000;
+
+interface LoggedGlass {
+  date: string;
+  beer: Beer;
+  amount: number;
+  at: string;
+  /** The day was marked as a no-drinking day before this glass cleared the mark */
+  wasDry: boolean;
+}
+
+const QuickLogCard: React.FC<{ refreshKey?: number; onLogged?: () => void }> = ({ refreshKey, onLogged }) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const [beers, setBeers] = useState<Beer[]>([]);
+  const [records, setRecords] = useState<ConsumptionRecordWithBeer[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [lastLogged, setLastLogged] = useState<LoggedGlass | null>(null);
+  const [error, setError] = useState('');
+
+  const today = drinkingDay(new Date(), settings.day_start_hour);
+  const todayKey = toDateString(today);
+  const todayRecords = records.filter(record => record.date === todayKey);
+  const todayGrams = todayRecords.reduce((sum, record) => sum + beerAlcoholGrams(record.beer, record.quantity), 0);
+
+  useEffect(() => {
+    if (user) {
+      loadData();
+    }
+  }, [user, settings.day_start_hour, refreshKey]);
+
+  useEffect(() => {
+    if (!lastLogged) return;
+    const timer = setTimeout(() => setLastLogged(null), UNDO_MS);
+    return () => clearTimeout(timer);
+  }, [lastLogged]);
+
+  const loadData = async () => {
+    try {
+      const [beerList, recent] = await Promise.all([
+        beerRepository.list(user!.id),
+        consumptionRepository.listWithBeers(user!.id, {
+          start: toDateString(subDays(today, SUGGESTION_LOOKBACK_DAYS)),
+          end: todayKey
+        })
+      ]);
+      setBeers(beerList);
+      setRecords(recent);
+    } catch (error) {
+      console.error('Error loading quick log:', error);
+    }
+  };
+
+  // Swaps in the day's records as saved, so the today total moves without waiting for a reload
+  const replaceDay = (date: string, saved: ConsumptionRecord[]) => {
+    setRecords(prev => [
+      ...prev.filter(record => record.date !== date),
+      ...saved.flatMap(record => {
+        const beer = beers.find(candidate => candidate.id === record.beer_id);
+        return beer ? [{ ...record, beer }] : [];
+      })
+    ]);
+  };
+
+  const handleLog = async (beer: Beer, amount: number) => {
+    try {
+      setBusy(true);
+      setError('');
+      const at = new Date();
+      const date = drinkingDate(at, settings.day_start_hour);
+      const current = await consumptionRepository.listByDate(user!.id, date);
+      const saved = await consumptionRepository.saveDay(
+        user!.id, date, addGlasses(current, beer.id, amount, at.toISOString()), versionSnapshot(current)
+      );
+      const wasDry = await clearDryMark(user!.id, date);
+      replaceDay(date, saved);
+      setLastLogged({ date, beer, amount, at: at.toISOString(), wasDry });
+      onLogged?.();
+    } catch (error) {
+      console.error('Error logging drink:', error);
+      setError('기록하지 못했습니다. 다시 시도해주세요.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!lastLogged) return;
+    const { date, beer, amount, at, wasDry } = lastLogged;
+    try {
+      setBusy(true);
+      setError('');
+      setLastLogged(null);
+      const current = await consumptionRepository.listByDate(user!.id, date);
+      const saved = await consumptionRepository.saveDay(
+        user!.id, date, removeGlasses(current, beer.id, amount, at), versionSnapshot(current)
+      );
+      // Only put the mark back if the undo leaves the day without any glass
+      if (wasDry && saved.length === 0) {
+        await dryDayRepository.set(user!.id, date, true);
+      }
+      replaceDay(date, saved);
+      onLogged?.();
+    } catch (error) {
+      console.error('Error undoing drink:', error);
+      setError('되돌리지 못했습니다. 기록 화면에서 수정해주세요.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const choices = quickLogBeers(beers, records, today);
+
+  return (
+    <div className="bg-white rounded-xl p-4 shadow-md space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900 flex items-center">
+          <Zap className="w-5 h-5 mr-2 text-primary" /> 빠른 기록
+        </h3>
+        <div className="text-right">
+          <p className="text-sm font-bold text-gray-900">오늘 {totalGlasses(todayRecords)}잔</p>
+          {todayGrams > 0 && (
+            <p className="text-xs text-gray-500">{formatStandardDrinks(todayGrams, settings.drink_standard)}</p>
+          )}
+        </div>
+      </div>
+
+      {choices.length === 0 ? (
+        <button
+          onClick={() => navigate('/beers')}
+          className="w-full p-3 text-left text-sm text-gray-600 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          맥주를 등록하면 여기에서 한 번에 기록할 수 있습니다. <span className="text-primary font-medium">맥주 등록하기 →</span>
+        </button>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {choices.map(beer => {
+            const quantity = todayRecords.find(record => record.beer_id === beer.id)?.quantity ?? 0;
+            return (
+              <li key={beer.id} className="flex items-center justify-between py-2">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{beer.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {beer.volume}ml · {beer.alcohol_percentage}%{quantity > 0 && ` · 오늘 ${quantity}잔`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  {QUICK_LOG_STEPS.map(step => (
+                    <button
+                      key={step}
+                      onClick={() => handleLog(beer, step)}
+                      disabled={busy}
+                      className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+                        step === 1 ? 'bg-primary text-white hover:bg-primary-dark' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      +{step}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {lastLogged && (
+        <div className="fixed bottom-20 left-4 right-4 z-50 flex items-center justify-between p-3 bg-gray-900 text-white rounded-lg shadow-lg">
+          <span className="text-sm">{lastLogged.beer.name} {lastLogged.amount}잔을 기록했습니다.</span>
+          <button
+            onClick={handleUndo}
+            disabled={busy}
+            className="flex items-center px-3 py-1 text-sm font-medium text-primary-light hover:text-white disabled:opacity-50"
+          >
+            <Undo2 className="w-4 h-4 mr-1" /> 실행 취소
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuickLogCard;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Clock, Plus, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Beer } from '../types';
+import { useSettings } from '../contexts/SettingsContext';
+import { formatDayStart } from '../lib/dates';
+import { DrinkEvent, formatDuration, groupSessions } from '../lib/sessions';
+
+interface SessionTimelineProps {
+  beers: Beer[];
+  /** Timestamps of the day being edited, keyed by beer id. */
+  timestamps: Record<string, string[]>;
+  onAdd: (beerId: string, time: string) => void;
+  onRemove: (beerId: string, at: string) => void;
+}
+
+const SessionTimeline: React.FC<SessionTimelineProps> = ({ beers, timestamps, onAdd, onRemove }) => {
+  const { settings } = useSettings();
+  const [beerId, setBeerId] = useState(beers[0]?.id ?? '');
+  const [time, setTime] = useState(() => format(new Date(), 'HH:mm'));
+
+  const events: DrinkEvent[] = Object.entries(timestamps)
+    .flatMap(([id, times]) => {
+      const beer = beers.find(b => b.id === id);
+      return beer ? times.map(at => ({ at: parseISO(at), beer })) : [];
+    })
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+  const sessions = groupSessions(events);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (beerId && time) onAdd(beerId, time);
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-4 shadow-md space-y-4">
+      <h4 className="font-semibold text-gray-900 flex items-center">
+        <Clock className="w-5 h-5 mr-2 text-primary" /> 시간별 기록
+      </h4>
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">시간을 기록한 잔이 없습니다. 시각을 남기면 음주 세션과 속도를 볼 수 있습니다.</p>
+      ) : (
+        <div className="space-y-4">
+          {sessions.map(session => (
+            <div key={session.start.toISOString()}>
+              <p className="text-sm font-medium text-gray-700 mb-2">
+                {format(session.start, 'HH:mm')} – {format(session.end, 'HH:mm')}
+                <span className="ml-2 text-gray-400 font-normal">
+                  {session.events.length}잔 · {formatDuration(session.durationMinutes)}
+                </span>
+              </p>
+              <ol className="border-l-2 border-primary-light ml-1 space-y-2">
+                {session.events.map(event => (
+                  <li key={`${event.beer.id}-${event.at.toISOString()}`} className="flex items-center justify-between pl-3 text-sm">
+                    <span>
+                      <span className="text-gray-500 mr-2">{format(event.at, 'HH:mm')}</span>
+                      <span className="text-gray-900">{event.beer.name}</span>
+                    </span>
+                    <button
+                      onClick={() => onRemove(event.beer.id, event.at.toISOString())}
+                      className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                      aria-label="이 잔 삭제"
+                    >
+                      <X size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="flex items-center space-x-2">
+        <select
+          value={beerId}
+          onChange={(e) => setBeerId(e.target.value)}
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+        >
+          {beers.map(beer => (
+            <option key={beer.id} value={beer.id}>{beer.name}</option>
+          ))}
+        </select>
+        <input
+          type="time"
+          value={time}
+          onChange={(e) => setTime(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+        />
+        <button
+          type="submit"
+          className="p-2 bg-primary text-white rounded-lg hover:bg-primary-dark transition-colors"
+          aria-label="한 잔 추가"
+        >
+          <Plus size={18} />
+        </button>
+      </form>
+      {settings.day_start_hour > 0 && (
+        <p className="text-xs text-gray-400">{formatDayStart(settings.day_start_hour)} 이전 시각은 이날 밤에 이어 마신 것으로 기록됩니다.</p>
+      )}
+    </div>
+  );
+};
+
+export default SessionTimeline;
@@ -0,0 +1,146 @@
+import React, { useRef, useState } from 'react';
+
+export interface DragHandleProps {
+  onPointerDown: (e: React.PointerEvent) => void;
+  onKeyDown: (e: React.KeyboardEvent) => void;
+  ref: (element: HTMLElement | null) => void;
+  role: 'button';
+  tabIndex: number;
+  'aria-label': string;
+  style: React.CSSProperties;
+}
+
+interface SortableListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  getLabel: (item: T) => string;
+  renderItem: (item: T, handleProps: DragHandleProps, dragging: boolean) => React.ReactNode;
+  onReorder: (items: T[]) => void;
+  className?: string;
+}
+
+interface DragState {
+  key: string;
+  fromIndex: number;
+  toIndex: number;
+  startY: number;
+  offset: number;
+  /** Item midpoints and the dragged item's height, measured when the drag starts */
+  midpoints: number[];
+  height: number;
+}
+
+const move = <T,>(items: T[], from: number, to: number) => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+/**
+ * Vertical list reorderable by dragging a handle with mouse or touch, or by pressing the
+ * arrow keys while the handle has focus. Order changes are reported once, on drop.
+ */
+function SortableList<T>({ items, getKey, getLabel, renderItem, onReorder, className }: SortableListProps<T>) {
+  const itemRefs = useRef(new Map<string, HTMLElement>());
+  const handleRefs = useRef(new Map<string, HTMLElement>());
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+
+  const handlePointerDown = (index: number, key: string) => (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+
+    const rects = items.map(item => itemRefs.current.get(getKey(item))!.getBoundingClientRect());
+    setDrag({
+      key,
+      fromIndex: index,
+      toIndex: index,
+      startY: e.clientY,
+      offset: 0,
+      midpoints: rects.map(rect => rect.top + rect.height / 2),
+      height: rects[index + 1]
+        ? rects[index + 1].top - rects[index].top
+        : rects[index].height + (rects[index - 1] ? rects[index].top - rects[index - 1].bottom : 0),
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const offset = e.clientY - drag.startY;
+    const center = drag.midpoints[drag.fromIndex] + offset;
+    const toIndex = drag.midpoints.filter((midpoint, i) => i !== drag.fromIndex && midpoint < center).length;
+    setDrag({ ...drag, offset, toIndex });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    setDrag(null);
+    if (drag.toIndex !== drag.fromIndex) {
+      onReorder(move(items, drag.fromIndex, drag.toIndex));
+    }
+  };
+
+  const handleKeyDown = (index: number, item: T) => (e: React.KeyboardEvent) => {
+    const target = e.key === 'ArrowUp' ? index - 1 : e.key === 'ArrowDown' ? index + 1 : null;
+    if (target === null) return;
+    e.preventDefault();
+    if (target < 0 || target >= items.length) return;
+
+    onReorder(move(items, index, target));
+    setAnnouncement(`${getLabel(item)}: ${target + 1}번째로 이동`);
+    // Keep focus on the moved item once the list re-renders in its new order
+    requestAnimationFrame(() => handleRefs.current.get(getKey(item))?.focus());
+  };
+
+  // Items between the drag origin and its current slot make room for the dragged one
+  const shiftFor = (index: number) => {
+    if (!drag || index === drag.fromIndex) return 0;
+    if (drag.fromIndex < index && index <= drag.toIndex) return -drag.height;
+    if (drag.toIndex <= index && index < drag.fromIndex) return drag.height;
+    return 0;
+  };
+
+  return (
+    <div className={className} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} onPointerCancel={handlePointerUp}>
+      {items.map((item, index) => {
+        const key = getKey(item);
+        const dragging = drag?.key === key;
+        const handleProps: DragHandleProps = {
+          onPointerDown: handlePointerDown(index, key),
+          onKeyDown: handleKeyDown(index, item),
+          ref: element => {
+            if (element) handleRefs.current.set(key, element);
+            else handleRefs.current.delete(key);
+          },
+          role: 'button',
+          tabIndex: 0,
+          'aria-label': `${getLabel(item)} 순서 변경 (위/아래 화살표 키로 이동)`,
+          style: { touchAction: 'none', cursor: dragging ? 'grabbing' : 'grab' },
+        };
+
+        return (
+          <div
+            key={key}
+            ref={element => {
+              if (element) itemRefs.current.set(key, element);
+              else itemRefs.current.delete(key);
+            }}
+            style={{
+              transform: `translateY(${dragging ? drag!.offset : shiftFor(index)}px)`,
+              transition: dragging || !drag ? 'none' : 'transform 150ms ease',
+              position: 'relative',
+              zIndex: dragging ? 10 : undefined,
+            }}
+          >
+            {renderItem(item, handleProps, dragging)}
+          </div>
+        );
+      })}
+      <span className="sr-only" aria-live="polite">{announcement}</span>
+    </div>
+  );
+}
+
+export default SortableList;
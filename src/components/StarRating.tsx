@@ -0,0 +1,37 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+
+interface StarRatingProps {
+  value: number | null;
+  /** Omit for a read-only display */
+  onChange?: (value: number | null) => void;
+  size?: 'sm' | 'md';
+}
+
+const StarRating: React.FC<StarRatingProps> = ({ value, onChange, size = 'md' }) => {
+  const iconClass = size === 'sm' ? 'w-3.5 h-3.5' : 'w-5 h-5';
+
+  return (
+    <div className="inline-flex items-center">
+      {[1, 2, 3, 4, 5].map(star => {
+        const filled = value !== null && star <= value;
+        const icon = <Star className={`${iconClass} ${filled ? 'fill-amber-400 text-amber-400' : 'text-gray-300'}`} />;
+        if (!onChange) return <span key={star}>{icon}</span>;
+        return (
+          <button
+            key={star}
+            type="button"
+            // Tapping the current rating again clears it
+            onClick={() => onChange(value === star ? null : star)}
+            className="p-0.5"
+            aria-label={`별점 ${star}점`}
+          >
+            {icon}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StarRating;
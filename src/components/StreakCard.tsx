@@ -0,0 +1,33 @@
+import React from 'react';
+import { Flame, Leaf } from 'lucide-react';
+import { Streaks } from '../types';
+
+const StreakCard: React.FC<{ streaks: Streaks }> = ({ streaks }) => (
+  <div className="bg-white rounded-xl p-4 shadow-md">
+    <div className="grid grid-cols-2 divide-x divide-gray-100">
+      <div className="flex items-center space-x-3 pr-4">
+        <div className="p-2 bg-green-500 rounded-lg">
+          <Leaf className="w-5 h-5 text-white" />
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">연속 금주</p>
+          <p className="text-xl font-bold text-gray-900">{streaks.currentDry}일</p>
+          <p className="text-xs text-gray-400">최장 {streaks.longestDry}일</p>
+        </div>
+      </div>
+      <div className="flex items-center space-x-3 pl-4">
+        <div className="p-2 bg-orange-500 rounded-lg">
+          <Flame className="w-5 h-5 text-white" />
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">연속 음주</p>
+          <p className="text-xl font-bold text-gray-900">{streaks.currentDrinking}일</p>
+          <p className="text-xs text-gray-400">최장 {streaks.longestDrinking}일</p>
+        </div>
+      </div>
+    </div>
+    <p className="mt-3 text-xs text-gray-400">금주일은 기록 화면에서 '마시지 않은 날로 표시'한 날만 집계됩니다.</p>
+  </div>
+);
+
+export default StreakCard;
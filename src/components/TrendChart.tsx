@@ -0,0 +1,86 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { DrinkStandard } from '../types';
+import { DRINK_STANDARD_INFO } from '../lib/alcoholUnits';
+import { DailyIntake, rollingAverage, TREND_WINDOWS } from '../lib/trends';
+
+interface TrendChartProps {
+  daily: Record<string, DailyIntake>;
+  start: Date;
+  end: Date;
+  standard: DrinkStandard;
+  onSelect?: (date: Date) => void;
+}
+
+const WIDTH = 360;
+const HEIGHT = 160;
+const PADDING_TOP = 12;
+const AXIS_HEIGHT = 18;
+
+const TrendChart: React.FC<TrendChartProps> = ({ daily, start, end, standard, onSelect }) => {
+  const [windowDays, setWindowDays] = useState(TREND_WINDOWS[0]);
+  const points = useMemo(() => rollingAverage(daily, start, end, windowDays, standard), [daily, start, end, windowDays, standard]);
+
+  const max = Math.max(...points.flatMap(point => [point.glasses, point.drinks]), 0);
+  const plotHeight = HEIGHT - PADDING_TOP - AXIS_HEIGHT;
+  const xOf = (index: number) => points.length > 1 ? index / (points.length - 1) * WIDTH : WIDTH / 2;
+  const yOf = (value: number) => PADDING_TOP + plotHeight - (max > 0 ? value / max * plotHeight : 0);
+  const pathOf = (valueOf: (index: number) => number) =>
+    points.map((_, index) => `${index === 0 ? 'M' : 'L'}${xOf(index).toFixed(1)},${yOf(valueOf(index)).toFixed(1)}`).join(' ');
+
+  // The whole plot is one tap target; the nearest day to the tap is opened
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!onSelect || points.length === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientX - rect.left) / rect.width;
+    const index = Math.min(points.length - 1, Math.max(0, Math.round(ratio * (points.length - 1))));
+    onSelect(points[index].date);
+  };
+
+  const latest = points[points.length - 1];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-3 text-xs text-gray-600">
+          <span className="flex items-center"><span className="w-3 h-0.5 bg-primary mr-1" />잔</span>
+          <span className="flex items-center"><span className="w-3 h-0.5 bg-orange-500 mr-1" />{DRINK_STANDARD_INFO[standard].unitName}</span>
+        </div>
+        <div className="flex bg-primary-light/20 rounded-lg p-1">
+          {TREND_WINDOWS.map(days => (
+            <button
+              key={days}
+              onClick={() => setWindowDays(days)}
+              className={`px-3 py-1 rounded text-sm font-medium transition-colors ${windowDays === days ? 'bg-white text-primary-dark shadow-sm' : 'text-gray-600 hover:text-primary-dark'}`}
+            >
+              {days}일
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className={`w-full h-auto ${onSelect ? 'cursor-pointer' : ''}`} onClick={handleClick} role="img">
+        <line x1={0} x2={WIDTH} y1={PADDING_TOP + plotHeight} y2={PADDING_TOP + plotHeight} className="stroke-gray-200" />
+        {max > 0 && (
+          <text x={2} y={PADDING_TOP - 2} className="fill-gray-400 text-[9px]">{max.toFixed(1)}/일</text>
+        )}
+        <path d={pathOf(index => points[index].drinks)} fill="none" strokeWidth={2} className="stroke-orange-500" strokeLinejoin="round" />
+        <path d={pathOf(index => points[index].glasses)} fill="none" strokeWidth={2} className="stroke-primary" strokeLinejoin="round" />
+        {points.length > 0 && (
+          <>
+            <text x={0} y={HEIGHT - 4} className="fill-gray-500 text-[10px]">{format(start, 'M/d')}</text>
+            <text x={WIDTH} y={HEIGHT - 4} textAnchor="end" className="fill-gray-500 text-[10px]">{format(end, 'M/d')}</text>
+          </>
+        )}
+      </svg>
+
+      {latest && (
+        <p className="text-xs text-gray-500">
+          {format(latest.date, 'M월 d일')} 기준 최근 {windowDays}일 평균 하루 {latest.glasses.toFixed(1)}잔 · {latest.drinks.toFixed(1)} {DRINK_STANDARD_INFO[standard].unitName}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TrendChart;
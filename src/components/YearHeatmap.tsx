@@ -0,0 +1,99 @@
+import React from 'react';
+import { eachDayOfInterval, endOfYear, format, getDay, isAfter, startOfYear } from 'date-fns';
+import { toDateString } from '../lib/dates';
+import { DailyIntake, WEEKDAY_LABELS } from '../lib/trends';
+
+interface YearHeatmapProps {
+  year: number;
+  /** Days after this are still to come and left blank. */
+  today: Date;
+  daily: Record<string, DailyIntake>;
+  /** Days already marked as dry, shown apart from days that simply have no records. */
+  dryDates?: string[];
+  isOverLimit?: (date: Date) => boolean;
+  onSelect?: (date: Date) => void;
+}
+
+const CELL = 11;
+const STEP = CELL + 2;
+const LEFT = 18;
+const TOP = 14;
+
+// Classes are spelled out so Tailwind keeps them in the build
+const LEVEL_CLASSES = ['fill-gray-100', 'fill-blue-200', 'fill-blue-400', 'fill-blue-600', 'fill-blue-800'];
+
+const levelOf = (glasses: number, max: number) =>
+  glasses > 0 && max > 0 ? Math.max(1, Math.ceil(glasses / max * (LEVEL_CLASSES.length - 1))) : 0;
+
+/** GitHub-style grid of the whole year: one column per week, Sunday on top. */
+const YearHeatmap: React.FC<YearHeatmapProps> = ({ year, today, daily, dryDates = [], isOverLimit, onSelect }) => {
+  const yearStart = startOfYear(new Date(year, 0, 1));
+  const days = eachDayOfInterval({ start: yearStart, end: endOfYear(yearStart) });
+  const leadingDays = getDay(yearStart);
+  const weeks = Math.ceil((leadingDays + days.length) / 7);
+  const max = Math.max(...Object.values(daily).map(intake => intake.glasses), 0);
+  const positionOf = (index: number) => ({ x: LEFT + Math.floor((index + leadingDays) / 7) * STEP, y: TOP + (index + leadingDays) % 7 * STEP });
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <svg width={LEFT + weeks * STEP} height={TOP + 7 * STEP} role="img">
+          {days.map((date, index) => date.getDate() === 1 && (
+            <text key={`month-${index}`} x={positionOf(index).x} y={TOP - 4} className="fill-gray-500 text-[9px]">
+              {format(date, 'M월')}
+            </text>
+          ))}
+          {[1, 3, 5].map(weekday => (
+            <text key={weekday} x={0} y={TOP + weekday * STEP + CELL - 2} className="fill-gray-400 text-[9px]">
+              {WEEKDAY_LABELS[weekday]}
+            </text>
+          ))}
+          {days.map((date, index) => {
+            const key = toDateString(date);
+            const glasses = daily[key]?.glasses ?? 0;
+            const future = isAfter(date, today);
+            const fill = future
+              ? 'fill-gray-50'
+              : isOverLimit?.(date) ? 'fill-red-500'
+              : glasses === 0 && dryDates.includes(key) ? 'fill-green-300'
+              : LEVEL_CLASSES[levelOf(glasses, max)];
+            const { x, y } = positionOf(index);
+            return (
+              <rect
+                key={key}
+                x={x}
+                y={y}
+                width={CELL}
+                height={CELL}
+                rx={2}
+                className={`${fill} ${onSelect && !future ? 'cursor-pointer' : ''}`}
+                onClick={onSelect && !future ? () => onSelect(date) : undefined}
+              >
+                <title>{`${format(date, 'M월 d일')}: ${glasses}잔`}</title>
+              </rect>
+            );
+          })}
+        </svg>
+      </div>
+      <div className="flex items-center justify-end space-x-1 text-xs text-gray-500">
+        <span>적음</span>
+        {LEVEL_CLASSES.map(level => (
+          <svg key={level} width={CELL} height={CELL}><rect width={CELL} height={CELL} rx={2} className={level} /></svg>
+        ))}
+        <span>많음</span>
+        <span className="flex items-center pl-2">
+          <svg width={CELL} height={CELL} className="mr-1"><rect width={CELL} height={CELL} rx={2} className="fill-green-300" /></svg>
+          금주일
+        </span>
+        {isOverLimit && (
+          <span className="flex items-center pl-2">
+            <svg width={CELL} height={CELL} className="mr-1"><rect width={CELL} height={CELL} rx={2} className="fill-red-500" /></svg>
+            한도 초과
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default YearHeatmap;
@@ -1,12 +1,12 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { User } from '@supabase/supabase-js';
-import { supabase } from '../lib/supabase';
+import { authService, AuthResult } from '../repositories';
+import { User } from '../types';
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
-  signIn: (email: string, password: string, remember: boolean) => Promise<{ error: any }>;
-  signUp: (email: string, password: string) => Promise<{ error: any }>;
+  signIn: (email: string, password: string, remember: boolean) => Promise<AuthResult>;
+  signUp: (email: string, password: string) => Promise<AuthResult>;
   signOut: () => Promise<void>;
 }
 
@@ -26,20 +26,16 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   useEffect(() => {
     // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
+    authService.getCurrentUser().then((currentUser) => {
+      setUser(currentUser);
       setLoading(false);
     });
 
     // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      async (event, session) => {
-        setUser(session?.user ?? null);
-        setLoading(false);
-      }
-    );
-
-    return () => subscription.unsubscribe();
+    return authService.onAuthStateChange((nextUser) => {
+      setUser(nextUser);
+      setLoading(false);
+    });
   }, []);
 
   const signIn = async (email: string, password: string, remember: boolean) => {
@@ -51,27 +47,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       localStorage.removeItem('beer-tracker-password');
     }
 
-    const result = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
-
-    return result;
+    return authService.signIn(email, password);
   };
 
   const signUp = async (email: string, password: string) => {
-    const result = await supabase.auth.signUp({
-      email,
-      password,
-    });
-
-    return result;
+    return authService.signUp(email, password);
   };
 
   const signOut = async () => {
     localStorage.removeItem('beer-tracker-email');
     localStorage.removeItem('beer-tracker-password');
-    await supabase.auth.signOut();
+    await authService.signOut();
   };
 
   const value = {
@@ -87,4 +73,4 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       {children}
     </AuthContext.Provider>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,64 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { settingsRepository } from '../repositories';
+import { DEFAULT_USER_SETTINGS, UserSettings } from '../types';
+import { useAuth } from './AuthContext';
+
+interface SettingsContextType {
+  settings: UserSettings;
+  updateSettings: (patch: Partial<UserSettings>) => Promise<void>;
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+export const useSettings = () => {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+};
+
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
+
+  useEffect(() => {
+    if (!user) {
+      setSettings(DEFAULT_USER_SETTINGS);
+      return;
+    }
+
+    let cancelled = false;
+    settingsRepository.get(user.id)
+      .then(loaded => {
+        if (!cancelled) setSettings(loaded);
+      })
+      .catch(error => console.error('Error loading settings:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const updateSettings = async (patch: Partial<UserSettings>) => {
+    const previous = settings;
+    // Apply right away so every screen re-renders with the new preference
+    setSettings({ ...settings, ...patch });
+    try {
+      setSettings(await settingsRepository.update(user!.id, patch));
+    } catch (error) {
+      setSettings(previous);
+      throw error;
+    }
+  };
+
+  const value = {
+    settings,
+    updateSettings,
+  };
+
+  return (
+    <SettingsContext.Provider value={value}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
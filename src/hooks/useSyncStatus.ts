@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { syncService } from '../repositories';
+
+export const useSyncStatus = () =>
+  useSyncExternalStore(syncService.subscribe, syncService.getStatus);
@@ -0,0 +1,34 @@
+import { Beer, DrinkStandard } from '../types';
+
+// Density of ethanol at 20°C, in g/ml
+const ETHANOL_DENSITY = 0.789;
+
+export interface DrinkStandardInfo {
+  label: string;
+  /** Grams of ethanol in one standard drink. */
+  grams: number;
+  /** What the standard calls one drink, e.g. "unit" in the UK. */
+  unitName: string;
+}
+
+export const DRINK_STANDARD_INFO: Record<DrinkStandard, DrinkStandardInfo> = {
+  kr: { label: '한국 · WHO', grams: 10, unitName: '표준잔' },
+  us: { label: '미국', grams: 14, unitName: '표준잔' },
+  uk: { label: '영국', grams: 8, unitName: '유닛' },
+  jp: { label: '일본', grams: 20, unitName: '단위' },
+};
+
+/** Grams of ethanol in `quantity` servings of `volume` ml at `abv` percent. */
+export const alcoholGrams = (volume: number, abv: number, quantity = 1) =>
+  volume * (abv / 100) * ETHANOL_DENSITY * quantity;
+
+export const beerAlcoholGrams = (beer: Pick<Beer, 'volume' | 'alcohol_percentage'>, quantity = 1) =>
+  alcoholGrams(beer.volume, beer.alcohol_percentage, quantity);
+
+export const standardDrinks = (grams: number, standard: DrinkStandard) =>
+  grams / DRINK_STANDARD_INFO[standard].grams;
+
+export const formatGrams = (grams: number) => `${grams.toFixed(1)} g`;
+
+export const formatStandardDrinks = (grams: number, standard: DrinkStandard) =>
+  `${standardDrinks(grams, standard).toFixed(1)} ${DRINK_STANDARD_INFO[standard].unitName}`;
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { addMinutes } from 'date-fns';
+import { ABSORPTION_MINUTES, bacCurve, ELIMINATION_RATE, estimateBac, timeBelowThreshold } from './bac';
+
+const profile = { weight: 70, r: 0.68 };
+const start = new Date(2025, 0, 1, 20, 0);
+// 500ml at 5% is about 19.7g of ethanol
+const grams = 500 * 0.05 * 0.789;
+
+// A / (r × W) in percent: 19.725 / (0.68 × 70000) × 100 ≈ 0.041
+const fullyAbsorbedPeak = grams / (profile.r * profile.weight * 1000) * 100;
+const eliminatedWhileAbsorbing = ELIMINATION_RATE * ABSORPTION_MINUTES / 60;
+
+describe('bacCurve', () => {
+  it('returns nothing without drinks or a usable profile', () => {
+    expect(bacCurve([], profile, addMinutes(start, 60))).toEqual([]);
+    expect(bacCurve([{ at: start, grams }], { weight: 0, r: 0.68 }, addMinutes(start, 60))).toEqual([]);
+  });
+
+  it('rises over the absorption window and peaks when the drink is fully absorbed', () => {
+    const curve = bacCurve([{ at: start, grams }], profile, addMinutes(start, 120));
+    const peak = curve.reduce((best, point) => (point.bac > best.bac ? point : best));
+
+    expect(curve[0]).toEqual({ at: start, bac: 0 });
+    expect(peak.at).toEqual(addMinutes(start, ABSORPTION_MINUTES));
+    expect(peak.bac).toBeCloseTo(fullyAbsorbedPeak - eliminatedWhileAbsorbing, 6);
+    for (let i = 1; i < curve.length && curve[i].at <= peak.at; i++) {
+      expect(curve[i].bac).toBeGreaterThan(curve[i - 1].bac);
+    }
+  });
+
+  it('eliminates back to zero and never goes below it', () => {
+    const curve = bacCurve([{ at: start, grams }], profile, addMinutes(start, 6 * 60));
+    const minutesToZero = ABSORPTION_MINUTES + (fullyAbsorbedPeak - eliminatedWhileAbsorbing) / ELIMINATION_RATE * 60;
+
+    curve.forEach(point => expect(point.bac).toBeGreaterThanOrEqual(0));
+    expect(estimateBac([{ at: start, grams }], profile, addMinutes(start, Math.ceil(minutesToZero) + 5))).toBe(0);
+    expect(curve[curve.length - 1].bac).toBe(0);
+  });
+});
+
+describe('estimateBac', () => {
+  it('is zero before the first drink and matches the curve after it', () => {
+    const drinks = [{ at: start, grams }, { at: addMinutes(start, 30), grams }];
+    const at = addMinutes(start, 90);
+    const curve = bacCurve(drinks, profile, at);
+
+    expect(estimateBac(drinks, profile, addMinutes(start, -30))).toBe(0);
+    expect(estimateBac(drinks, profile, at)).toBe(curve[curve.length - 1].bac);
+  });
+
+  it('adds the drinks up', () => {
+    const at = addMinutes(start, ABSORPTION_MINUTES);
+    const single = estimateBac([{ at: start, grams }], profile, at);
+    const double = estimateBac([{ at: start, grams: grams * 2 }], profile, at);
+
+    expect(double - single).toBeCloseTo(fullyAbsorbedPeak, 6);
+  });
+});
+
+describe('timeBelowThreshold', () => {
+  it('waits for the drink to be absorbed even while the estimate is still low', () => {
+    const belowAt = timeBelowThreshold([{ at: start, grams }], profile, 0.05, addMinutes(start, 10));
+
+    expect(belowAt).toEqual(addMinutes(start, ABSORPTION_MINUTES));
+  });
+
+  it('finds the first sample below the threshold after the peak', () => {
+    const threshold = 0.01;
+    const belowAt = timeBelowThreshold([{ at: start, grams }], profile, threshold, start);
+    const exact = ABSORPTION_MINUTES + (fullyAbsorbedPeak - eliminatedWhileAbsorbing - threshold) / ELIMINATION_RATE * 60;
+
+    expect(belowAt).toEqual(addMinutes(start, Math.ceil(exact / 5) * 5));
+  });
+
+  it('is now once everything is absorbed and already below the threshold', () => {
+    const now = addMinutes(start, 5 * 60);
+
+    expect(timeBelowThreshold([{ at: start, grams }], profile, 0.03, now)).toBe(now);
+  });
+
+  it('gives up past the two-day horizon', () => {
+    // About 1.4kg of ethanol would take far longer than 48 hours to eliminate
+    const drinks = [{ at: start, grams: 1400 }];
+
+    expect(timeBelowThreshold(drinks, profile, 0.03, start)).toBeNull();
+  });
+});
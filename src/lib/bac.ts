@@ -0,0 +1,90 @@
+import { addMinutes, differenceInMinutes } from 'date-fns';
+
+/** Typical Widmark body water constants. */
+export const WIDMARK_R = {
+  male: 0.68,
+  female: 0.55,
+};
+
+// Average elimination rate, in BAC percentage points per hour
+export const ELIMINATION_RATE = 0.015;
+
+// A drink is modelled as absorbed linearly over this many minutes from its start time
+export const ABSORPTION_MINUTES = 45;
+
+const STEP_MINUTES = 5;
+
+// Stops the search for the time below threshold after this long
+const MAX_HORIZON_MINUTES = 48 * 60;
+
+export interface BacDrink {
+  at: Date;
+  /** Grams of ethanol. */
+  grams: number;
+}
+
+export interface BacProfile {
+  /** Body weight in kg. */
+  weight: number;
+  /** Widmark body water constant r. */
+  r: number;
+}
+
+export interface BacPoint {
+  at: Date;
+  /** Blood alcohol concentration in percent. */
+  bac: number;
+}
+
+// Peak BAC contributed by `grams` of ethanol once fully absorbed: A / (r × W) as g per 100 ml
+const peakFor = (grams: number, profile: BacProfile) => grams / (profile.r * profile.weight * 1000) * 100;
+
+const absorbedFraction = (drink: BacDrink, at: Date) => {
+  const minutes = differenceInMinutes(at, drink.at);
+  if (minutes <= 0) return 0;
+  return Math.min(minutes / ABSORPTION_MINUTES, 1);
+};
+
+/**
+ * Widmark estimate sampled every STEP_MINUTES from the first drink through `until`.
+ * Alcohol enters the blood as each drink is absorbed and leaves at ELIMINATION_RATE
+ * while any is present, so the curve never goes below zero.
+ */
+export const bacCurve = (drinks: BacDrink[], profile: BacProfile, until: Date): BacPoint[] => {
+  if (drinks.length === 0 || profile.weight <= 0 || profile.r <= 0) return [];
+
+  const sorted = [...drinks].sort((a, b) => a.at.getTime() - b.at.getTime());
+  const points: BacPoint[] = [{ at: sorted[0].at, bac: 0 }];
+  let bac = 0;
+  let previous = sorted[0].at;
+
+  for (let at = addMinutes(previous, STEP_MINUTES); at <= until; at = addMinutes(at, STEP_MINUTES)) {
+    const absorbed = sorted.reduce((sum, drink) =>
+      sum + peakFor(drink.grams, profile) * (absorbedFraction(drink, at) - absorbedFraction(drink, previous)), 0);
+    bac = Math.max(bac + absorbed - ELIMINATION_RATE * STEP_MINUTES / 60, 0);
+    points.push({ at, bac });
+    previous = at;
+  }
+  return points;
+};
+
+export const estimateBac = (drinks: BacDrink[], profile: BacProfile, at: Date) => {
+  const curve = bacCurve(drinks, profile, at);
+  return curve.length > 0 ? curve[curve.length - 1].bac : 0;
+};
+
+/**
+ * First moment after `now` when the estimate is below `threshold` with every drink fully absorbed.
+ * Resolves to `now` when that already holds, or null if it is further away than two days.
+ */
+export const timeBelowThreshold = (drinks: BacDrink[], profile: BacProfile, threshold: number, now: Date) => {
+  const lastAbsorbed = drinks.reduce(
+    (latest, drink) => Math.max(latest, addMinutes(drink.at, ABSORPTION_MINUTES).getTime()), 0
+  );
+  if (lastAbsorbed <= now.getTime() && estimateBac(drinks, profile, now) < threshold) return now;
+
+  const point = bacCurve(drinks, profile, addMinutes(now, MAX_HORIZON_MINUTES)).find(point =>
+    point.at.getTime() >= lastAbsorbed && point.at >= now && point.bac < threshold
+  );
+  return point?.at ?? null;
+};
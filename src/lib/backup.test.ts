@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Beer, ConsumptionRecordWithBeer, EMPTY_BEER_DETAILS } from '../types';
+import { BackupBundle, BackupFormatError, createBackup, parseBackup, planRestore } from './backup';
+
+vi.mock('../repositories', () => ({ ALL_DATES: {}, beerRepository: {}, consumptionRepository: {} }));
+
+const beer = (id: string, patch: Partial<Beer> = {}): Beer => ({
+  ...EMPTY_BEER_DETAILS,
+  id,
+  name: 'Cass',
+  type: '캔',
+  volume: 500,
+  alcohol_percentage: 4.5,
+  sort_order: 0,
+  user_id: 'user-1',
+  created_at: '2025-01-01T00:00:00.000Z',
+  archived_at: null,
+  pinned_at: null,
+  ...patch,
+});
+
+const bundle = (patch: Partial<BackupBundle> = {}): BackupBundle => ({
+  version: 1,
+  exported_at: '2025-08-01T00:00:00.000Z',
+  beers: [
+    { ...beer('old-cass'), sort_order: 0 },
+    { ...beer('old-ipa', { name: 'Hazy IPA', alcohol_percentage: 6.5, pinned_at: '2025-03-01T00:00:00.000Z' }), sort_order: 1 },
+  ],
+  consumption_records: [
+    { date: '2025-07-01', beer_id: 'old-cass', quantity: 2, consumed_at: ['2025-07-01T11:00:00.000Z'], created_at: '' },
+    { date: '2025-07-01', beer_id: 'old-cass', quantity: 1, consumed_at: ['2025-07-01T12:00:00.000Z'], note: '치킨', created_at: '' },
+    { date: '2025-07-02', beer_id: 'old-ipa', quantity: 1, created_at: '' },
+  ],
+  ...patch,
+});
+
+describe('parseBackup', () => {
+  it('reads back what createBackup wrote', () => {
+    const record: ConsumptionRecordWithBeer = {
+      id: 'record-1', date: '2025-07-01', beer_id: 'cass', quantity: 1.5, consumed_at: [], note: null, rating: 4, price: null,
+      user_id: 'user-1', created_at: '', updated_at: '', version: 1, beer: beer('cass'),
+    };
+    const backup = createBackup([beer('cass')], [record]);
+
+    expect(parseBackup(JSON.stringify(backup))).toEqual(JSON.parse(JSON.stringify(backup)));
+  });
+
+  it('describes the first problem it finds', () => {
+    expect(() => parseBackup('{')).toThrow('JSON 파일을 읽을 수 없습니다.');
+    expect(() => parseBackup(JSON.stringify({ ...bundle(), version: 2 }))).toThrow('v2');
+
+    const orphan = bundle({ consumption_records: [{ date: '2025-07-01', beer_id: 'missing', quantity: 1, created_at: '' }] });
+    expect(() => parseBackup(JSON.stringify(orphan))).toThrow('1번째 소비 기록');
+
+    const badRating = bundle({ beers: [{ ...bundle().beers[0], rating: 7 }], consumption_records: [] });
+    expect(() => parseBackup(JSON.stringify(badRating))).toThrow(BackupFormatError);
+  });
+});
+
+describe('planRestore', () => {
+  it('maps bundled beers onto identical existing ones when merging', () => {
+    const existing = [beer('cass', { name: ' cass ' })];
+
+    const plan = planRestore(bundle(), existing, 'merge');
+
+    expect(plan.beersMatched).toBe(1);
+    expect(plan.beersToCreate.map(created => created.input.name)).toEqual(['Hazy IPA']);
+    expect(plan.entries.find(entry => entry.date === '2025-07-01')?.beer_id).toBe('cass');
+  });
+
+  it('places new beers after the highest existing sort order, gaps included', () => {
+    const existing = [beer('a', { name: 'A', sort_order: 0 }), beer('b', { name: 'B', sort_order: 7 })];
+
+    const plan = planRestore(bundle(), existing, 'merge');
+
+    expect(plan.beersToCreate.map(created => created.sortOrder)).toEqual([8, 9]);
+  });
+
+  it('creates every beer under a fresh id when replacing and keeps the pin time', () => {
+    const plan = planRestore(bundle(), [beer('cass')], 'replace');
+
+    expect(plan.beersMatched).toBe(0);
+    expect(plan.beersToCreate.map(created => created.sortOrder)).toEqual([0, 1]);
+    expect(plan.beersToCreate.map(created => created.id)).not.toContain('old-cass');
+    expect(plan.beersToCreate[1].pinnedAt).toBe('2025-03-01T00:00:00.000Z');
+  });
+
+  it('folds several rows of one beer on one day into a single entry', () => {
+    const plan = planRestore(bundle(), [], 'replace');
+    const cassId = plan.beersToCreate[0].id;
+
+    expect(plan.entries).toHaveLength(2);
+    expect(plan.entries.find(entry => entry.beer_id === cassId)).toMatchObject({
+      date: '2025-07-01',
+      quantity: 3,
+      consumed_at: ['2025-07-01T11:00:00.000Z', '2025-07-01T12:00:00.000Z'],
+      note: '치킨',
+    });
+  });
+});
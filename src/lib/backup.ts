@@ -0,0 +1,281 @@
+import { Beer, BEER_STYLES, BEER_TYPES, BeerInput, BeerStyle, BeerType, ConsumptionRecordWithBeer, DatedEntry } from '../types';
+import { ALL_DATES, beerRepository, consumptionRepository } from '../repositories';
+import { RestoredBeer } from '../repositories/types';
+import { toCsv } from './csv';
+import { pricePerGlass } from './spending';
+import { nextSortOrder } from './suggestions';
+
+export const BACKUP_VERSION = 1;
+
+export interface BackupBeer {
+  id: string;
+  name: string;
+  type: BeerType;
+  volume: number;
+  alcohol_percentage: number;
+  brewery?: string | null;
+  style?: BeerStyle | null;
+  country?: string | null;
+  ibu?: number | null;
+  notes?: string | null;
+  rating?: number | null;
+  tasting_notes?: string | null;
+  price?: number | null;
+  calories?: number | null;
+  barcodes?: string[];
+  sort_order: number;
+  created_at: string;
+  archived_at?: string | null;
+  pinned_at?: string | null;
+}
+
+export interface BackupRecord {
+  date: string;
+  beer_id: string;
+  quantity: number;
+  consumed_at?: string[];
+  note?: string | null;
+  rating?: number | null;
+  price?: number | null;
+  created_at: string;
+}
+
+export interface BackupBundle {
+  version: number;
+  exported_at: string;
+  beers: BackupBeer[];
+  consumption_records: BackupRecord[];
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreResult {
+  beersCreated: number;
+  beersMatched: number;
+  recordsInserted: number;
+  recordsSkipped: number;
+}
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) =>
+  value === undefined || value === null || check(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isRating = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5;
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(isString);
+
+const isTimestampList = (value: unknown) =>
+  Array.isArray(value) && value.every(item => isString(item) && !Number.isNaN(Date.parse(item)));
+
+export const createBackup = (beers: Beer[], records: ConsumptionRecordWithBeer[]): BackupBundle => ({
+  version: BACKUP_VERSION,
+  exported_at: new Date().toISOString(),
+  beers: beers.map(({ id, name, type, volume, alcohol_percentage, brewery, style, country, ibu, notes, rating, tasting_notes, price, calories, barcodes, sort_order, created_at, archived_at, pinned_at }) => ({
+    id, name, type, volume, alcohol_percentage, brewery, style, country, ibu, notes, rating, tasting_notes, price, calories, barcodes, sort_order, created_at, archived_at, pinned_at
+  })),
+  consumption_records: records.map(({ date, beer_id, quantity, consumed_at, note, rating, price, created_at }) => ({
+    date, beer_id, quantity, consumed_at, note, rating, price, created_at
+  })),
+});
+
+export const exportBackup = async (userId: string) => {
+  const [beers, records] = await Promise.all([
+    beerRepository.list(userId),
+    consumptionRepository.listWithBeers(userId, ALL_DATES),
+  ]);
+  return createBackup(beers, records);
+};
+
+export const recordsToCsv = (records: ConsumptionRecordWithBeer[]) =>
+  toCsv(
+    ['date', 'beer_name', 'type', 'volume_ml', 'alcohol_percentage', 'quantity', 'total_volume_ml', 'pure_alcohol_ml', 'price_per_glass', 'cost'],
+    records.map(record => {
+      const price = pricePerGlass(record);
+      return [
+        record.date,
+        record.beer.name,
+        record.beer.type,
+        record.beer.volume,
+        record.beer.alcohol_percentage,
+        record.quantity,
+        record.beer.volume * record.quantity,
+        Math.round(record.beer.volume * record.beer.alcohol_percentage / 100 * record.quantity * 100) / 100,
+        price,
+        price === null ? null : price * record.quantity,
+      ];
+    })
+  );
+
+// Checks the shape of an uploaded bundle and throws BackupFormatError describing the first problem
+export const parseBackup = (text: string): BackupBundle => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupFormatError('JSON 파일을 읽을 수 없습니다.');
+  }
+
+  if (!isObject(data) || typeof data.version !== 'number') {
+    throw new BackupFormatError('맥주 트래커 백업 파일이 아닙니다.');
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new BackupFormatError(`지원하지 않는 백업 버전입니다 (v${data.version}). 앱을 업데이트해주세요.`);
+  }
+  if (!Array.isArray(data.beers) || !Array.isArray(data.consumption_records)) {
+    throw new BackupFormatError('백업 파일에 맥주 또는 기록 목록이 없습니다.');
+  }
+
+  const beerIds = new Set<string>();
+  data.beers.forEach((beer, index) => {
+    const valid = isObject(beer) &&
+      typeof beer.id === 'string' &&
+      typeof beer.name === 'string' && beer.name.trim() !== '' &&
+      BEER_TYPES.includes(beer.type as BeerType) &&
+      isNonNegativeNumber(beer.volume) && beer.volume > 0 &&
+      isNonNegativeNumber(beer.alcohol_percentage) &&
+      typeof beer.sort_order === 'number' &&
+      isOptional(beer.brewery, isString) &&
+      isOptional(beer.style, style => BEER_STYLES.includes(style as BeerStyle)) &&
+      isOptional(beer.country, isString) &&
+      isOptional(beer.ibu, isNonNegativeNumber) &&
+      isOptional(beer.notes, isString) &&
+      isOptional(beer.rating, isRating) &&
+      isOptional(beer.tasting_notes, isString) &&
+      isOptional(beer.price, isNonNegativeNumber) &&
+      isOptional(beer.calories, isNonNegativeNumber) &&
+      isOptional(beer.barcodes, isStringList) &&
+      isOptional(beer.archived_at, isString) &&
+      isOptional(beer.pinned_at, isString);
+    if (!valid) {
+      throw new BackupFormatError(`${index + 1}번째 맥주 항목이 올바르지 않습니다.`);
+    }
+    beerIds.add(beer.id as string);
+  });
+
+  data.consumption_records.forEach((record, index) => {
+    const valid = isObject(record) &&
+      typeof record.date === 'string' && DATE_PATTERN.test(record.date) &&
+      typeof record.beer_id === 'string' && beerIds.has(record.beer_id) &&
+      isNonNegativeNumber(record.quantity) && record.quantity > 0 &&
+      isOptional(record.consumed_at, isTimestampList) &&
+      isOptional(record.note, isString) &&
+      isOptional(record.rating, isRating) &&
+      isOptional(record.price, isNonNegativeNumber);
+    if (!valid) {
+      throw new BackupFormatError(`${index + 1}번째 소비 기록이 올바르지 않습니다.`);
+    }
+  });
+
+  return data as unknown as BackupBundle;
+};
+
+const beerKey = (beer: BeerInput) =>
+  [beer.name.trim().toLowerCase(), beer.type, beer.volume, beer.alcohol_percentage].join('|');
+
+/**
+ * Works out what a restore will write. Every bundled beer gets a fresh id; in merge mode a
+ * beer identical to an existing one (name, type, volume, ABV) is mapped onto it instead.
+ */
+export const planRestore = (bundle: BackupBundle, existingBeers: Beer[], mode: RestoreMode) => {
+  const existingByKey = new Map(mode === 'merge' ? existingBeers.map(beer => [beerKey(beer), beer.id]) : []);
+  const baseOrder = mode === 'merge' ? nextSortOrder(existingBeers) : 0;
+
+  const beerIdMap = new Map<string, string>();
+  const beersToCreate: RestoredBeer[] = [];
+
+  [...bundle.beers]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .forEach(beer => {
+      const input: BeerInput = {
+        name: beer.name,
+        type: beer.type,
+        volume: beer.volume,
+        alcohol_percentage: beer.alcohol_percentage,
+        brewery: beer.brewery ?? null,
+        style: beer.style ?? null,
+        country: beer.country ?? null,
+        ibu: beer.ibu ?? null,
+        notes: beer.notes ?? null,
+        rating: beer.rating ?? null,
+        tasting_notes: beer.tasting_notes ?? null,
+        price: beer.price ?? null,
+        calories: beer.calories ?? null,
+        barcodes: beer.barcodes ?? [],
+      };
+      const matched = existingByKey.get(beerKey(input));
+      if (matched) {
+        beerIdMap.set(beer.id, matched);
+        return;
+      }
+      const id = crypto.randomUUID();
+      beerIdMap.set(beer.id, id);
+      beersToCreate.push({ id, input, sortOrder: baseOrder + beersToCreate.length, archivedAt: beer.archived_at ?? null, pinnedAt: beer.pinned_at ?? null });
+    });
+
+  // Older exports could contain several rows per day and beer; fold them into one
+  const entries = new Map<string, DatedEntry>();
+  bundle.consumption_records.forEach(record => {
+    const beerId = beerIdMap.get(record.beer_id)!;
+    const key = `${record.date}|${beerId}`;
+    const existing = entries.get(key);
+    entries.set(key, {
+      date: record.date,
+      beer_id: beerId,
+      quantity: (existing?.quantity ?? 0) + record.quantity,
+      consumed_at: [...existing?.consumed_at ?? [], ...record.consumed_at ?? []],
+      note: existing?.note ?? record.note ?? null,
+      rating: existing?.rating ?? record.rating ?? null,
+      price: existing?.price ?? record.price ?? null,
+    });
+  });
+
+  return {
+    beersToCreate,
+    beersMatched: bundle.beers.length - beersToCreate.length,
+    entries: [...entries.values()],
+  };
+};
+
+/**
+ * Restores a bundle into the user's account. "replace" swaps every beer and record for the
+ * bundle in one transaction, so a failure leaves the old data in place; "merge" keeps existing
+ * data and only adds records for days and beers that have none yet.
+ */
+export const restoreBackup = async (userId: string, bundle: BackupBundle, mode: RestoreMode): Promise<RestoreResult> => {
+  const existingBeers = mode === 'merge' ? await beerRepository.list(userId) : [];
+  const plan = planRestore(bundle, existingBeers, mode);
+
+  let recordsInserted: number;
+  if (mode === 'replace') {
+    recordsInserted = await beerRepository.replaceAll(userId, plan.beersToCreate, plan.entries);
+  } else {
+    for (const beer of plan.beersToCreate) {
+      await beerRepository.create(userId, beer.input, beer.sortOrder, beer.id, { archived_at: beer.archivedAt, pinned_at: beer.pinnedAt });
+    }
+    recordsInserted = await consumptionRepository.insertMany(userId, plan.entries);
+  }
+
+  return {
+    beersCreated: plan.beersToCreate.length,
+    beersMatched: plan.beersMatched,
+    recordsInserted,
+    recordsSkipped: plan.entries.length - recordsInserted,
+  };
+};
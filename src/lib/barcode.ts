@@ -0,0 +1,57 @@
+import { Beer } from '../types';
+import { decodeEan13, isValidBarcode, normalizeBarcode } from './ean';
+
+// The Barcode Detection API is not in TypeScript's DOM types yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+const BARCODE_FORMATS = ['ean_13', 'ean_8', 'upc_a'];
+
+const getDetectorConstructor = () =>
+  (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+let detector: BarcodeDetectorInstance | null = null;
+
+/** Live camera scanning needs the native detector; without it only photos can be decoded. */
+export const supportsLiveScan = () =>
+  Boolean(getDetectorConstructor() && navigator.mediaDevices?.getUserMedia);
+
+const firstValid = (values: string[]) =>
+  values.map(normalizeBarcode).find(isValidBarcode) ?? null;
+
+/** Looks for a barcode in a video frame or image using the browser's BarcodeDetector. */
+export const detectBarcode = async (source: ImageBitmapSource) => {
+  const Detector = getDetectorConstructor();
+  if (!Detector) return null;
+  detector = detector ?? new Detector({ formats: BARCODE_FORMATS });
+  return firstValid((await detector.detect(source)).map(barcode => barcode.rawValue));
+};
+
+/** Reads a barcode from a photo, falling back to the built-in EAN-13 decoder when there is no BarcodeDetector. */
+export const decodeBarcodeImage = async (file: Blob) => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    if (getDetectorConstructor()) return await detectBarcode(bitmap);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    context.drawImage(bitmap, 0, 0);
+    return decodeEan13(context.getImageData(0, 0, bitmap.width, bitmap.height));
+  } finally {
+    bitmap.close();
+  }
+};
+
+/** The user's beer a scanned code was attached to; the catalog carries no barcodes, so only attached codes resolve. */
+export const findBeerByBarcode = (code: string, beers: Beer[]) =>
+  beers.find(candidate => candidate.barcodes.includes(code)) ?? null;
@@ -0,0 +1,53 @@
+import bundled from '../data/beerCatalog.json';
+import { catalogRepository } from '../repositories';
+import { CatalogBeer, CatalogOverride, CatalogServing } from '../types';
+
+/** Bumped whenever the bundled JSON changes, so support can tell which list a build ships. */
+export const CATALOG_VERSION = bundled.version;
+
+export const BUNDLED_CATALOG = bundled.beers as CatalogBeer[];
+
+const SEARCH_LIMIT = 8;
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, '');
+
+/** Applies shared overrides on top of the bundled list: same id replaces, retired removes, new ids are added. */
+export const mergeCatalog = (base: CatalogBeer[], overrides: CatalogOverride[]): CatalogBeer[] => {
+  const byId = new Map(base.map(beer => [beer.id, beer]));
+  overrides.forEach(({ retired, ...beer }) => {
+    if (retired) byId.delete(beer.id);
+    else byId.set(beer.id, beer);
+  });
+  return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name, 'ko'));
+};
+
+// Falls back to the bundled list when the shared table can't be read
+export const loadCatalog = async (): Promise<CatalogBeer[]> => {
+  try {
+    return mergeCatalog(BUNDLED_CATALOG, await catalogRepository.listOverrides());
+  } catch (error) {
+    console.error('Error loading beer catalog:', error);
+    return mergeCatalog(BUNDLED_CATALOG, []);
+  }
+};
+
+/** Beers whose name, alias or brewery contains `query`, prefix matches first. */
+export const searchCatalog = (catalog: CatalogBeer[], query: string, limit = SEARCH_LIMIT) => {
+  const needle = normalize(query);
+  if (!needle) return [];
+
+  return catalog
+    .flatMap(beer => {
+      const names = [beer.name, ...beer.aliases].map(normalize);
+      if (names.some(name => name.startsWith(needle))) return [{ beer, rank: 0 }];
+      if (names.some(name => name.includes(needle)) || normalize(beer.brewery ?? '').includes(needle)) {
+        return [{ beer, rank: 1 }];
+      }
+      return [];
+    })
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map(({ beer }) => beer);
+};
+
+export const servingLabel = (serving: CatalogServing) => `${serving.type} ${serving.volume}ml`;
@@ -0,0 +1,88 @@
+import { Beer } from '../types';
+
+// Common labels written both in Korean and in the brand's own spelling
+const NAME_ALIASES: Record<string, string> = {
+  cass: '카스',
+  terra: '테라',
+  hite: '하이트',
+  kloud: '클라우드',
+  kelly: '켈리',
+  filite: '필라이트',
+  max: '맥스',
+  heineken: '하이네켄',
+  asahi: '아사히',
+  kirin: '기린',
+  sapporo: '삿포로',
+  guinness: '기네스',
+  budweiser: '버드와이저',
+  stella: '스텔라',
+  hoegaarden: '호가든',
+  tsingtao: '칭따오',
+  carlsberg: '칼스버그',
+  corona: '코로나',
+  bluemoon: '블루문',
+};
+
+// Serving sizes and containers people tend to append to a beer's name
+const NOISE = /\d+(\.\d+)?\s*(ml|l|cc)?|캔|병|생맥주|생|can|bottle|draft|draught/gi;
+
+/** Name stripped of sizes, container words and spacing, with known aliases folded together. */
+export const normalizeBeerName = (name: string) => {
+  const compact = name.toLowerCase().replace(NOISE, '').replace(/[^\p{L}\p{N}]/gu, '');
+  return NAME_ALIASES[compact] ?? compact;
+};
+
+const levenshtein = (a: string, b: string) => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+/** 0..1 similarity of two beer names after normalization. */
+export const nameSimilarity = (a: string, b: string) => {
+  const left = normalizeBeerName(a);
+  const right = normalizeBeerName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+};
+
+const SIMILAR_NAME = 0.75;
+
+/**
+ * Whether two beers look like the same product: identical names once sizes and aliases are
+ * folded away, or close names that also agree on volume or ABV.
+ */
+export const areLikelyDuplicates = (a: Beer, b: Beer) => {
+  const similarity = nameSimilarity(a.name, b.name);
+  if (similarity === 1) return true;
+  const sameSpec = a.volume === b.volume || Math.abs(a.alcohol_percentage - b.alcohol_percentage) < 0.05;
+  return similarity >= SIMILAR_NAME && sameSpec;
+};
+
+/** Groups of two or more beers that are probably duplicates of each other. */
+export const findDuplicateGroups = (beers: Beer[]): Beer[][] => {
+  const parent = beers.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+  for (let i = 0; i < beers.length; i++) {
+    for (let j = i + 1; j < beers.length; j++) {
+      if (areLikelyDuplicates(beers[i], beers[j])) parent[find(j)] = find(i);
+    }
+  }
+
+  const groups = new Map<number, Beer[]>();
+  beers.forEach((beer, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), beer]);
+  });
+  return [...groups.values()].filter(group => group.length > 1);
+};
@@ -0,0 +1,18 @@
+import { Beer } from '../types';
+
+const ML_PER_US_FL_OZ = 29.5735;
+
+// Rule of thumb for beer: about ABV × 2.5 kcal per US fluid ounce, alcohol and carbohydrates together
+const KCAL_PER_FL_OZ_PER_ABV = 2.5;
+
+type CalorieSource = Pick<Beer, 'volume' | 'alcohol_percentage' | 'calories'>;
+
+/** Estimated kcal in one serving of `volume` ml at `abv` percent. */
+export const estimateCalories = (volume: number, abv: number) =>
+  volume / ML_PER_US_FL_OZ * abv * KCAL_PER_FL_OZ_PER_ABV;
+
+/** Kcal in `quantity` servings: the calories entered on the beer, else the estimate. */
+export const beerCalories = (beer: CalorieSource, quantity = 1) =>
+  (beer.calories ?? estimateCalories(beer.volume, beer.alcohol_percentage)) * quantity;
+
+export const formatKcal = (kcal: number) => `${Math.round(kcal).toLocaleString()} kcal`;
@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Beer, EMPTY_BEER_DETAILS } from '../types';
+import { beerRepository, consumptionRepository } from '../repositories';
+import { Checkin, commitImport, guessMapping, ImportFormatError, parseGeneric, parseUntappd, planImport, toBeerStyle, toBeerType } from './checkinImport';
+import { drinkingDate } from './dates';
+
+vi.mock('../repositories', () => ({
+  beerRepository: { list: vi.fn(), create: vi.fn() },
+  consumptionRepository: { insertMany: vi.fn() },
+}));
+
+const beer = (id: string, patch: Partial<Beer> = {}): Beer => ({
+  ...EMPTY_BEER_DETAILS,
+  id,
+  name: 'Cass Fresh',
+  type: '캔',
+  volume: 355,
+  alcohol_percentage: 4.5,
+  sort_order: 0,
+  user_id: 'user-1',
+  created_at: '',
+  archived_at: null,
+  pinned_at: null,
+  ...patch,
+});
+
+const checkin = (patch: Partial<Checkin> = {}): Checkin => ({
+  date: '2025-07-01',
+  timestamp: '2025-07-01 20:00:00',
+  consumedAt: null,
+  name: 'Cass Fresh',
+  type: '캔',
+  volume: null,
+  abv: 4.5,
+  quantity: 1,
+  brewery: null,
+  style: null,
+  country: null,
+  ibu: null,
+  rating: null,
+  comment: null,
+  ...patch,
+});
+
+describe('toBeerType and toBeerStyle', () => {
+  it('map free-form source values onto the managed lists', () => {
+    expect(toBeerType('Draft')).toBe('생맥주');
+    expect(toBeerType('Bottle')).toBe('병');
+    expect(toBeerType('Crowler')).toBe('캔');
+    expect(toBeerType('Growler')).toBe('기타');
+    expect(toBeerStyle('IPA - New England / Hazy')).toBe('IPA');
+    expect(toBeerStyle('Stout - Imperial / Double')).toBe('스타우트');
+    expect(toBeerStyle('Pale Ale - American')).toBe('페일 에일');
+    expect(toBeerStyle('')).toBeNull();
+  });
+});
+
+describe('parseUntappd', () => {
+  const csv = [
+    'beer_name,brewery_name,beer_type,beer_abv,serving_type,created_at,rating_score,comment',
+    'Hazy Day,Magpie,IPA - New England,6.5,Draft,2025-07-01 17:30:00,3.75,"맛있다, 또 마실 것"',
+    'Cass Fresh,OB,Lager - Pale,4.5,Can,2025-07-01 12:00:00,0,',
+    ',Nameless,,,,2025-07-01 12:00:00,,',
+  ].join('\n');
+
+  it('reads check-ins and dates them by the day start hour', () => {
+    const [hazy, cass] = parseUntappd(csv, 6);
+
+    expect(hazy).toMatchObject({
+      name: 'Hazy Day',
+      type: '생맥주',
+      style: 'IPA',
+      abv: 6.5,
+      rating: 4,
+      comment: '맛있다, 또 마실 것',
+      consumedAt: '2025-07-01T17:30:00.000Z',
+      date: drinkingDate(new Date('2025-07-01T17:30:00Z'), 6),
+    });
+    expect(cass.rating).toBeNull();
+  });
+
+  it('skips rows without a beer name and rejects other exports', () => {
+    expect(parseUntappd(csv, 0)).toHaveLength(2);
+    expect(() => parseUntappd('name,date\nCass,2025-07-01', 0)).toThrow(ImportFormatError);
+  });
+});
+
+describe('parseGeneric', () => {
+  const [header, ...rows] = [
+    ['날짜', '맥주 이름', '수량', '도수'],
+    ['2025-07-02 02:00', 'Cass Fresh', '2', '4.5'],
+    ['2025/07/02', 'Terra', '', '4.6'],
+    ['2025-07-03', 'Kloud', '0', '5'],
+  ];
+
+  it('guesses columns from Korean and English headers', () => {
+    expect(guessMapping(header)).toMatchObject({ date: 0, name: 1, quantity: 2, abv: 3, volume: -1 });
+  });
+
+  it('files a timed row by the day start hour like an Untappd check-in', () => {
+    const mapping = guessMapping(header);
+    const [late, ...rest] = parseGeneric(rows, mapping, 6);
+
+    expect(late).toMatchObject({ date: '2025-07-01', quantity: 2, abv: 4.5 });
+    expect(late.consumedAt).toBe(new Date('2025-07-02T02:00').toISOString());
+    // Rows whose quantity is blank or zero are not glasses
+    expect(rest).toEqual([]);
+    // A bare date has no hour to move
+    expect(parseGeneric(rows, { ...mapping, quantity: -1 }, 6).map(row => row.date)).toEqual(['2025-07-01', '2025-07-02', '2025-07-03']);
+  });
+
+  it('needs the date and name columns', () => {
+    expect(() => parseGeneric(rows, { ...guessMapping(header), name: -1 }, 0)).toThrow('날짜와 맥주 이름');
+  });
+});
+
+describe('planImport', () => {
+  it('matches existing beers and sums check-ins into one entry per day', () => {
+    const plan = planImport(
+      [checkin(), checkin({ timestamp: '2025-07-01 21:00:00', name: 'cass  fresh' }), checkin({ date: '2025-07-02', timestamp: '2025-07-02 19:00:00' })],
+      [beer('cass')],
+      []
+    );
+
+    expect(plan.beers).toMatchObject([{ id: 'cass', existing: true, checkins: 3 }]);
+    expect(plan.entries.map(entry => [entry.date, entry.quantity])).toEqual([['2025-07-01', 2], ['2025-07-02', 1]]);
+  });
+
+  it('counts a check-in exported twice once and flags days already recorded', () => {
+    const existing = [{ ...beer('cass'), date: '2025-07-01', beer_id: 'cass', quantity: 1, consumed_at: [], note: null, rating: null, price: null, version: 1, updated_at: '' }];
+
+    const plan = planImport([checkin(), checkin()], [beer('cass')], existing);
+
+    expect(plan.repeatedCheckins).toBe(1);
+    expect(plan.entries).toMatchObject([{ quantity: 1, duplicate: true }]);
+  });
+
+  it('flags new beers without an ABV instead of guessing one', () => {
+    const plan = planImport([checkin({ name: 'Mystery Ale', type: '병', abv: null })], [], []);
+
+    expect(plan.beers).toMatchObject([{ existing: false, needsAbv: true, input: { name: 'Mystery Ale', volume: 330 } }]);
+  });
+});
+
+describe('commitImport', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(consumptionRepository.insertMany).mockResolvedValue(1);
+  });
+
+  it('appends new beers after the highest sort order, archived beers included', async () => {
+    vi.mocked(beerRepository.list).mockResolvedValue([
+      beer('a', { sort_order: 0 }),
+      beer('b', { sort_order: 4, archived_at: '2025-01-01T00:00:00.000Z' }),
+    ]);
+    const plan = planImport([checkin({ name: 'Terra' }), checkin({ name: 'Kloud' })], [], []);
+
+    await commitImport('user-1', plan, {});
+
+    expect(vi.mocked(beerRepository.create).mock.calls.map(call => call[2])).toEqual([5, 6]);
+  });
+
+  it('refuses to import a beer whose ABV was never entered and uses the one that was', async () => {
+    vi.mocked(beerRepository.list).mockResolvedValue([]);
+    const plan = planImport([checkin({ name: 'Mystery Ale', abv: null })], [], []);
+    const [mystery] = plan.beers;
+
+    await expect(commitImport('user-1', plan, {})).rejects.toThrow(ImportFormatError);
+    expect(beerRepository.create).not.toHaveBeenCalled();
+
+    await commitImport('user-1', plan, { [mystery.id]: 5.2 });
+    expect(vi.mocked(beerRepository.create).mock.calls[0][1]).toMatchObject({ alcohol_percentage: 5.2 });
+  });
+});
@@ -0,0 +1,357 @@
+import { isValid, parse } from 'date-fns';
+import { Beer, BEER_STYLES, BEER_TYPES, BeerInput, BeerStyle, BeerType, ConsumptionRecord, DatedEntry } from '../types';
+import { beerRepository, consumptionRepository } from '../repositories';
+import { parseCsv } from './csv';
+import { drinkingDate, toDateString } from './dates';
+import { nextSortOrder } from './suggestions';
+
+export type ImportSource = 'untappd' | 'generic';
+
+export interface Checkin {
+  /** Local calendar day, yyyy-MM-dd */
+  date: string;
+  /** Raw time value from the source, used to spot the same check-in exported twice */
+  timestamp: string;
+  /** ISO time of the check-in when the source records one */
+  consumedAt: string | null;
+  name: string;
+  type: BeerType;
+  volume: number | null;
+  abv: number | null;
+  quantity: number;
+  brewery: string | null;
+  style: BeerStyle | null;
+  country: string | null;
+  ibu: number | null;
+  /** 1-5 stars; Untappd's quarter-star scores are rounded */
+  rating: number | null;
+  comment: string | null;
+}
+
+export const GENERIC_FIELDS = ['date', 'name', 'quantity', 'type', 'volume', 'abv', 'brewery', 'style'] as const;
+
+export type GenericField = typeof GENERIC_FIELDS[number];
+
+/** Column index per field; -1 means the column is not present in the file */
+export type ColumnMapping = Record<GenericField, number>;
+
+export const GENERIC_FIELD_LABELS: Record<GenericField, string> = {
+  date: '날짜',
+  name: '맥주 이름',
+  quantity: '수량 (잔)',
+  type: '종류',
+  volume: '용량 (ml)',
+  abv: '알코올 도수 (%)',
+  brewery: '제조사',
+  style: '스타일',
+};
+
+const HEADER_HINTS: Record<GenericField, RegExp> = {
+  date: /date|날짜|일자|created/i,
+  name: /name|beer|맥주|이름/i,
+  quantity: /quantity|qty|count|수량|잔/i,
+  type: /type|serving|종류|용기/i,
+  volume: /volume|ml|용량/i,
+  abv: /abv|alcohol|도수/i,
+  brewery: /brewery|maker|제조|양조/i,
+  style: /style|스타일/i,
+};
+
+// Used when the source does not say how big the serving was
+const DEFAULT_VOLUME: Record<BeerType, number> = {
+  '캔': 355,
+  '병': 330,
+  '생맥주': 500,
+  '기타': 330,
+};
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'yyyy/MM/dd', 'yyyy.MM.dd', 'yyyy. M. d', 'M/d/yyyy', 'yyyyMMdd'];
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+/** Maps a source's serving style ("Draft", "Bottle", "생", ...) onto the app's beer types. */
+export const toBeerType = (serving: string | null | undefined): BeerType => {
+  const value = (serving ?? '').trim().toLowerCase();
+  if (BEER_TYPES.includes(value as BeerType)) return value as BeerType;
+  if (/draft|draught|cask|nitro|taster|tap|생/.test(value)) return '생맥주';
+  if (/bottle|병/.test(value)) return '병';
+  if (/can|crowler|캔/.test(value)) return '캔';
+  return '기타';
+};
+
+/** Maps a free-form style ("IPA - American", "Stout - Imperial", "라거") onto the managed style list. */
+export const toBeerStyle = (value: string | null | undefined): BeerStyle | null => {
+  const style = (value ?? '').trim().toLowerCase();
+  if (!style) return null;
+  if (BEER_STYLES.includes(style as BeerStyle)) return style as BeerStyle;
+  if (/pilsner|pilsener|필스너/.test(style)) return '필스너';
+  if (/ipa|india pale/.test(style)) return 'IPA';
+  if (/pale ale|페일/.test(style)) return '페일 에일';
+  if (/stout|스타우트/.test(style)) return '스타우트';
+  if (/porter|포터/.test(style)) return '포터';
+  if (/wheat|weiss|weizen|witbier|hefe|밀/.test(style)) return '밀맥주';
+  if (/sour|gose|lambic|wild|사워/.test(style)) return '사워';
+  if (/belgian|tripel|dubbel|quad|saison|벨지안/.test(style)) return '벨지안 에일';
+  if (/lager|helles|märzen|bock|dunkel|라거/.test(style)) return '라거';
+  return '기타';
+};
+
+const toNumber = (value: string | number | null | undefined) => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^\d.-]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toLocalDate = (value: string) => {
+  const trimmed = value.trim();
+  const datePart = trimmed.split(/[ T]/)[0];
+  for (const pattern of DATE_FORMATS) {
+    const parsed = parse(datePart, pattern, new Date());
+    if (isValid(parsed)) return toDateString(parsed);
+  }
+  return null;
+};
+
+// Untappd writes check-in times as "yyyy-MM-dd HH:mm:ss" in UTC
+const fromUntappdTimestamp = (value: string) => {
+  const parsed = new Date(value.trim().replace(' ', 'T') + 'Z');
+  return isValid(parsed) ? parsed : null;
+};
+
+// Only values that carry a time of day become a timestamp; bare dates stay untimed
+const toConsumedAt = (value: string) => {
+  if (!/\d{1,2}:\d{2}/.test(value)) return null;
+  const parsed = new Date(value.trim().replace(' ', 'T'));
+  return isValid(parsed) ? parsed.toISOString() : null;
+};
+
+// Untappd exports 0 for check-ins without a score
+const toRating = (value: string) => {
+  const score = toNumber(value);
+  return score ? Math.min(5, Math.max(1, Math.round(score))) : null;
+};
+
+const fromUntappdRow = (row: Record<string, unknown>, dayStartHour: number): Checkin | null => {
+  const name = String(row.beer_name ?? '').trim();
+  const timestamp = String(row.created_at ?? '');
+  const checkedInAt = fromUntappdTimestamp(timestamp);
+  if (!name || !checkedInAt) return null;
+
+  return {
+    date: drinkingDate(checkedInAt, dayStartHour),
+    timestamp,
+    consumedAt: checkedInAt.toISOString(),
+    name,
+    type: toBeerType(row.serving_type as string),
+    volume: null,
+    abv: toNumber(row.beer_abv as string),
+    quantity: 1,
+    brewery: String(row.brewery_name ?? '').trim() || null,
+    style: toBeerStyle(row.beer_type as string),
+    country: String(row.brewery_country ?? '').trim() || null,
+    ibu: toNumber(row.beer_ibu as string) || null,
+    rating: toRating(String(row.rating_score ?? '')),
+    comment: String(row.comment ?? '').trim() || null,
+  };
+};
+
+/** Check-ins before `dayStartHour` are dated to the previous night, as glasses logged in the app are. */
+export const parseUntappd = (text: string, dayStartHour: number): Checkin[] => {
+  const trimmed = text.trim().replace(/^\uFEFF/, '');
+  let rows: Record<string, unknown>[];
+
+  if (trimmed.startsWith('[')) {
+    try {
+      rows = JSON.parse(trimmed);
+    } catch {
+      throw new ImportFormatError('Untappd JSON 파일을 읽을 수 없습니다.');
+    }
+  } else {
+    const [header, ...body] = parseCsv(trimmed);
+    if (!header?.includes('beer_name') || !header.includes('created_at')) {
+      throw new ImportFormatError('Untappd 내보내기 파일이 아닙니다 (beer_name, created_at 열이 필요합니다).');
+    }
+    rows = body.map(cells => Object.fromEntries(header.map((column, i) => [column, cells[i] ?? ''])));
+  }
+
+  return rows.flatMap(row => {
+    const checkin = fromUntappdRow(row, dayStartHour);
+    return checkin ? [checkin] : [];
+  });
+};
+
+export const guessMapping = (header: string[]): ColumnMapping => {
+  const used = new Set<number>();
+  return GENERIC_FIELDS.reduce((mapping, field) => {
+    const index = header.findIndex((column, i) => !used.has(i) && HEADER_HINTS[field].test(column));
+    if (index !== -1) used.add(index);
+    mapping[field] = index;
+    return mapping;
+  }, {} as ColumnMapping);
+};
+
+/** Rows that carry a time of day are dated by `dayStartHour` like Untappd check-ins; bare dates are kept as they are. */
+export const parseGeneric = (rows: string[][], mapping: ColumnMapping, dayStartHour: number): Checkin[] => {
+  if (mapping.date === -1 || mapping.name === -1) {
+    throw new ImportFormatError('날짜와 맥주 이름 열을 지정해주세요.');
+  }
+
+  const cell = (row: string[], field: GenericField) => mapping[field] === -1 ? '' : (row[mapping[field]] ?? '').trim();
+
+  return rows.flatMap(row => {
+    const name = cell(row, 'name');
+    const consumedAt = toConsumedAt(cell(row, 'date'));
+    const date = consumedAt ? drinkingDate(new Date(consumedAt), dayStartHour) : toLocalDate(cell(row, 'date'));
+    const quantity = mapping.quantity === -1 ? 1 : toNumber(cell(row, 'quantity'));
+    if (!name || !date || !quantity || quantity <= 0) return [];
+
+    return [{
+      date,
+      timestamp: cell(row, 'date'),
+      consumedAt,
+      name,
+      type: toBeerType(cell(row, 'type')),
+      volume: toNumber(cell(row, 'volume')),
+      abv: toNumber(cell(row, 'abv')),
+      quantity,
+      brewery: cell(row, 'brewery') || null,
+      style: toBeerStyle(cell(row, 'style')),
+      country: null,
+      ibu: null,
+      rating: null,
+      comment: null,
+    }];
+  });
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Same name and serving type; ABV only has to agree when both sides know it
+const matchesBeer = (beer: BeerInput, checkin: Checkin) =>
+  normalizeName(beer.name) === normalizeName(checkin.name) &&
+  beer.type === checkin.type &&
+  (checkin.abv === null || Math.abs(beer.alcohol_percentage - checkin.abv) < 0.05) &&
+  (checkin.volume === null || beer.volume === checkin.volume);
+
+export interface PlannedBeer {
+  id: string;
+  input: BeerInput;
+  existing: boolean;
+  /** A new beer whose source gave no ABV; the user has to enter one before committing */
+  needsAbv: boolean;
+  checkins: number;
+}
+
+export interface PlannedEntry extends DatedEntry {
+  beerName: string;
+  /** The day already has a record for this beer, so the entry will be skipped */
+  duplicate: boolean;
+}
+
+export interface ImportPlan {
+  beers: PlannedBeer[];
+  entries: PlannedEntry[];
+  /** Check-ins that appeared more than once in the file and were counted once */
+  repeatedCheckins: number;
+}
+
+/**
+ * Dry run of an import: resolves every check-in to an existing or new beer and sums
+ * them into one entry per day and beer, flagging days that are already recorded and new
+ * beers that still need an ABV.
+ */
+export const planImport = (checkins: Checkin[], existingBeers: Beer[], existingRecords: ConsumptionRecord[]): ImportPlan => {
+  const beers: PlannedBeer[] = existingBeers.map(beer => ({
+    id: beer.id,
+    input: beer,
+    existing: true,
+    needsAbv: false,
+    checkins: 0,
+  }));
+  const entries = new Map<string, PlannedEntry>();
+  const seen = new Set<string>();
+  let repeatedCheckins = 0;
+
+  checkins.forEach(checkin => {
+    const identity = [checkin.timestamp, normalizeName(checkin.name), checkin.type, checkin.quantity].join('|');
+    if (seen.has(identity)) {
+      repeatedCheckins++;
+      return;
+    }
+    seen.add(identity);
+
+    let beer = beers.find(candidate => matchesBeer(candidate.input, checkin));
+    if (!beer) {
+      beer = {
+        id: crypto.randomUUID(),
+        input: {
+          name: checkin.name,
+          type: checkin.type,
+          volume: checkin.volume ?? DEFAULT_VOLUME[checkin.type],
+          alcohol_percentage: checkin.abv ?? 0,
+          brewery: checkin.brewery,
+          style: checkin.style,
+          country: checkin.country,
+          ibu: checkin.ibu,
+        },
+        existing: false,
+        needsAbv: checkin.abv === null,
+        checkins: 0,
+      };
+      beers.push(beer);
+    }
+    beer.checkins++;
+
+    const key = `${checkin.date}|${beer.id}`;
+    const entry = entries.get(key) ?? {
+      date: checkin.date,
+      beer_id: beer.id,
+      beerName: beer.input.name,
+      quantity: 0,
+      consumed_at: [],
+      duplicate: existingRecords.some(record => record.date === checkin.date && record.beer_id === beer!.id),
+    };
+    entry.quantity += checkin.quantity;
+    if (checkin.consumedAt) entry.consumed_at = [...entry.consumed_at ?? [], checkin.consumedAt].sort();
+    // Several check-ins of one beer on one day keep the first comment and score
+    entry.note = entry.note ?? checkin.comment;
+    entry.rating = entry.rating ?? checkin.rating;
+    entries.set(key, entry);
+  });
+
+  return {
+    beers: beers.filter(beer => beer.checkins > 0),
+    entries: [...entries.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    repeatedCheckins,
+  };
+};
+
+/** Writes the plan; `abvs` holds the ABV the user entered for each beer that needs one. */
+export const commitImport = async (userId: string, plan: ImportPlan, abvs: Record<string, number>) => {
+  const newBeers = plan.beers.filter(beer => !beer.existing);
+  const missingAbv = newBeers.filter(beer => beer.needsAbv && abvs[beer.id] === undefined);
+  if (missingAbv.length > 0) {
+    throw new ImportFormatError(`알코올 도수가 없는 맥주 ${missingAbv.length}개의 도수를 입력해주세요.`);
+  }
+  // list() rather than count(): archived beers still hold their sort_order
+  const sortOrderStart = nextSortOrder(await beerRepository.list(userId));
+
+  for (const [index, beer] of newBeers.entries()) {
+    const input = beer.needsAbv ? { ...beer.input, alcohol_percentage: abvs[beer.id] } : beer.input;
+    await beerRepository.create(userId, input, sortOrderStart + index, beer.id);
+  }
+
+  const inserted = await consumptionRepository.insertMany(
+    userId,
+    plan.entries
+      .filter(entry => !entry.duplicate)
+      .map(({ date, beer_id, quantity, consumed_at, note, rating }) => ({ date, beer_id, quantity, consumed_at, note, rating }))
+  );
+
+  return { beersCreated: newBeers.length, recordsInserted: inserted };
+};
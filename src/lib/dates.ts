@@ -0,0 +1,31 @@
+import { format, isValid, parse, startOfDay, subDays } from 'date-fns';
+
+// Records are keyed by the local calendar date they were drunk on
+export const DATE_FORMAT = 'yyyy-MM-dd';
+
+// Latest "day starts at" hour offered; later than noon would swallow most of the day
+export const MAX_DAY_START_HOUR = 12;
+
+export const toDateString = (date: Date) => format(date, DATE_FORMAT);
+
+/**
+ * Local midnight of a yyyy-MM-dd string, or null when it isn't one. `new Date(value)` reads such
+ * strings as UTC midnight, which is still the previous day anywhere west of UTC.
+ */
+export const parseDateString = (value: string) => {
+  const date = parse(value, DATE_FORMAT, new Date());
+  return isValid(date) ? date : null;
+};
+
+/** Start of the drinking day `at` falls in: before `dayStartHour` it still counts as the previous night. */
+export const drinkingDay = (at: Date, dayStartHour: number) =>
+  startOfDay(at.getHours() < dayStartHour ? subDays(at, 1) : at);
+
+/** The date a glass taken at `at` is logged under. */
+export const drinkingDate = (at: Date, dayStartHour: number) => toDateString(drinkingDay(at, dayStartHour));
+
+export const formatDayStart = (hour: number) => {
+  if (hour === 0) return '자정';
+  if (hour === 12) return '정오';
+  return hour < 6 ? `새벽 ${hour}시` : `오전 ${hour}시`;
+};
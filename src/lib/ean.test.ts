@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { decodeEan13, isValidBarcode, normalizeBarcode } from './ean';
+
+// The same tables the decoder matches against, written out as module patterns (1 = bar)
+const L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const G_CODES = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const R_CODES = L_CODES.map(code => [...code].map(bit => (bit === '1' ? '0' : '1')).join(''));
+const PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+const QUIET_MODULES = 10;
+
+const modules = (code: string) => {
+  const digits = [...code].map(Number);
+  const left = digits.slice(1, 7).map((digit, i) => (PARITY[digits[0]][i] === 'L' ? L_CODES : G_CODES)[digit]);
+  const right = digits.slice(7).map(digit => R_CODES[digit]);
+  return ['101', ...left, '01010', ...right, '101'].join('');
+};
+
+/** Draws the barcode as black bars on white RGBA pixels, `scale` pixels per module. */
+const render = (code: string, { scale = 3, height = 30, flipped = false } = {}) => {
+  const quiet = '0'.repeat(QUIET_MODULES);
+  const bits = [...`${quiet}${modules(code)}${quiet}`];
+  const row = (flipped ? bits.reverse() : bits).flatMap(bit => Array(scale).fill(bit === '1' ? 0 : 255));
+  const data = new Uint8ClampedArray(row.length * height * 4);
+  for (let y = 0; y < height; y++) {
+    row.forEach((value, x) => {
+      const offset = (y * row.length + x) * 4;
+      data.set([value, value, value, 255], offset);
+    });
+  }
+  return { data, width: row.length, height };
+};
+
+describe('normalizeBarcode', () => {
+  it('strips separators and widens UPC-A to EAN-13', () => {
+    expect(normalizeBarcode('400 6381-333931')).toBe('4006381333931');
+    expect(normalizeBarcode('0 36000 29145 2')).toBe('0036000291452');
+    expect(normalizeBarcode('9638-5074')).toBe('96385074');
+  });
+});
+
+describe('isValidBarcode', () => {
+  it('accepts EAN-8 and EAN-13 with a correct check digit only', () => {
+    expect(isValidBarcode('4006381333931')).toBe(true);
+    expect(isValidBarcode('96385074')).toBe(true);
+    expect(isValidBarcode('4006381333932')).toBe(false);
+    expect(isValidBarcode('036000291452')).toBe(false);
+    expect(isValidBarcode('400638133393a')).toBe(false);
+  });
+});
+
+describe('decodeEan13', () => {
+  it('reads barcodes drawn at different module widths', () => {
+    expect(decodeEan13(render('4006381333931'))).toBe('4006381333931');
+    expect(decodeEan13(render('8801021213224', { scale: 2 }))).toBe('8801021213224');
+    expect(decodeEan13(render('0036000291452', { scale: 5 }))).toBe('0036000291452');
+  });
+
+  it('reads a barcode photographed upside down', () => {
+    expect(decodeEan13(render('8801021213224', { flipped: true }))).toBe('8801021213224');
+  });
+
+  it('gives up on a wrong check digit or an image without a barcode', () => {
+    expect(decodeEan13(render('4006381333932'))).toBeNull();
+    expect(decodeEan13({ data: new Uint8ClampedArray(40 * 10 * 4).fill(255), width: 40, height: 10 })).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+// Bar/space widths, in modules, of each digit's L code; R codes share the widths with colours swapped
+// and G codes are the L widths reversed
+const DIGIT_WIDTHS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+
+// L/G parity of the six left-hand digits encodes the first digit of an EAN-13
+const FIRST_DIGIT_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// Start guard, 6 digits, middle guard, 6 digits, end guard
+const EAN13_RUNS = 3 + 6 * 4 + 5 + 6 * 4 + 3;
+
+// Summed deviation from the ideal widths above which a digit is rejected
+const MAX_DIGIT_ERROR = 1.6;
+
+// Horizontal lines sampled across the middle of the image
+const SCAN_LINES = 15;
+
+interface Run {
+  dark: boolean;
+  width: number;
+}
+
+interface Grayscale {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+const checksumDigit = (digits: string) => {
+  // Weights alternate 3, 1 from the rightmost data digit
+  const sum = [...digits].reverse().reduce((acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - sum % 10) % 10;
+};
+
+/** Strips separators and widens a 12-digit UPC-A to its EAN-13 form. */
+export const normalizeBarcode = (value: string) => {
+  const digits = value.replace(/\D/g, '');
+  return digits.length === 12 ? `0${digits}` : digits;
+};
+
+/** EAN-8 or EAN-13 (UPC-A included once normalized) with a correct check digit. */
+export const isValidBarcode = (value: string) =>
+  (value.length === 8 || value.length === 13) && /^\d+$/.test(value) &&
+  checksumDigit(value.slice(0, -1)) === Number(value[value.length - 1]);
+
+const matchDigit = (widths: number[], reversed: boolean) => {
+  const total = widths.reduce((sum, width) => sum + width, 0);
+  const scaled = widths.map(width => width * 7 / total);
+  let best = { digit: -1, error: Infinity };
+  DIGIT_WIDTHS.forEach((pattern, digit) => {
+    const expected = reversed ? [...pattern].reverse() : pattern;
+    const error = expected.reduce((sum, width, index) => sum + Math.abs(width - scaled[index]), 0);
+    if (error < best.error) best = { digit, error };
+  });
+  return best;
+};
+
+const decodeRuns = (runs: Run[]): string | null => {
+  for (let start = 0; start + EAN13_RUNS <= runs.length; start++) {
+    if (!runs[start].dark) continue;
+    const widths = runs.slice(start, start + EAN13_RUNS).map(run => run.width);
+    const module = (widths[0] + widths[1] + widths[2]) / 3;
+    const isGuard = (from: number, count: number) =>
+      widths.slice(from, from + count).every(width => width > module * 0.5 && width < module * 1.5);
+    if (!isGuard(0, 3) || !isGuard(27, 5) || !isGuard(56, 3)) continue;
+
+    let parity = '';
+    let digits = '';
+    let valid = true;
+    for (let i = 0; i < 6 && valid; i++) {
+      const group = widths.slice(3 + i * 4, 7 + i * 4);
+      const odd = matchDigit(group, false);
+      const even = matchDigit(group, true);
+      const best = odd.error <= even.error ? odd : even;
+      valid = best.error <= MAX_DIGIT_ERROR;
+      parity += odd.error <= even.error ? 'L' : 'G';
+      digits += best.digit;
+    }
+    for (let i = 0; i < 6 && valid; i++) {
+      const best = matchDigit(widths.slice(32 + i * 4, 36 + i * 4), false);
+      valid = best.error <= MAX_DIGIT_ERROR;
+      digits += best.digit;
+    }
+
+    const first = FIRST_DIGIT_PARITY.indexOf(parity);
+    if (!valid || first === -1) continue;
+    const code = `${first}${digits}`;
+    if (isValidBarcode(code)) return code;
+  }
+  return null;
+};
+
+const rowRuns = (image: Grayscale, y: number): Run[] => {
+  const luminance: number[] = [];
+  for (let x = 0; x < image.width; x++) {
+    const offset = (y * image.width + x) * 4;
+    luminance.push(0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2]);
+  }
+  const threshold = (Math.min(...luminance) + Math.max(...luminance)) / 2;
+
+  const runs: Run[] = [];
+  luminance.forEach(value => {
+    const dark = value < threshold;
+    const last = runs[runs.length - 1];
+    if (last && last.dark === dark) last.width++;
+    else runs.push({ dark, width: 1 });
+  });
+  return runs;
+};
+
+/**
+ * Reads an EAN-13 / UPC-A barcode from RGBA pixels by sampling horizontal lines, in either
+ * direction so upside-down photos work too. Resolves null when no line decodes with a valid checksum.
+ */
+export const decodeEan13 = (image: Grayscale): string | null => {
+  for (let line = 0; line < SCAN_LINES; line++) {
+    // Start in the middle and fan out, where a centred barcode is most likely
+    const offset = Math.ceil(line / 2) * (line % 2 === 0 ? 1 : -1);
+    const y = Math.round(image.height / 2 + offset * image.height / (SCAN_LINES * 2));
+    if (y < 0 || y >= image.height) continue;
+
+    const runs = rowRuns(image, y);
+    const code = decodeRuns(runs) ?? decodeRuns([...runs].reverse());
+    if (code) return code;
+  }
+  return null;
+};
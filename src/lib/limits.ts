@@ -0,0 +1,113 @@
+import { endOfMonth, endOfWeek, startOfMonth, startOfWeek } from 'date-fns';
+import { Beer, DailyTotal, DrinkStandard, LimitUnit, UserSettings } from '../types';
+import { DateRange } from '../repositories/types';
+import { beerAlcoholGrams, DRINK_STANDARD_INFO, formatGrams, standardDrinks } from './alcoholUnits';
+import { toDateString } from './dates';
+
+export type LimitPeriod = 'day' | 'week' | 'month';
+
+export const LIMIT_PERIODS: LimitPeriod[] = ['day', 'week', 'month'];
+
+export const LIMIT_PERIOD_LABELS: Record<LimitPeriod, string> = {
+  day: '오늘',
+  week: '이번 주',
+  month: '이번 달',
+};
+
+export const LIMIT_NAMES: Record<LimitPeriod, string> = {
+  day: '하루 최대',
+  week: '주간 한도',
+  month: '월간 한도',
+};
+
+export const LIMIT_UNIT_LABELS: Record<LimitUnit, string> = {
+  glasses: '잔',
+  drinks: '표준잔',
+  grams: '알코올 g',
+};
+
+// Matches the Sunday-first calendar on the stats page
+const WEEK_OPTIONS = { weekStartsOn: 0 } as const;
+
+const LIMIT_KEYS: Record<LimitPeriod, 'daily_limit' | 'weekly_limit' | 'monthly_limit'> = {
+  day: 'daily_limit',
+  week: 'weekly_limit',
+  month: 'monthly_limit',
+};
+
+interface MeasuredRecord {
+  date: string;
+  quantity: number;
+  beer: Pick<Beer, 'volume' | 'alcohol_percentage'>;
+}
+
+export interface LimitStatus {
+  period: LimitPeriod;
+  amount: number;
+  limit: number;
+  exceeded: boolean;
+}
+
+export const periodRange = (period: LimitPeriod, date: Date): DateRange => {
+  switch (period) {
+    case 'day':
+      return { start: toDateString(date), end: toDateString(date) };
+    case 'week':
+      return { start: toDateString(startOfWeek(date, WEEK_OPTIONS)), end: toDateString(endOfWeek(date, WEEK_OPTIONS)) };
+    case 'month':
+      return { start: toDateString(startOfMonth(date)), end: toDateString(endOfMonth(date)) };
+  }
+};
+
+/** The smallest range covering the day, week and month of `date`; weeks can cross month boundaries. */
+export const limitWindow = (date: Date): DateRange => {
+  const week = periodRange('week', date);
+  const month = periodRange('month', date);
+  return {
+    start: week.start < month.start ? week.start : month.start,
+    end: week.end > month.end ? week.end : month.end,
+  };
+};
+
+/** Amount of `records` expressed in `unit`. */
+export const measure = (records: MeasuredRecord[], unit: LimitUnit, standard: DrinkStandard) => {
+  if (unit === 'glasses') return records.reduce((sum, record) => sum + record.quantity, 0);
+  const grams = records.reduce((sum, record) => sum + beerAlcoholGrams(record.beer, record.quantity), 0);
+  return unit === 'grams' ? grams : standardDrinks(grams, standard);
+};
+
+/** Amount of each day's totals in `unit`, keyed by date. */
+export const measureByDate = (days: Pick<DailyTotal, 'date' | 'glasses' | 'alcohol'>[], unit: LimitUnit, standard: DrinkStandard) =>
+  Object.fromEntries(days.map(day => [
+    day.date,
+    unit === 'glasses' ? day.glasses : unit === 'grams' ? day.alcohol : standardDrinks(day.alcohol, standard),
+  ]));
+
+/** Progress against every configured limit for the periods containing `date`. */
+export const limitStatuses = (settings: UserSettings, records: MeasuredRecord[], date: Date): LimitStatus[] =>
+  LIMIT_PERIODS.flatMap(period => {
+    const limit = settings[LIMIT_KEYS[period]];
+    if (limit === null) return [];
+
+    const range = periodRange(period, date);
+    const amount = measure(
+      records.filter(record => record.date >= range.start && record.date <= range.end),
+      settings.limit_unit,
+      settings.drink_standard
+    );
+    return [{ period, amount, limit, exceeded: amount > limit }];
+  });
+
+export const hasLimits = (settings: UserSettings) =>
+  LIMIT_PERIODS.some(period => settings[LIMIT_KEYS[period]] !== null);
+
+export const formatLimitAmount = (amount: number, settings: UserSettings) => {
+  switch (settings.limit_unit) {
+    case 'glasses':
+      return `${Math.round(amount * 10) / 10}잔`;
+    case 'drinks':
+      return `${amount.toFixed(1)} ${DRINK_STANDARD_INFO[settings.drink_standard].unitName}`;
+    case 'grams':
+      return formatGrams(amount);
+  }
+};
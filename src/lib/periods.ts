@@ -0,0 +1,56 @@
+import {
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  endOfMonth,
+  format,
+  isSameDay,
+  startOfDay,
+  startOfMonth,
+  subDays,
+  subMonths,
+  subYears
+} from 'date-fns';
+
+export interface PeriodBounds {
+  start: Date;
+  end: Date;
+}
+
+/** Lengths, in days, offered as one-tap ranges on the stats page. */
+export const RANGE_PRESETS = [7, 30, 90];
+
+/** The last `days` days, today included. */
+export const lastDays = (days: number, today = new Date()): PeriodBounds => ({
+  start: startOfDay(subDays(today, days - 1)),
+  end: startOfDay(today)
+});
+
+export const rangeDays = (range: PeriodBounds) => differenceInCalendarDays(range.end, range.start) + 1;
+
+export const isSameRange = (a: PeriodBounds, b: PeriodBounds) => isSameDay(a.start, b.start) && isSameDay(a.end, b.end);
+
+// Calendar months shift by whole months so February compares with January rather than its last 28 days
+const isWholeMonths = (range: PeriodBounds) =>
+  isSameDay(range.start, startOfMonth(range.start)) && isSameDay(range.end, endOfMonth(range.end));
+
+/** The equally long period that ends the day before `range` starts. */
+export const previousPeriod = (range: PeriodBounds): PeriodBounds => {
+  if (isWholeMonths(range)) {
+    const months = differenceInCalendarMonths(range.end, range.start) + 1;
+    return { start: subMonths(range.start, months), end: endOfMonth(subMonths(range.end, months)) };
+  }
+  const days = rangeDays(range);
+  return { start: subDays(range.start, days), end: subDays(range.end, days) };
+};
+
+export const sameLastYear = (range: PeriodBounds): PeriodBounds => ({
+  start: subYears(range.start, 1),
+  end: isWholeMonths(range) ? endOfMonth(subYears(range.end, 1)) : subYears(range.end, 1)
+});
+
+/** Signed change from `previous` in percent; null when there is nothing to compare against. */
+export const percentChange = (current: number, previous: number) =>
+  previous === 0 ? null : (current - previous) / previous * 100;
+
+export const formatRange = (range: PeriodBounds) =>
+  `${format(range.start, 'yyyy.M.d')} ~ ${format(range.end, 'yyyy.M.d')}`;
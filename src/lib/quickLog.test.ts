@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Beer, ConsumptionRecord, EMPTY_BEER_DETAILS } from '../types';
+import { dryDayRepository } from '../repositories';
+import { addGlasses, clearDryMark, quickLogBeers, removeGlasses, withoutTime } from './quickLog';
+
+vi.mock('../repositories', () => ({
+  dryDayRepository: { list: vi.fn(), set: vi.fn() },
+}));
+
+const DATE = '2025-07-01';
+
+const beer = (id: string, patch: Partial<Beer> = {}): Beer => ({
+  ...EMPTY_BEER_DETAILS,
+  id,
+  name: id,
+  type: '캔',
+  volume: 500,
+  alcohol_percentage: 4.5,
+  sort_order: 0,
+  user_id: 'user-1',
+  created_at: '',
+  archived_at: null,
+  pinned_at: null,
+  ...patch,
+});
+
+const record = (beerId: string, quantity: number, consumedAt: string[]): ConsumptionRecord => ({
+  id: `record-${beerId}`,
+  date: DATE,
+  beer_id: beerId,
+  quantity,
+  consumed_at: consumedAt,
+  note: '메모',
+  rating: 4,
+  price: null,
+  user_id: 'user-1',
+  created_at: '',
+  updated_at: '',
+  version: 1,
+});
+
+describe('addGlasses', () => {
+  it('adds a beer that was not on the day yet with the time of its glass', () => {
+    const entries = addGlasses([record('lager', 1, ['2025-07-01T10:00:00.000Z'])], 'stout', 1, '2025-07-01T11:00:00.000Z');
+
+    expect(entries).toEqual([
+      { beer_id: 'lager', quantity: 1, consumed_at: ['2025-07-01T10:00:00.000Z'], note: '메모', rating: 4, price: null },
+      { beer_id: 'stout', quantity: 1, consumed_at: ['2025-07-01T11:00:00.000Z'] },
+    ]);
+  });
+
+  it('records a time only when the new quantity starts another glass', () => {
+    const halfDone = addGlasses([record('lager', 0.5, ['2025-07-01T10:00:00.000Z'])], 'lager', 0.5, '2025-07-01T10:30:00.000Z');
+    const nextStarted = addGlasses([record('lager', 1, ['2025-07-01T10:00:00.000Z'])], 'lager', 0.5, '2025-07-01T09:00:00.000Z');
+
+    expect(halfDone[0]).toMatchObject({ quantity: 1, consumed_at: ['2025-07-01T10:00:00.000Z'] });
+    expect(nextStarted[0]).toMatchObject({ quantity: 1.5, consumed_at: ['2025-07-01T09:00:00.000Z', '2025-07-01T10:00:00.000Z'] });
+  });
+});
+
+describe('removeGlasses', () => {
+  it('takes the glasses and their time back off without touching other beers', () => {
+    const records = [record('lager', 2, ['2025-07-01T10:00:00+00:00', '2025-07-01T11:00:00+00:00']), record('stout', 1, [])];
+
+    const entries = removeGlasses(records, 'lager', 1, '2025-07-01T19:00:00.000+09:00');
+
+    expect(entries[0]).toMatchObject({ quantity: 1, consumed_at: ['2025-07-01T11:00:00+00:00'], note: '메모' });
+    expect(entries[1]).toMatchObject({ beer_id: 'stout', quantity: 1 });
+  });
+
+  it('never drops below zero', () => {
+    expect(removeGlasses([record('lager', 0.5, [])], 'lager', 1, '2025-07-01T10:00:00.000Z')[0].quantity).toBe(0);
+  });
+});
+
+describe('withoutTime', () => {
+  it('removes a single occurrence and leaves unknown times alone', () => {
+    const times = ['2025-07-01T10:00:00.000Z', '2025-07-01T10:00:00.000Z'];
+
+    expect(withoutTime(times, '2025-07-01T10:00:00+00:00')).toEqual(['2025-07-01T10:00:00.000Z']);
+    expect(withoutTime(times, '2025-07-01T12:00:00.000Z')).toBe(times);
+  });
+});
+
+describe('quickLogBeers', () => {
+  it('leaves archived beers out and stops at the limit', () => {
+    const beers = [
+      beer('archived', { pinned_at: '2025-01-01T00:00:00.000Z', archived_at: '2025-02-01T00:00:00.000Z' }),
+      beer('a'),
+      beer('b'),
+      beer('c'),
+    ];
+    const records = [{ ...record('c', 2, []), date: '2025-06-30' }];
+
+    expect(quickLogBeers(beers, records, new Date(2025, 6, 1), 2).map(suggested => suggested.id)).toEqual(['c', 'a']);
+  });
+});
+
+describe('clearDryMark', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('clears the mark and reports that there was one', async () => {
+    vi.mocked(dryDayRepository.list).mockResolvedValue([DATE]);
+
+    await expect(clearDryMark('user-1', DATE)).resolves.toBe(true);
+    expect(dryDayRepository.set).toHaveBeenCalledWith('user-1', DATE, false);
+  });
+
+  it('leaves an unmarked day alone', async () => {
+    vi.mocked(dryDayRepository.list).mockResolvedValue([]);
+
+    await expect(clearDryMark('user-1', DATE)).resolves.toBe(false);
+    expect(dryDayRepository.set).not.toHaveBeenCalled();
+  });
+});
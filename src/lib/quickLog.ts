@@ -0,0 +1,67 @@
+import { Beer, ConsumptionRecord, ConsumptionRecordWithBeer, DailyEntry } from '../types';
+import { dryDayRepository } from '../repositories';
+import { orderBeers } from './suggestions';
+
+export const QUICK_LOG_STEPS = [1, 0.5];
+
+// How many beers the home panel offers
+export const QUICK_LOG_LIMIT = 6;
+
+/** The top of the record screen's suggested order: pinned beers, then what is usually drunk around today. */
+export const quickLogBeers = (beers: Beer[], records: ConsumptionRecord[], today: Date, limit = QUICK_LOG_LIMIT) =>
+  orderBeers(beers.filter(beer => !beer.archived_at), records, today).slice(0, limit);
+
+const toEntry = (record: ConsumptionRecord): DailyEntry => ({
+  beer_id: record.beer_id,
+  quantity: record.quantity,
+  consumed_at: record.consumed_at,
+  note: record.note,
+  rating: record.rating,
+  price: record.price
+});
+
+/**
+ * The day's records as saveDay entries with `amount` more glasses of `beerId`. Every started glass
+ * gets a timestamp, so `at` is recorded when the new quantity reaches a glass that has none yet.
+ */
+export const addGlasses = (records: ConsumptionRecord[], beerId: string, amount: number, at: string): DailyEntry[] => {
+  const entries = records.map(toEntry);
+  const entry = entries.find(candidate => candidate.beer_id === beerId);
+  if (!entry) {
+    return [...entries, { beer_id: beerId, quantity: amount, consumed_at: [at] }];
+  }
+  const times = entry.consumed_at ?? [];
+  entry.quantity += amount;
+  entry.consumed_at = Math.ceil(entry.quantity) > times.length ? [...times, at].sort() : times;
+  return entries;
+};
+
+/** `times` without one occurrence of `at`, left as they are when it isn't there. */
+export const withoutTime = (times: string[], at: string) => {
+  // Stored values may use another ISO offset format, so compare them as instants
+  const index = times.findIndex(value => new Date(value).getTime() === new Date(at).getTime());
+  return index === -1 ? times : times.filter((_, i) => i !== index);
+};
+
+/** Undoes addGlasses: takes `amount` glasses of `beerId` back off the day along with the timestamp `at`. */
+export const removeGlasses = (records: ConsumptionRecord[], beerId: string, amount: number, at: string): DailyEntry[] =>
+  records.map(toEntry).map(entry => entry.beer_id !== beerId ? entry : {
+    ...entry,
+    quantity: Math.max(entry.quantity - amount, 0),
+    consumed_at: withoutTime(entry.consumed_at ?? [], at)
+  });
+
+/**
+ * Logging a drink overrides an earlier "no drinking" mark for the day. Resolves whether the day
+ * was marked, so an undo can put the mark back.
+ */
+export const clearDryMark = async (userId: string, date: string) => {
+  const wasDry = (await dryDayRepository.list(userId, { start: date, end: date })).length > 0;
+  if (wasDry) {
+    await dryDayRepository.set(userId, date, false);
+  }
+  return wasDry;
+};
+
+export const totalGlasses = (records: ConsumptionRecordWithBeer[]) =>
+  records.reduce((sum, record) => sum + record.quantity, 0);
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { Beer, ConsumptionRecord, EMPTY_BEER_DETAILS } from '../types';
+import { drinkEvents, formatDuration, groupSessions, SESSION_GAP_MINUTES, sessionStats, timestampFor, toSessionSpan } from './sessions';
+
+const beer: Beer = {
+  ...EMPTY_BEER_DETAILS,
+  id: 'cass',
+  name: 'Cass',
+  type: '캔',
+  volume: 500,
+  alcohol_percentage: 4.5,
+  sort_order: 0,
+  user_id: 'user-1',
+  created_at: '',
+  archived_at: null,
+  pinned_at: null,
+};
+
+const at = (hours: number, minutes = 0) => new Date(2025, 6, 1, hours, minutes).toISOString();
+
+const record = (date: string, consumedAt: string[]): ConsumptionRecord & { beer: Beer } => ({
+  id: `record-${date}`,
+  date,
+  beer_id: beer.id,
+  quantity: consumedAt.length,
+  consumed_at: consumedAt,
+  note: null,
+  rating: null,
+  price: null,
+  user_id: 'user-1',
+  created_at: '',
+  updated_at: '',
+  version: 1,
+  beer,
+});
+
+describe('timestampFor', () => {
+  it('rolls times before the day start into the next calendar day', () => {
+    expect(timestampFor('2025-07-01', '23:30', 6)).toBe(new Date(2025, 6, 1, 23, 30).toISOString());
+    expect(timestampFor('2025-07-01', '01:15', 6)).toBe(new Date(2025, 6, 2, 1, 15).toISOString());
+    expect(timestampFor('2025-07-01', '01:15', 0)).toBe(new Date(2025, 6, 1, 1, 15).toISOString());
+  });
+});
+
+describe('groupSessions', () => {
+  it('starts a new session only when glasses are more than the gap apart', () => {
+    // Records arrive unordered; 21:30 is exactly the gap after 18:30 and 00:31 is one minute more
+    const events = drinkEvents([
+      record('2025-07-01', [at(21, 30), at(18), at(18, 30)]),
+      record('2025-07-02', [at(24, 31)]),
+    ]);
+
+    const sessions = groupSessions(events);
+
+    expect(SESSION_GAP_MINUTES).toBe(180);
+    expect(sessions.map(session => [session.events.length, session.durationMinutes])).toEqual([[3, 210], [1, 0]]);
+    expect(sessions[0].start.toISOString()).toBe(at(18));
+  });
+});
+
+describe('sessionStats', () => {
+  it('measures pace over the intervals of sessions longer than one glass', () => {
+    const spans = groupSessions(drinkEvents([record('2025-07-01', [at(18), at(18, 30), at(19), at(23, 30)])])).map(toSessionSpan);
+
+    expect(spans.map(span => span.glasses)).toEqual([3, 1]);
+    // Three glasses in an hour are two intervals; the lone glass adds no time and no pace
+    expect(sessionStats(spans)).toEqual({ sessionCount: 2, avgSessionMinutes: 30, drinksPerHour: 2 });
+    expect(sessionStats([])).toEqual({ sessionCount: 0, avgSessionMinutes: 0, drinksPerHour: 0 });
+  });
+});
+
+describe('formatDuration', () => {
+  it('writes whole hours and leftover minutes', () => {
+    expect(formatDuration(45)).toBe('45분');
+    expect(formatDuration(120)).toBe('2시간');
+    expect(formatDuration(95.6)).toBe('1시간 36분');
+  });
+});
@@ -0,0 +1,94 @@
+import { addDays, differenceInMinutes, parseISO } from 'date-fns';
+import { Beer, ConsumptionRecord, SessionSpan } from '../types';
+
+// Glasses further apart than this belong to separate sessions
+export const SESSION_GAP_MINUTES = 180;
+
+export interface DrinkEvent {
+  at: Date;
+  beer: Beer;
+}
+
+export interface DrinkingSession {
+  start: Date;
+  end: Date;
+  events: DrinkEvent[];
+  durationMinutes: number;
+}
+
+export interface SessionStats {
+  sessionCount: number;
+  avgSessionMinutes: number;
+  /** Glasses per hour across sessions of more than one glass; a single glass has no pace. */
+  drinksPerHour: number;
+}
+
+/**
+ * Timestamp for a glass logged on `date` at `time` (HH:mm). Times before `dayStartHour` belong to
+ * the night of `date`, so they roll into the next calendar day.
+ */
+export const timestampFor = (date: string, time: string, dayStartHour: number) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const day = hours < dayStartHour ? addDays(parseISO(date), 1) : parseISO(date);
+  day.setHours(hours, minutes, 0, 0);
+  return day.toISOString();
+};
+
+export const drinkEvents = (records: (ConsumptionRecord & { beer: Beer })[]): DrinkEvent[] =>
+  records
+    .flatMap(record => record.consumed_at.map(at => ({ at: parseISO(at), beer: record.beer })))
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+/** Splits time-ordered events wherever the gap between two glasses exceeds SESSION_GAP_MINUTES. */
+export const groupSessions = (events: DrinkEvent[]): DrinkingSession[] => {
+  const sessions: DrinkEvent[][] = [];
+  events.forEach(event => {
+    const current = sessions[sessions.length - 1];
+    const last = current?.[current.length - 1];
+    if (last && differenceInMinutes(event.at, last.at) <= SESSION_GAP_MINUTES) {
+      current.push(event);
+    } else {
+      sessions.push([event]);
+    }
+  });
+
+  return sessions.map(sessionEvents => {
+    const start = sessionEvents[0].at;
+    const end = sessionEvents[sessionEvents.length - 1].at;
+    return { start, end, events: sessionEvents, durationMinutes: differenceInMinutes(end, start) };
+  });
+};
+
+export const toSessionSpan = (session: DrinkingSession): SessionSpan => ({
+  started_at: session.start.toISOString(),
+  ended_at: session.end.toISOString(),
+  glasses: session.events.length,
+});
+
+export const sessionStats = (spans: SessionSpan[]): SessionStats => {
+  if (spans.length === 0) return { sessionCount: 0, avgSessionMinutes: 0, drinksPerHour: 0 };
+
+  const sessions = spans.map(span => ({
+    durationMinutes: differenceInMinutes(parseISO(span.ended_at), parseISO(span.started_at)),
+    glasses: span.glasses,
+  }));
+  const totalMinutes = sessions.reduce((sum, session) => sum + session.durationMinutes, 0);
+  const paced = sessions.filter(session => session.durationMinutes > 0);
+  const pacedMinutes = paced.reduce((sum, session) => sum + session.durationMinutes, 0);
+  // n glasses over a session span n - 1 intervals
+  const pacedIntervals = paced.reduce((sum, session) => sum + session.glasses - 1, 0);
+
+  return {
+    sessionCount: spans.length,
+    avgSessionMinutes: totalMinutes / sessions.length,
+    drinksPerHour: pacedMinutes > 0 ? pacedIntervals / (pacedMinutes / 60) : 0,
+  };
+};
+
+export const formatDuration = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  if (hours === 0) return `${rest}분`;
+  return rest === 0 ? `${hours}시간` : `${hours}시간 ${rest}분`;
+};
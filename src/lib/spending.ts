@@ -0,0 +1,41 @@
+import { Beer } from '../types';
+
+interface PricedRecord {
+  quantity: number;
+  price: number | null;
+  beer: Pick<Beer, 'volume' | 'price'>;
+}
+
+export interface Spending {
+  /** Won spent on every glass with a known price. */
+  total: number;
+  /** Glasses and millilitres the total covers; glasses without any price are left out. */
+  pricedQuantity: number;
+  pricedVolume: number;
+}
+
+// Share of the budget at which the home screen starts warning
+export const BUDGET_WARNING_RATIO = 0.8;
+
+/** What one glass of the record cost: the price paid that day, else the beer's usual price. */
+export const pricePerGlass = (record: Pick<PricedRecord, 'price' | 'beer'>) =>
+  record.price ?? record.beer.price;
+
+export const spending = (records: PricedRecord[]): Spending =>
+  records.reduce((acc, record) => {
+    const price = pricePerGlass(record);
+    if (price === null) return acc;
+    return {
+      total: acc.total + price * record.quantity,
+      pricedQuantity: acc.pricedQuantity + record.quantity,
+      pricedVolume: acc.pricedVolume + record.beer.volume * record.quantity,
+    };
+  }, { total: 0, pricedQuantity: 0, pricedVolume: 0 });
+
+export const costPerGlass = ({ total, pricedQuantity }: Spending) =>
+  pricedQuantity > 0 ? total / pricedQuantity : null;
+
+export const costPerLiter = ({ total, pricedVolume }: Spending) =>
+  pricedVolume > 0 ? total / (pricedVolume / 1000) : null;
+
+export const formatWon = (amount: number) => `${Math.round(amount).toLocaleString()}원`;
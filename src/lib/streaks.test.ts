@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import { Streaks } from '../types';
+import { calculateStreaks, DayKind, dayKinds } from './streaks';
+import { toDateString } from './dates';
+
+const TODAY = new Date(2025, 6, 20, 15, 0);
+
+// Dates relative to TODAY, e.g. day(-1) is yesterday
+const day = (offset: number) => toDateString(addDays(TODAY, offset));
+const days = (...offsets: number[]) => offsets.map(day);
+
+/**
+ * The gaps-and-islands query behind consumption_streaks, written out in TypeScript:
+ * consecutive days of one kind share the same date minus their position among that kind.
+ */
+const streaksLikeSql = (drinkingDates: string[], dryDates: string[], today: Date): Streaks => {
+  const todayKey = toDateString(today);
+  const kinds = Object.entries(dayKinds(drinkingDates, dryDates)).filter(([date]) => date <= todayKey);
+  const runs: { kind: DayKind; lastDay: string; length: number }[] = [];
+  (['dry', 'drinking'] as const).forEach(kind => {
+    const byKey = new Map<number, string[]>();
+    kinds
+      .filter(([, dayKind]) => dayKind === kind)
+      .map(([date]) => date)
+      .sort()
+      .forEach((date, position) => {
+        const key = differenceInCalendarDays(parseISO(date), today) - position;
+        byKey.set(key, [...(byKey.get(key) ?? []), date]);
+      });
+    byKey.forEach(dates => runs.push({ kind, lastDay: dates[dates.length - 1], length: dates.length }));
+  });
+
+  const current = runs
+    .filter(run => run.lastDay === todayKey || run.lastDay === toDateString(addDays(today, -1)))
+    .sort((a, b) => b.lastDay.localeCompare(a.lastDay))[0];
+  const longest = (kind: DayKind) => Math.max(0, ...runs.filter(run => run.kind === kind).map(run => run.length));
+  return {
+    currentDry: current?.kind === 'dry' ? current.length : 0,
+    longestDry: longest('dry'),
+    currentDrinking: current?.kind === 'drinking' ? current.length : 0,
+    longestDrinking: longest('drinking'),
+  };
+};
+
+describe('calculateStreaks', () => {
+  it('counts the current and longest runs of each kind', () => {
+    const drinking = days(-9, -8, -7, -6, -2);
+    const dry = days(-5, -4, -3, -1, 0);
+
+    expect(calculateStreaks(drinking, dry, TODAY)).toEqual({ currentDry: 2, longestDry: 3, currentDrinking: 0, longestDrinking: 4 });
+  });
+
+  it('ends a run at a day nobody logged', () => {
+    expect(calculateStreaks([], days(-4, -3, -1, 0), TODAY)).toMatchObject({ currentDry: 2, longestDry: 2 });
+  });
+
+  it('carries the streak ending yesterday while today is still unlogged', () => {
+    expect(calculateStreaks(days(-3, -2, -1), [], TODAY)).toMatchObject({ currentDrinking: 3 });
+    expect(calculateStreaks(days(-3, -2), [], TODAY)).toMatchObject({ currentDrinking: 0, longestDrinking: 2 });
+  });
+
+  it('treats a day marked dry that also has records as a drinking day', () => {
+    expect(calculateStreaks(days(-1), days(-2, -1, 0), TODAY)).toEqual({ currentDry: 1, longestDry: 1, currentDrinking: 0, longestDrinking: 1 });
+  });
+
+  it('ignores days after today', () => {
+    expect(calculateStreaks(days(1, 2), days(0), TODAY)).toEqual({ currentDry: 1, longestDry: 1, currentDrinking: 0, longestDrinking: 0 });
+  });
+
+  it('agrees with the SQL query across generated two-week histories', () => {
+    // Each day of the window is drinking, dry, both or unlogged, chosen by a fixed generator
+    let seed = 7;
+    const next = () => (seed = (seed * 48271) % 2147483647) % 4;
+
+    for (let sample = 0; sample < 300; sample++) {
+      const drinking: string[] = [];
+      const dry: string[] = [];
+      for (let offset = -13; offset <= 1; offset++) {
+        const roll = next();
+        if (roll === 1 || roll === 3) drinking.push(day(offset));
+        if (roll === 2 || roll === 3) dry.push(day(offset));
+      }
+
+      expect(calculateStreaks(drinking, dry, TODAY)).toEqual(streaksLikeSql(drinking, dry, TODAY));
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import { addDays, parseISO, subDays } from 'date-fns';
+import { Streaks } from '../types';
+import { toDateString } from './dates';
+
+export type DayKind = 'drinking' | 'dry' | 'unlogged';
+
+/**
+ * Classifies each date: a day with records is a drinking day even if it was also marked dry,
+ * a marked day without records is dry, and anything else is unlogged.
+ */
+export const dayKinds = (drinkingDates: string[], dryDates: string[]) => {
+  const kinds: Record<string, DayKind> = {};
+  dryDates.forEach(date => { kinds[date] = 'dry'; });
+  drinkingDates.forEach(date => { kinds[date] = 'drinking'; });
+  return kinds;
+};
+
+/**
+ * Runs of consecutive dry or drinking days up to `today`. Only explicitly marked dry days
+ * count towards a dry streak, so an unlogged day ends both kinds of run. Today itself is
+ * still in progress: while it is unlogged the current streak is the one ending yesterday.
+ */
+export const calculateStreaks = (drinkingDates: string[], dryDates: string[], today: Date = new Date()): Streaks => {
+  const kinds = dayKinds(drinkingDates, dryDates);
+  const todayKey = toDateString(today);
+  const dates = Object.keys(kinds).filter(date => date <= todayKey).sort();
+  const streaks: Streaks = { currentDry: 0, longestDry: 0, currentDrinking: 0, longestDrinking: 0 };
+  if (dates.length === 0) return streaks;
+
+  let runKind: DayKind = 'unlogged';
+  let runLength = 0;
+  for (let day = parseISO(dates[0]); toDateString(day) <= todayKey; day = addDays(day, 1)) {
+    const kind = kinds[toDateString(day)] ?? 'unlogged';
+    runLength = kind === runKind ? runLength + 1 : 1;
+    runKind = kind;
+    if (kind === 'dry') streaks.longestDry = Math.max(streaks.longestDry, runLength);
+    if (kind === 'drinking') streaks.longestDrinking = Math.max(streaks.longestDrinking, runLength);
+  }
+
+  let cursor = kinds[todayKey] ? today : subDays(today, 1);
+  const currentKind = kinds[toDateString(cursor)];
+  if (!currentKind) return streaks;
+
+  let current = 0;
+  while (kinds[toDateString(cursor)] === currentKind) {
+    current++;
+    cursor = subDays(cursor, 1);
+  }
+  if (currentKind === 'dry') streaks.currentDry = current;
+  else streaks.currentDrinking = current;
+
+  return streaks;
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { Beer, ConsumptionRecord, EMPTY_BEER_DETAILS } from '../types';
+import { nextSortOrder, orderBeers, searchBeers, suggestionScores } from './suggestions';
+
+// A Friday
+const DAY = new Date(2025, 6, 4);
+
+const beer = (id: string, patch: Partial<Beer> = {}): Beer => ({
+  ...EMPTY_BEER_DETAILS,
+  id,
+  name: id,
+  type: '캔',
+  volume: 500,
+  alcohol_percentage: 4.5,
+  sort_order: 0,
+  user_id: 'user-1',
+  created_at: '',
+  archived_at: null,
+  pinned_at: null,
+  ...patch,
+});
+
+const record = (beerId: string, date: string, quantity = 1): ConsumptionRecord => ({
+  id: `record-${beerId}-${date}`,
+  date,
+  beer_id: beerId,
+  quantity,
+  consumed_at: [],
+  note: null,
+  rating: null,
+  price: null,
+  user_id: 'user-1',
+  created_at: '',
+  updated_at: '',
+  version: 1,
+});
+
+describe('suggestionScores', () => {
+  it('fades glasses with age and weights the same weekday up', () => {
+    const scores = suggestionScores([
+      record('yesterday', '2025-07-03'),
+      record('yesterday', '2025-07-03', 0.5),
+      // Four weeks back, also a Friday
+      record('fridays', '2025-06-06'),
+    ], DAY);
+
+    expect(scores.yesterday).toBeCloseTo(1.5 * 0.5 ** (1 / 14));
+    expect(scores.fridays).toBeCloseTo(0.25 + 2 * 0.5 ** 0.5);
+    expect(scores.fridays).toBeGreaterThan(scores.yesterday);
+  });
+});
+
+describe('orderBeers', () => {
+  const beers = [
+    beer('a'),
+    beer('late-pin', { pinned_at: '2025-05-02T00:00:00.000Z' }),
+    beer('b'),
+    beer('early-pin', { pinned_at: '2025-05-01T00:00:00.000Z' }),
+    beer('c'),
+  ];
+  const records = [record('c', '2025-07-03'), record('b', '2025-06-01')];
+
+  it('puts pinned beers first in pin order, then ranks the rest by score and list order', () => {
+    expect(orderBeers(beers, records, DAY).map(ordered => ordered.id)).toEqual(['early-pin', 'late-pin', 'c', 'b', 'a']);
+  });
+
+  it('keeps the list order after the pinned beers for the manual order', () => {
+    expect(orderBeers(beers, records, DAY, 'manual').map(ordered => ordered.id)).toEqual(['early-pin', 'late-pin', 'a', 'b', 'c']);
+  });
+});
+
+describe('searchBeers', () => {
+  it('matches name, brewery or style ignoring case and spacing', () => {
+    const beers = [
+      beer('hazy', { name: 'Hazy Jane', brewery: 'BrewDog' }),
+      beer('cass', { name: '카스 프레시', style: '라거' }),
+    ];
+
+    expect(searchBeers(beers, 'hazyjane').map(found => found.id)).toEqual(['hazy']);
+    expect(searchBeers(beers, 'brew dog').map(found => found.id)).toEqual(['hazy']);
+    expect(searchBeers(beers, '카스프레').map(found => found.id)).toEqual(['cass']);
+    expect(searchBeers(beers, '라거').map(found => found.id)).toEqual(['cass']);
+    expect(searchBeers(beers, '  ')).toBe(beers);
+  });
+});
+
+describe('nextSortOrder', () => {
+  it('follows the highest sort order rather than the count', () => {
+    expect(nextSortOrder([beer('a', { sort_order: 0 }), beer('b', { sort_order: 5 })])).toBe(6);
+    expect(nextSortOrder([])).toBe(0);
+  });
+});
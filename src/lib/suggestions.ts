@@ -0,0 +1,63 @@
+import { differenceInCalendarDays, getDay, parseISO } from 'date-fns';
+import { Beer, ConsumptionRecord } from '../types';
+
+export type BeerOrder = 'suggested' | 'manual';
+
+export const BEER_ORDER_LABELS: Record<BeerOrder, string> = {
+  suggested: '추천순',
+  manual: '내 순서',
+};
+
+// How far back the history behind the suggestions reaches
+export const SUGGESTION_LOOKBACK_DAYS = 90;
+
+// A glass counts half as much for every two weeks that passed since
+const HALF_LIFE_DAYS = 14;
+
+// Habits tied to a weekday change slowly, so those glasses fade over two months instead
+const WEEKDAY_HALF_LIFE_DAYS = 56;
+const WEEKDAY_WEIGHT = 2;
+
+/**
+ * How likely each beer is to be drunk on `day`: glasses weighted towards recent days, plus extra
+ * weight for glasses drunk on the same weekday, so Friday's usual beer comes up on Fridays.
+ */
+export const suggestionScores = (records: ConsumptionRecord[], day: Date) =>
+  records.reduce((acc, record) => {
+    const date = parseISO(record.date);
+    const age = Math.abs(differenceInCalendarDays(day, date));
+    const weekday = getDay(date) === getDay(day) ? WEEKDAY_WEIGHT * 0.5 ** (age / WEEKDAY_HALF_LIFE_DAYS) : 0;
+    acc[record.beer_id] = (acc[record.beer_id] ?? 0) + record.quantity * (0.5 ** (age / HALF_LIFE_DAYS) + weekday);
+    return acc;
+  }, {} as Record<string, number>);
+
+/** The sort_order after every beer of the list; deletes and merges leave gaps, so counting would reuse one. */
+export const nextSortOrder = (beers: Beer[]) => beers.reduce((next, beer) => Math.max(next, beer.sort_order + 1), 0);
+
+const byPinnedAt = (a: Beer, b: Beer) => a.pinned_at!.localeCompare(b.pinned_at!);
+
+/**
+ * Pinned beers first in the order they were pinned, then the rest: by suggestion score, or as
+ * arranged on the beers page for the manual order. Beers without history keep their list order.
+ */
+export const orderBeers = (beers: Beer[], records: ConsumptionRecord[], day: Date, order: BeerOrder = 'suggested') => {
+  const pinned = beers.filter(beer => beer.pinned_at).sort(byPinnedAt);
+  const rest = beers.filter(beer => !beer.pinned_at);
+  if (order === 'manual') return [...pinned, ...rest];
+
+  const scores = suggestionScores(records, day);
+  const ranked = rest
+    .map((beer, index) => ({ beer, index, score: scores[beer.id] ?? 0 }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ beer }) => beer);
+  return [...pinned, ...ranked];
+};
+
+/** Beers whose name, brewery or style contains `query`, ignoring case and spacing. */
+export const searchBeers = (beers: Beer[], query: string) => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return beers;
+  return beers.filter(beer =>
+    [beer.name, beer.brewery, beer.style].some(value => value?.toLowerCase().replace(/\s+/g, '').includes(needle))
+  );
+};
@@ -1,10 +1,19 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables');
-}
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
\ No newline at end of file
+let client: SupabaseClient | null = null;
+
+// Created on first use so the app can boot in demo mode without Supabase credentials
+export const getSupabase = () => {
+  if (!client) {
+    if (!isSupabaseConfigured) {
+      throw new Error('Missing Supabase environment variables');
+    }
+    client = createClient(supabaseUrl, supabaseAnonKey);
+  }
+  return client;
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { dailyIntake, rollingAverage, TREND_LEAD_IN_DAYS, weekdayTotals } from './trends';
+
+const intake = dailyIntake([
+  // Before the periods below: 28 June lies outside every window they use, 30 June only in the lead-in
+  { date: '2025-06-28', glasses: 3, alcohol: 30 },
+  { date: '2025-06-30', glasses: 1, alcohol: 10 },
+  { date: '2025-07-01', glasses: 2, alcohol: 20 },
+  { date: '2025-07-05', glasses: 0.5, alcohol: 5 },
+]);
+
+describe('rollingAverage', () => {
+  it('starts at the period start with windows that reach into the lead-in days', () => {
+    const points = rollingAverage(intake, new Date(2025, 6, 1), new Date(2025, 6, 4), 3, 'kr');
+
+    expect(points.map(point => point.date)).toEqual([1, 2, 3, 4].map(day => new Date(2025, 6, day)));
+    // 1 July averages 29 June to 1 July; 4 July has nothing left in its window
+    expect(points.map(point => point.glasses)).toEqual([1, 1, 2 / 3, 0]);
+    expect(points[0].drinks).toBeCloseTo(1);
+  });
+
+  it('divides by the whole window even when some of its days have no data', () => {
+    const [point] = rollingAverage(intake, new Date(2025, 6, 5), new Date(2025, 6, 5), 7, 'us');
+
+    expect(point.glasses).toBeCloseTo((1 + 2 + 0.5) / 7);
+    expect(point.drinks).toBeCloseTo((10 + 20 + 5) / 7 / 14);
+  });
+
+  it('reaches back far enough for the longest window', () => {
+    expect(TREND_LEAD_IN_DAYS).toBe(29);
+  });
+});
+
+describe('weekdayTotals', () => {
+  it('sums glasses and counts days per weekday, Sunday first', () => {
+    const totals = weekdayTotals(intake);
+
+    // 28 June 2025 is a Saturday, 30 June a Monday, 1 July a Tuesday and 5 July a Saturday
+    expect(totals[6]).toEqual({ glasses: 3.5, days: 2 });
+    expect(totals[1]).toEqual({ glasses: 1, days: 1 });
+    expect(totals[2]).toEqual({ glasses: 2, days: 1 });
+    expect(totals[0]).toEqual({ glasses: 0, days: 0 });
+  });
+});
@@ -0,0 +1,70 @@
+import { eachDayOfInterval, getDay, parseISO, subDays } from 'date-fns';
+import { DailyTotal, DrinkStandard } from '../types';
+import { standardDrinks } from './alcoholUnits';
+import { toDateString } from './dates';
+
+export interface DailyIntake {
+  glasses: number;
+  /** Grams of ethanol. */
+  grams: number;
+}
+
+export interface TrendPoint {
+  date: Date;
+  /** Average glasses per day over the window ending on `date`. */
+  glasses: number;
+  /** Average standard drinks per day over the same window. */
+  drinks: number;
+}
+
+export const TREND_WINDOWS = [7, 30];
+
+/** How many days before a period the longest window reaches back to. */
+export const TREND_LEAD_IN_DAYS = Math.max(...TREND_WINDOWS) - 1;
+
+export const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+
+/** Glasses and grams of ethanol per day, keyed by yyyy-MM-dd. */
+export const dailyIntake = (days: Pick<DailyTotal, 'date' | 'glasses' | 'alcohol'>[]): Record<string, DailyIntake> =>
+  Object.fromEntries(days.map(day => [day.date, { glasses: day.glasses, grams: day.alcohol }]));
+
+/**
+ * Rolling per-day average for every day from `start` to `end`, each over `window` full days. The first
+ * windows reach back before `start`, so `daily` has to cover those days too; days missing from it count as dry.
+ */
+export const rollingAverage = (
+  daily: Record<string, DailyIntake>,
+  start: Date,
+  end: Date,
+  window: number,
+  standard: DrinkStandard
+): TrendPoint[] => {
+  const days = eachDayOfInterval({ start: subDays(start, window - 1), end }).map(date => ({ date, intake: daily[toDateString(date)] }));
+  let glasses = 0;
+  let grams = 0;
+
+  return days.flatMap(({ date, intake }, index) => {
+    glasses += intake?.glasses ?? 0;
+    grams += intake?.grams ?? 0;
+    const dropped = days[index - window]?.intake;
+    if (dropped) {
+      glasses -= dropped.glasses;
+      grams -= dropped.grams;
+    }
+    if (index < window - 1) return [];
+    // Subtracting float gram sums can leave a hair below zero once the window empties
+    return [{ date, glasses: glasses / window, drinks: standardDrinks(Math.max(grams, 0) / window, standard) }];
+  });
+};
+
+/** Glasses drunk on each weekday, Sunday first, and on how many days of that weekday. */
+export const weekdayTotals = (daily: Record<string, DailyIntake>) =>
+  Object.entries(daily).reduce(
+    (acc, [date, intake]) => {
+      const weekday = getDay(parseISO(date));
+      acc[weekday].glasses += intake.glasses;
+      acc[weekday].days++;
+      return acc;
+    },
+    WEEKDAY_LABELS.map(() => ({ glasses: 0, days: 0 }))
+  );
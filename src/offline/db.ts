@@ -0,0 +1,74 @@
+const DB_NAME = 'beer-tracker';
+const DB_VERSION = 4;
+
+export type StoreName = 'beers' | 'records' | 'queue' | 'settings' | 'dryDays' | 'failed';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore('beers', { keyPath: 'id' });
+          const records = db.createObjectStore('records', { keyPath: 'id' });
+          records.createIndex('user_date', ['user_id', 'date']);
+          db.createObjectStore('queue', { keyPath: 'id', autoIncrement: true });
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore('settings', { keyPath: 'user_id' });
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore('dryDays', { keyPath: ['user_id', 'date'] });
+        }
+        if (event.oldVersion < 4) {
+          db.createObjectStore('failed', { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+// Runs `fn` inside a single transaction and resolves once it has committed
+export const transact = async <T>(
+  stores: StoreName[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await fn(tx);
+  await done;
+  return result;
+};
+
+export const get = <T>(tx: IDBTransaction, store: StoreName, key: IDBValidKey) =>
+  promisify(tx.objectStore(store).get(key)) as Promise<T | undefined>;
+
+export const getAll = <T>(tx: IDBTransaction, store: StoreName) =>
+  promisify(tx.objectStore(store).getAll()) as Promise<T[]>;
+
+export const getAllByIndex = <T>(tx: IDBTransaction, store: StoreName, index: string, key: IDBValidKey) =>
+  promisify(tx.objectStore(store).index(index).getAll(key)) as Promise<T[]>;
+
+export const put = <T>(tx: IDBTransaction, store: StoreName, value: T) =>
+  promisify(tx.objectStore(store).put(value));
+
+export const remove = (tx: IDBTransaction, store: StoreName, key: IDBValidKey) =>
+  promisify(tx.objectStore(store).delete(key));
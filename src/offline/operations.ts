@@ -0,0 +1,26 @@
+import { BeerInput, DailyEntry, UserSettings } from '../types';
+import { BeerMarks } from '../repositories/types';
+
+/**
+ * A write recorded locally while waiting to be replayed against the server.
+ * `saveDay` keeps the server snapshot it was based on (`expected` versions and
+ * `base` quantities) so a conflicting replay can be merged three ways.
+ */
+export type SyncOperation =
+  | {
+      kind: 'saveDay';
+      userId: string;
+      date: string;
+      entries: DailyEntry[];
+      expected: Record<string, number>;
+      base: Record<string, number>;
+    }
+  | { kind: 'createBeer'; userId: string; beerId: string; input: BeerInput; sortOrder: number; marks?: BeerMarks }
+  | { kind: 'updateBeer'; beerId: string; input: BeerInput }
+  | { kind: 'archiveBeer'; beerId: string; archived: boolean }
+  | { kind: 'pinBeer'; beerId: string; pinned: boolean }
+  | { kind: 'removeBeer'; beerId: string }
+  | { kind: 'mergeBeers'; targetId: string; sourceIds: string[] }
+  | { kind: 'reorderBeers'; orderedIds: string[] }
+  | { kind: 'updateSettings'; userId: string; patch: Partial<UserSettings> }
+  | { kind: 'setDryDay'; userId: string; date: string; dry: boolean };
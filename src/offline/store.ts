@@ -0,0 +1,161 @@
+import { Beer, ConsumptionRecord, DEFAULT_USER_SETTINGS, EMPTY_BEER_DETAILS, UserSettings } from '../types';
+import { DateRange } from '../repositories/types';
+import { get, getAll, getAllByIndex, put, remove, transact } from './db';
+import { SyncOperation } from './operations';
+
+/** `owner` is the signed-in user who made the write; entries queued by older versions lack it. */
+export type QueuedOperation = SyncOperation & { id: number; queued_at: string; owner?: string | null };
+
+export type FailedOperation = QueuedOperation & { error: string; failed_at: string };
+
+// Beers cached by an older version of the app lack the detail fields added since
+const withDetails = (beer: Beer): Beer => ({ ...EMPTY_BEER_DETAILS, ...beer });
+
+const inRange = (record: ConsumptionRecord, range: DateRange) =>
+  record.date >= range.start && record.date <= range.end;
+
+export const localBeers = {
+  list: (userId: string) =>
+    transact(['beers'], 'readonly', async tx =>
+      (await getAll<Beer>(tx, 'beers'))
+        .filter(beer => beer.user_id === userId)
+        .map(withDetails)
+        .sort((a, b) => a.sort_order - b.sort_order)
+    ),
+
+  replaceAll: (userId: string, beers: Beer[]) =>
+    transact(['beers'], 'readwrite', async tx => {
+      const cached = await getAll<Beer>(tx, 'beers');
+      await Promise.all(cached.filter(beer => beer.user_id === userId).map(beer => remove(tx, 'beers', beer.id)));
+      await Promise.all(beers.map(beer => put(tx, 'beers', beer)));
+    }),
+
+  get: (id: string) =>
+    transact(['beers'], 'readonly', async tx => {
+      const beer = await get<Beer>(tx, 'beers', id);
+      return beer && withDetails(beer);
+    }),
+
+  put: (beer: Beer) =>
+    transact(['beers'], 'readwrite', tx => put(tx, 'beers', beer)),
+
+  // Mirrors the ON DELETE CASCADE on consumption_records.beer_id
+  remove: (id: string) =>
+    transact(['beers', 'records'], 'readwrite', async tx => {
+      const records = await getAll<ConsumptionRecord>(tx, 'records');
+      await Promise.all(records.filter(record => record.beer_id === id).map(record => remove(tx, 'records', record.id)));
+      await remove(tx, 'beers', id);
+    }),
+};
+
+export const localRecords = {
+  byDate: (userId: string, date: string) =>
+    transact(['records'], 'readonly', tx =>
+      getAllByIndex<ConsumptionRecord>(tx, 'records', 'user_date', [userId, date])
+    ),
+
+  list: (userId: string, range?: DateRange) =>
+    transact(['records'], 'readonly', async tx =>
+      (await getAll<ConsumptionRecord>(tx, 'records'))
+        .filter(record => record.user_id === userId && (!range || inRange(record, range)))
+        .sort((a, b) => a.date.localeCompare(b.date))
+    ),
+
+  // Replaces every cached record of the user inside `range` with `records`
+  replaceRange: (userId: string, range: DateRange, records: ConsumptionRecord[]) =>
+    transact(['records'], 'readwrite', async tx => {
+      const cached = await getAll<ConsumptionRecord>(tx, 'records');
+      await Promise.all(cached
+        .filter(record => record.user_id === userId && inRange(record, range))
+        .map(record => remove(tx, 'records', record.id)));
+      await Promise.all(records.map(record => put(tx, 'records', record)));
+    }),
+};
+
+interface CachedDryDay {
+  user_id: string;
+  date: string;
+}
+
+export const localDryDays = {
+  list: (userId: string, range?: DateRange) =>
+    transact(['dryDays'], 'readonly', async tx =>
+      (await getAll<CachedDryDay>(tx, 'dryDays'))
+        .filter(day => day.user_id === userId && (!range || (day.date >= range.start && day.date <= range.end)))
+        .map(day => day.date)
+        .sort()
+    ),
+
+  set: (userId: string, date: string, dry: boolean) =>
+    transact(['dryDays'], 'readwrite', tx =>
+      dry ? put<CachedDryDay>(tx, 'dryDays', { user_id: userId, date }) : remove(tx, 'dryDays', [userId, date])
+    ),
+
+  replaceRange: (userId: string, range: DateRange, dates: string[]) =>
+    transact(['dryDays'], 'readwrite', async tx => {
+      const cached = await getAll<CachedDryDay>(tx, 'dryDays');
+      await Promise.all(cached
+        .filter(day => day.user_id === userId && day.date >= range.start && day.date <= range.end)
+        .map(day => remove(tx, 'dryDays', [day.user_id, day.date])));
+      await Promise.all(dates.map(date => put<CachedDryDay>(tx, 'dryDays', { user_id: userId, date })));
+    }),
+};
+
+interface CachedSettings {
+  user_id: string;
+  settings: UserSettings;
+}
+
+export const localSettings = {
+  get: (userId: string) =>
+    transact(['settings'], 'readonly', async tx => {
+      const cached = await get<CachedSettings>(tx, 'settings', userId);
+      return { ...DEFAULT_USER_SETTINGS, ...cached?.settings };
+    }),
+
+  put: (userId: string, settings: UserSettings) =>
+    transact(['settings'], 'readwrite', tx => put<CachedSettings>(tx, 'settings', { user_id: userId, settings })),
+};
+
+export const localQueue = {
+  list: () =>
+    transact(['queue'], 'readonly', tx => getAll<QueuedOperation>(tx, 'queue')),
+
+  add: (operation: SyncOperation, owner: string | null) =>
+    transact(['queue'], 'readwrite', tx => put(tx, 'queue', { ...operation, owner, queued_at: new Date().toISOString() })),
+
+  update: (operation: QueuedOperation) =>
+    transact(['queue'], 'readwrite', tx => put(tx, 'queue', operation)),
+
+  remove: (id: number) =>
+    transact(['queue'], 'readwrite', tx => remove(tx, 'queue', id)),
+};
+
+// Writes the server rejected, kept under their queue id until the user retries or discards them
+export const localFailed = {
+  list: () =>
+    transact(['failed'], 'readonly', tx => getAll<FailedOperation>(tx, 'failed')),
+
+  // Takes the operation off the queue in the same transaction, so it is never in both or neither
+  add: (operation: QueuedOperation, error: string) =>
+    transact(['queue', 'failed'], 'readwrite', async tx => {
+      await remove(tx, 'queue', operation.id);
+      await put<FailedOperation>(tx, 'failed', { ...operation, error, failed_at: new Date().toISOString() });
+    }),
+
+  // Puts the operation back at the end of the queue under a fresh id
+  retry: (id: number) =>
+    transact(['queue', 'failed'], 'readwrite', async tx => {
+      const failed = await get<FailedOperation>(tx, 'failed', id);
+      if (!failed) return;
+      const operation: Partial<FailedOperation> = { ...failed, queued_at: new Date().toISOString() };
+      delete operation.id;
+      delete operation.error;
+      delete operation.failed_at;
+      await remove(tx, 'failed', id);
+      await put(tx, 'queue', operation);
+    }),
+
+  remove: (id: number) =>
+    transact(['failed'], 'readwrite', tx => remove(tx, 'failed', id)),
+};
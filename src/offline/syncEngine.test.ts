@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConsumptionRecord } from '../types';
+import { Repositories, SaveConflictError } from '../repositories/types';
+import type { FailedOperation, QueuedOperation } from './store';
+import { createSyncEngine, rebaseDay } from './syncEngine';
+
+// An in-memory stand-in for the IndexedDB stores the engine reads and writes
+const db = vi.hoisted(() => ({
+  queue: [] as QueuedOperation[],
+  failed: [] as FailedOperation[],
+}));
+
+vi.mock('./store', () => ({
+  localQueue: {
+    list: async () => [...db.queue],
+    update: async (operation: QueuedOperation) => {
+      db.queue = db.queue.map(queued => queued.id === operation.id ? operation : queued);
+    },
+    remove: async (id: number) => {
+      db.queue = db.queue.filter(queued => queued.id !== id);
+    },
+  },
+  localFailed: {
+    list: async () => [...db.failed],
+    add: async (operation: QueuedOperation, error: string) => {
+      db.queue = db.queue.filter(queued => queued.id !== operation.id);
+      db.failed.push({ ...operation, error, failed_at: '2025-08-01T00:00:00.000Z' });
+    },
+  },
+  localRecords: {
+    replaceRange: async () => {},
+  },
+}));
+
+const USER = 'user-1';
+const DATE = '2025-08-01';
+
+const record = (beerId: string, quantity: number, version: number, patch: Partial<ConsumptionRecord> = {}): ConsumptionRecord => ({
+  id: `record-${beerId}`,
+  date: DATE,
+  beer_id: beerId,
+  quantity,
+  consumed_at: [],
+  note: null,
+  rating: null,
+  price: null,
+  user_id: USER,
+  created_at: '2025-08-01T00:00:00.000Z',
+  updated_at: '2025-08-01T00:00:00.000Z',
+  version,
+  ...patch,
+});
+
+type SaveDay = Extract<QueuedOperation, { kind: 'saveDay' }>;
+
+const saveDay = (patch: Partial<SaveDay> = {}): SaveDay => ({
+  id: 1,
+  queued_at: '2025-08-01T00:00:00.000Z',
+  owner: USER,
+  kind: 'saveDay',
+  userId: USER,
+  date: DATE,
+  entries: [{ beer_id: 'lager', quantity: 2 }],
+  expected: { lager: 1 },
+  base: { lager: 1 },
+  ...patch,
+});
+
+describe('rebaseDay', () => {
+  it('keeps beers changed offline and takes everything else from the server', () => {
+    const server = [record('lager', 1, 2), record('stout', 3, 1)];
+
+    const rebased = rebaseDay(saveDay(), server);
+
+    expect(rebased.entries).toEqual([
+      { beer_id: 'lager', quantity: 2, consumed_at: [], note: null, rating: null, price: null },
+      { beer_id: 'stout', quantity: 3, consumed_at: [], note: null, rating: null, price: null },
+    ]);
+    expect(rebased.expected).toEqual({ lager: 2, stout: 1 });
+    expect(rebased.base).toEqual({ lager: 1, stout: 3 });
+  });
+
+  it('follows the server quantity of an untouched beer but keeps a note typed offline', () => {
+    const operation = saveDay({ entries: [{ beer_id: 'lager', quantity: 1, note: '공원에서' }] });
+    const server = [record('lager', 4, 3, { consumed_at: ['2025-08-01T11:00:00.000Z'] })];
+
+    const [entry] = rebaseDay(operation, server).entries;
+
+    expect(entry.quantity).toBe(4);
+    expect(entry.consumed_at).toEqual(['2025-08-01T11:00:00.000Z']);
+    expect(entry.note).toBe('공원에서');
+  });
+
+  it('drops a beer removed offline even though the server still has it', () => {
+    const operation = saveDay({ entries: [], expected: { lager: 1 }, base: { lager: 1 } });
+
+    expect(rebaseDay(operation, [record('lager', 1, 1)]).entries).toEqual([]);
+  });
+});
+
+describe('createSyncEngine', () => {
+  const remote = {
+    auth: { getCurrentUser: vi.fn() },
+    consumption: { saveDay: vi.fn(), listByDate: vi.fn() },
+    beers: { remove: vi.fn() },
+  };
+  const engine = () => createSyncEngine(remote as unknown as Repositories);
+
+  beforeEach(() => {
+    db.queue = [];
+    db.failed = [];
+    vi.restoreAllMocks();
+    vi.resetAllMocks();
+    vi.stubGlobal('navigator', { onLine: true });
+    remote.auth.getCurrentUser.mockResolvedValue({ id: USER, email: '', created_at: '' });
+  });
+
+  it('rebases a conflicting day onto the server and replays it', async () => {
+    const server = [record('lager', 1, 2), record('stout', 1, 1)];
+    remote.consumption.saveDay
+      .mockRejectedValueOnce(new SaveConflictError(DATE))
+      .mockResolvedValueOnce(server);
+    remote.consumption.listByDate.mockResolvedValue(server);
+    db.queue = [saveDay()];
+
+    await engine().service.flush();
+
+    expect(db.queue).toEqual([]);
+    expect(remote.consumption.saveDay).toHaveBeenCalledTimes(2);
+    const [, , entries, expected] = remote.consumption.saveDay.mock.calls[1];
+    expect(entries.map((entry: { beer_id: string; quantity: number }) => [entry.beer_id, entry.quantity])).toEqual([['lager', 2], ['stout', 1]]);
+    expect(expected).toEqual({ lager: 2, stout: 1 });
+  });
+
+  it('sets aside a write the server rejects and carries on with the rest of the queue', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    remote.beers.remove.mockRejectedValueOnce({ message: 'permission denied' });
+    remote.consumption.saveDay.mockResolvedValue([record('lager', 2, 2)]);
+    db.queue = [{ id: 1, queued_at: '', owner: USER, kind: 'removeBeer', beerId: 'gone' }, saveDay({ id: 2 })];
+    const sync = engine();
+
+    await sync.service.flush();
+
+    expect(db.queue).toEqual([]);
+    expect(db.failed).toMatchObject([{ id: 1, kind: 'removeBeer', error: 'permission denied' }]);
+    expect(remote.consumption.saveDay).toHaveBeenCalledTimes(1);
+    expect(sync.service.getStatus()).toMatchObject({ pending: 0, failed: 1 });
+  });
+
+  it('keeps the queue when the network drops', async () => {
+    remote.consumption.saveDay.mockRejectedValue(new TypeError('Failed to fetch'));
+    db.queue = [saveDay()];
+
+    await engine().service.flush();
+
+    expect(db.queue).toHaveLength(1);
+    expect(db.failed).toEqual([]);
+  });
+
+  it("never replays another user's writes into the signed-in account", async () => {
+    db.queue = [saveDay({ owner: 'user-2', userId: 'user-2' })];
+    const sync = engine();
+
+    await sync.service.flush();
+
+    expect(remote.consumption.saveDay).not.toHaveBeenCalled();
+    expect(db.queue).toHaveLength(1);
+    expect(await sync.hasPending()).toBe(false);
+  });
+});
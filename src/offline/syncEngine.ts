@@ -0,0 +1,281 @@
+import { ConsumptionRecord, DailyEntry } from '../types';
+import { quantitySnapshot, versionSnapshot } from '../repositories/records';
+import { Repositories, SaveConflictError, SyncService, SyncStatus } from '../repositories/types';
+import { SyncOperation } from './operations';
+import { localFailed, localQueue, localRecords, QueuedOperation } from './store';
+
+// A day that keeps conflicting is left queued rather than retried forever in one flush
+const MAX_CONFLICT_RETRIES = 3;
+
+// Postgres unique_violation: the row was already created by an earlier, interrupted replay
+const UNIQUE_VIOLATION_CODE = '23505';
+
+export const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+  const message = (error as { message?: string } | null)?.message ?? '';
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
+
+const errorMessage = (error: unknown) =>
+  (error as { message?: string } | null)?.message ?? String(error);
+
+type SaveDayOperation = Extract<QueuedOperation, { kind: 'saveDay' }>;
+
+// Entries queued before writes were stamped with their owner fall back to the user id they carry
+const ownerOf = (operation: QueuedOperation) => operation.owner ?? ('userId' in operation ? operation.userId : null);
+
+/**
+ * Three-way merge of a queued day against what the server now holds: beers the
+ * user changed locally keep the local quantity, everything else takes the server's.
+ */
+export const rebaseDay = (operation: SaveDayOperation, server: ConsumptionRecord[]): SaveDayOperation => {
+  const serverQuantities = quantitySnapshot(server);
+  const local = operation.entries.reduce((acc, entry) => {
+    acc[entry.beer_id] = entry;
+    return acc;
+  }, {} as Record<string, DailyEntry>);
+  const beerIds = new Set([...Object.keys(serverQuantities), ...Object.keys(local), ...Object.keys(operation.base)]);
+
+  const entries = [...beerIds]
+    .map((beerId): DailyEntry => {
+      const changedLocally = (local[beerId]?.quantity ?? 0) !== (operation.base[beerId] ?? 0);
+      if (changedLocally) {
+        return {
+          beer_id: beerId,
+          quantity: local[beerId]?.quantity ?? 0,
+          consumed_at: local[beerId]?.consumed_at ?? [],
+          note: local[beerId]?.note ?? null,
+          rating: local[beerId]?.rating ?? null,
+          price: local[beerId]?.price ?? null,
+        };
+      }
+      // Quantities follow the server, but details typed offline are still the latest word
+      const record = server.find(r => r.beer_id === beerId);
+      return {
+        beer_id: beerId,
+        quantity: record?.quantity ?? 0,
+        consumed_at: record?.consumed_at ?? [],
+        note: local[beerId]?.note ?? record?.note ?? null,
+        rating: local[beerId]?.rating ?? record?.rating ?? null,
+        price: local[beerId]?.price ?? record?.price ?? null,
+      };
+    })
+    .filter(entry => entry.quantity > 0);
+
+  return { ...operation, entries, expected: versionSnapshot(server), base: serverQuantities };
+};
+
+export const createSyncEngine = (remote: Repositories) => {
+  let status: SyncStatus = {
+    online: typeof navigator === 'undefined' ? true : navigator.onLine,
+    pending: 0,
+    failed: 0,
+    syncing: false,
+    lastError: null,
+  };
+  const listeners = new Set<(status: SyncStatus) => void>();
+  let flushing: Promise<void> | null = null;
+  let flushAgain = false;
+
+  const setStatus = (patch: Partial<SyncStatus>) => {
+    status = { ...status, ...patch };
+    listeners.forEach(listener => listener(status));
+  };
+
+  const sessionUserId = async () => (await remote.auth.getCurrentUser())?.id ?? null;
+
+  /**
+   * Only the signed-in user's writes are replayed: the RPCs write as auth.uid(), so another user's
+   * queued days would land in this account. They stay queued until their owner signs in again.
+   */
+  const owned = async <T extends QueuedOperation>(operations: T[]) => {
+    const userId = await sessionUserId();
+    if (!userId) return [];
+    return operations.filter(operation => {
+      const owner = ownerOf(operation);
+      return owner === null || owner === userId;
+    });
+  };
+
+  const ownQueue = async () => owned(await localQueue.list());
+  const ownFailed = async () => owned(await localFailed.list());
+
+  const refreshPending = async () => {
+    const [queued, failed] = await Promise.all([ownQueue(), ownFailed()]);
+    setStatus({ pending: queued.length, failed: failed.length });
+  };
+
+  // The next save of the same day was built on top of this one, so rebase it onto the result
+  const settleDay = async (operation: SaveDayOperation, saved: ConsumptionRecord[]) => {
+    const followers = (await localQueue.list()).filter((queued): queued is SaveDayOperation =>
+      queued.id > operation.id && queued.kind === 'saveDay' &&
+      queued.userId === operation.userId && queued.date === operation.date
+    );
+
+    if (followers.length === 0) {
+      await localRecords.replaceRange(operation.userId, { start: operation.date, end: operation.date }, saved);
+      return;
+    }
+    await localQueue.update(rebaseDay(followers[0], saved));
+  };
+
+  // Resolves true once the operation is applied (or no longer applicable) on the server
+  const replay = async (operation: QueuedOperation): Promise<boolean> => {
+    switch (operation.kind) {
+      case 'saveDay':
+        try {
+          const saved = await remote.consumption.saveDay(operation.userId, operation.date, operation.entries, operation.expected);
+          await settleDay(operation, saved);
+          return true;
+        } catch (error) {
+          if (!(error instanceof SaveConflictError)) throw error;
+          const server = await remote.consumption.listByDate(operation.userId, operation.date);
+          await localQueue.update(rebaseDay(operation, server));
+          return false;
+        }
+      case 'createBeer':
+        try {
+          await remote.beers.create(operation.userId, operation.input, operation.sortOrder, operation.beerId, operation.marks);
+        } catch (error) {
+          if ((error as { code?: string }).code !== UNIQUE_VIOLATION_CODE) throw error;
+        }
+        return true;
+      case 'updateBeer':
+        await remote.beers.update(operation.beerId, operation.input);
+        return true;
+      case 'archiveBeer':
+        await remote.beers.setArchived(operation.beerId, operation.archived);
+        return true;
+      case 'pinBeer':
+        await remote.beers.setPinned(operation.beerId, operation.pinned);
+        return true;
+      case 'removeBeer':
+        await remote.beers.remove(operation.beerId);
+        return true;
+      case 'mergeBeers':
+        await remote.beers.merge(operation.targetId, operation.sourceIds);
+        return true;
+      case 'reorderBeers':
+        await remote.beers.reorder(operation.orderedIds);
+        return true;
+      case 'updateSettings':
+        await remote.settings.update(operation.userId, operation.patch);
+        return true;
+      case 'setDryDay':
+        await remote.dryDays.set(operation.userId, operation.date, operation.dry);
+        return true;
+    }
+  };
+
+  // Resolves true once the queue is empty
+  const drain = async () => {
+    let conflicts = 0;
+    for (;;) {
+      const [operation] = await ownQueue();
+      if (!operation) return true;
+
+      try {
+        if (await replay(operation)) {
+          await localQueue.remove(operation.id);
+        } else if (++conflicts > MAX_CONFLICT_RETRIES) {
+          return false;
+        }
+      } catch (error) {
+        if (isNetworkError(error)) return false;
+        // The server will not accept this write; set it aside so the rest of the queue can proceed
+        console.error('Setting aside unsyncable operation:', operation, error);
+        await localFailed.add(operation, errorMessage(error));
+      }
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    if (flushing) {
+      flushAgain = true;
+      return flushing;
+    }
+    if (!navigator.onLine) return Promise.resolve();
+
+    setStatus({ syncing: true });
+    flushing = drain()
+      .then(drained => {
+        if (drained) setStatus({ lastError: null });
+      })
+      .catch(error => setStatus({ lastError: errorMessage(error) }))
+      .then(refreshPending)
+      .finally(() => {
+        flushing = null;
+        setStatus({ syncing: false });
+        if (flushAgain) {
+          flushAgain = false;
+          void flush();
+        }
+      });
+    return flushing;
+  };
+
+  const enqueue = async (operation: SyncOperation) => {
+    await localQueue.add(operation, await sessionUserId());
+    await refreshPending();
+    void flush();
+  };
+
+  const hasPending = async () => (await ownQueue()).length > 0;
+
+  /**
+   * Flushes until the queue is empty or stops shrinking. A flush requested while another one runs
+   * only schedules a follow-up, so a single await can return with writes still on their way.
+   */
+  const flushAll = async () => {
+    let pending = (await ownQueue()).length;
+    while (pending > 0 && navigator.onLine) {
+      // Waiting on a running flush rather than calling flush() avoids scheduling follow-ups forever
+      await (flushing ?? flush());
+      const left = (await ownQueue()).length;
+      if (left >= pending && !flushing) return;
+      pending = left;
+    }
+  };
+
+  const start = () => {
+    window.addEventListener('online', () => {
+      setStatus({ online: true });
+      void flush();
+    });
+    window.addEventListener('offline', () => setStatus({ online: false }));
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') void flush();
+    });
+    // Another user signing in on this browser sees only their own queue
+    remote.auth.onAuthStateChange(() => {
+      void refreshPending().then(flush);
+    });
+    void refreshPending().then(flush);
+  };
+
+  const service: SyncService = {
+    getStatus: () => status,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    flush: flushAll,
+    async discardPending() {
+      await Promise.all((await ownQueue()).map(operation => localQueue.remove(operation.id)));
+      await refreshPending();
+    },
+    listFailed: () => ownFailed(),
+    async retryFailed(id) {
+      await localFailed.retry(id);
+      await refreshPending();
+      await flush();
+    },
+    async discardFailed(id) {
+      await localFailed.remove(id);
+      await refreshPending();
+    },
+  };
+
+  return { service, enqueue, hasPending, flushAll, start };
+};
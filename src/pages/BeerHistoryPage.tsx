@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, GlassWater, CalendarDays, Star } from 'lucide-react';
+import { beerRepository, consumptionRepository } from '../repositories';
+import { useAuth } from '../contexts/AuthContext';
+import StarRating from '../components/StarRating';
+import { Beer, ConsumptionRecord } from '../types';
+import { format, parseISO } from 'date-fns';
+import { ko } from 'date-fns/locale';
+
+const BeerHistoryPage: React.FC = () => {
+  const { user } = useAuth();
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [beer, setBeer] = useState<Beer | null>(null);
+  const [records, setRecords] = useState<ConsumptionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user && id) {
+      loadHistory();
+    }
+  }, [user, id]);
+
+  const loadHistory = async () => {
+    try {
+      setLoading(true);
+      const [beers, data] = await Promise.all([
+        beerRepository.list(user!.id),
+        consumptionRepository.listByBeer(user!.id, id!)
+      ]);
+      setBeer(beers.find(candidate => candidate.id === id) ?? null);
+      setRecords(data);
+    } catch (error) {
+      console.error('Error loading beer history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) return <div className="p-4 text-center">로딩 중...</div>;
+
+  if (!beer) {
+    return (
+      <div className="p-4 text-center space-y-4">
+        <p className="text-gray-500">맥주를 찾을 수 없습니다</p>
+        <button onClick={() => navigate('/beers')} className="text-primary-dark font-medium">
+          맥주 목록으로
+        </button>
+      </div>
+    );
+  }
+
+  const totalQuantity = records.reduce((sum, record) => sum + record.quantity, 0);
+  const rated = records.filter(record => record.rating !== null);
+  const averageRating = rated.length > 0
+    ? rated.reduce((sum, record) => sum + record.rating!, 0) / rated.length
+    : null;
+  // Records come newest first
+  const lastDate = records[0]?.date;
+  const firstDate = records[records.length - 1]?.date;
+  const formatDate = (date: string) => format(parseISO(date), 'yyyy년 M월 d일', { locale: ko });
+
+  return (
+    <div className="p-4 space-y-6">
+      <button
+        onClick={() => navigate('/beers')}
+        className="flex items-center text-sm font-medium text-gray-600 hover:text-primary-dark"
+      >
+        <ArrowLeft size={16} className="mr-1" /> 맥주 관리
+      </button>
+
+      <div className="bg-white rounded-xl p-6 shadow-lg space-y-2">
+        <h2 className="text-2xl font-bold text-gray-900">
+          {beer.name} <span className="text-base font-normal text-gray-500">({beer.type})</span>
+        </h2>
+        <p className="text-sm text-gray-600">
+          {[beer.brewery, beer.style, beer.country, `${beer.volume}ml`, `${beer.alcohol_percentage}%`, beer.ibu !== null ? `IBU ${beer.ibu}` : null]
+            .filter(Boolean)
+            .join(' · ')}
+        </p>
+        {beer.rating !== null && <StarRating value={beer.rating} />}
+        {beer.tasting_notes && (
+          <p className="text-sm text-gray-700 whitespace-pre-line bg-gray-50 rounded-lg p-3">{beer.tasting_notes}</p>
+        )}
+        {beer.notes && <p className="text-sm text-gray-500 whitespace-pre-line">{beer.notes}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-white rounded-xl p-4 shadow-md">
+          <GlassWater className="w-6 h-6 mb-2 text-primary" />
+          <div className="text-2xl font-bold text-gray-900">{totalQuantity}잔</div>
+          <div className="text-sm text-gray-600">총 {records.length}회 기록</div>
+        </div>
+        <div className="bg-white rounded-xl p-4 shadow-md">
+          <Star className="w-6 h-6 mb-2 text-amber-400" />
+          <div className="text-2xl font-bold text-gray-900">
+            {averageRating !== null ? averageRating.toFixed(1) : '-'}
+          </div>
+          <div className="text-sm text-gray-600">평균 평점 ({rated.length}회)</div>
+        </div>
+      </div>
+
+      {records.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">아직 이 맥주를 마신 기록이 없습니다</p>
+      ) : (
+        <div className="space-y-3">
+          <h3 className="font-semibold text-gray-900 flex items-center">
+            <CalendarDays className="w-5 h-5 mr-2 text-primary" /> 마신 기록
+          </h3>
+          <p className="text-xs text-gray-500">
+            {firstDate === lastDate ? formatDate(firstDate) : `${formatDate(firstDate)} ~ ${formatDate(lastDate)}`}
+          </p>
+          {records.map(record => (
+            <button
+              key={record.id}
+              onClick={() => navigate(`/record?date=${record.date}`)}
+              className="w-full text-left bg-white rounded-xl p-4 shadow-md hover:shadow-lg transition-shadow"
+            >
+              <div className="flex justify-between items-center">
+                <span className="font-medium text-gray-900">{formatDate(record.date)}</span>
+                <span className="text-sm text-gray-600">{record.quantity}잔</span>
+              </div>
+              {record.rating !== null && <StarRating value={record.rating} size="sm" />}
+              {record.note && <p className="text-sm text-gray-600 mt-1 whitespace-pre-line">{record.note}</p>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BeerHistoryPage;
@@ -1,21 +1,72 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Edit2, Trash2, Save, X, ArrowUp, ArrowDown } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Plus, Edit2, Trash2, Save, X, GripVertical, Archive, ArchiveRestore, ChevronDown, ChevronUp, GitMerge, ScanBarcode } from 'lucide-react';
+import { beerRepository, consumptionRepository } from '../repositories';
 import { useAuth } from '../contexts/AuthContext';
-import { Beer } from '../types';
+import { Beer, BEER_STYLES, BEER_TYPES, BeerStyle, BeerType, CatalogBeer, CatalogServing } from '../types';
+import { areLikelyDuplicates, findDuplicateGroups } from '../lib/beerSimilarity';
+import { findBeerByBarcode } from '../lib/barcode';
+import { loadCatalog, searchCatalog, servingLabel } from '../lib/beerCatalog';
+import { estimateCalories } from '../lib/calories';
+import { formatWon } from '../lib/spending';
+import { nextSortOrder } from '../lib/suggestions';
+import BarcodeScannerDialog from '../components/BarcodeScannerDialog';
+import MergeBeersDialog from '../components/MergeBeersDialog';
+import SortableList from '../components/SortableList';
+import StarRating from '../components/StarRating';
+
+const DISMISSED_DUPLICATES_KEY = 'beer-tracker-dismissed-duplicates';
+
+const EMPTY_FORM = {
+  name: '',
+  type: '캔' as BeerType,
+  volume: '',
+  alcohol_percentage: '',
+  brewery: '',
+  style: '' as BeerStyle | '',
+  country: '',
+  ibu: '',
+  price: '',
+  calories: '',
+  notes: '',
+  rating: null as number | null,
+  tasting_notes: '',
+  barcodes: [] as string[]
+};
+
+const catalogFields = (beer: CatalogBeer, serving: CatalogServing) => ({
+  name: beer.name,
+  type: serving.type,
+  volume: serving.volume.toString(),
+  alcohol_percentage: beer.alcohol_percentage.toString(),
+  brewery: beer.brewery ?? '',
+  style: (beer.style ?? '') as BeerStyle | '',
+  country: beer.country ?? '',
+  ibu: beer.ibu?.toString() ?? ''
+});
+
+const groupKey = (group: Beer[]) => group.map(beer => beer.id).sort().join(',');
 
 const BeersPage: React.FC = () => {
   const { user } = useAuth();
+  const navigate = useNavigate();
   const [beers, setBeers] = useState<Beer[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingBeer, setEditingBeer] = useState<Beer | null>(null);
-  const [formData, setFormData] = useState({
-    name: '',
-    type: '캔' as const,
-    volume: '',
-    alcohol_percentage: ''
-  });
+  const [showArchived, setShowArchived] = useState(false);
+  const [reorderError, setReorderError] = useState('');
+  const [dismissedGroups, setDismissedGroups] = useState<string[]>(
+    () => JSON.parse(localStorage.getItem(DISMISSED_DUPLICATES_KEY) || '[]')
+  );
+  const [merge, setMerge] = useState<{ beers: Beer[]; targetId: string; sourceIds: string[] } | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [showDetails, setShowDetails] = useState(false);
+  const [catalog, setCatalog] = useState<CatalogBeer[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  // 'add' looks the code up to start a new beer, 'attach' adds it to the beer in the form
+  const [scanning, setScanning] = useState<'add' | 'attach' | null>(null);
+  const [scanMessage, setScanMessage] = useState('');
 
   useEffect(() => {
     if (user) {
@@ -23,17 +74,14 @@ const BeersPage: React.FC = () => {
     }
   }, [user]);
 
+  useEffect(() => {
+    loadCatalog().then(setCatalog);
+  }, []);
+
   const loadBeers = async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('beers')
-        .select('*')
-        .eq('user_id', user!.id)
-        .order('sort_order', { ascending: true });
-
-      if (error) throw error;
-      setBeers(data || []);
+      setBeers(await beerRepository.list(user!.id));
     } catch (error) {
       console.error('Error loading beers:', error);
     } finally {
@@ -50,26 +98,25 @@ const BeersPage: React.FC = () => {
         type: formData.type,
         volume: parseFloat(formData.volume),
         alcohol_percentage: parseFloat(formData.alcohol_percentage),
-        user_id: user!.id,
-        sort_order: editingBeer ? editingBeer.sort_order : beers.length
+        brewery: formData.brewery.trim() || null,
+        style: formData.style || null,
+        country: formData.country.trim() || null,
+        ibu: formData.ibu === '' ? null : parseInt(formData.ibu, 10),
+        price: formData.price === '' ? null : parseFloat(formData.price),
+        calories: formData.calories === '' ? null : parseFloat(formData.calories),
+        notes: formData.notes.trim() || null,
+        rating: formData.rating,
+        tasting_notes: formData.tasting_notes.trim() || null,
+        barcodes: formData.barcodes
       };
 
       if (editingBeer) {
-        const { error } = await supabase
-          .from('beers')
-          .update(beerData)
-          .eq('id', editingBeer.id);
-        
-        if (error) throw error;
+        await beerRepository.update(editingBeer.id, beerData);
       } else {
-        const { error } = await supabase
-          .from('beers')
-          .insert([beerData]);
-        
-        if (error) throw error;
+        await beerRepository.create(user!.id, beerData, nextSortOrder(beers));
       }
 
-      setFormData({ name: '', type: '캔', volume: '', alcohol_percentage: '' });
+      setFormData(EMPTY_FORM);
       setShowForm(false);
       setEditingBeer(null);
       loadBeers();
@@ -78,27 +125,85 @@ const BeersPage: React.FC = () => {
     }
   };
 
+  // Fills the form from a catalog beer; the user can still adjust anything before saving
+  const handlePickServing = (beer: CatalogBeer, serving: CatalogServing) => {
+    setFormData({ ...formData, ...catalogFields(beer, serving) });
+    setShowSuggestions(false);
+  };
+
+  const handleScanned = (code: string) => {
+    const mode = scanning;
+    setScanning(null);
+
+    if (mode === 'attach') {
+      const owner = beers.find(beer => beer.id !== editingBeer?.id && beer.barcodes.includes(code));
+      if (owner) {
+        setScanMessage(`이미 '${owner.name}'에 연결된 바코드입니다.`);
+      } else if (!formData.barcodes.includes(code)) {
+        setFormData({ ...formData, barcodes: [...formData.barcodes, code] });
+        setScanMessage('');
+      }
+      return;
+    }
+
+    const owner = findBeerByBarcode(code, beers);
+    if (owner) {
+      setScanMessage(`'${owner.name}'(으)로 이미 등록된 바코드입니다.`);
+      return;
+    }
+    setEditingBeer(null);
+    setFormData({ ...EMPTY_FORM, barcodes: [code] });
+    setScanMessage(`새 바코드(${code})입니다. 맥주 정보를 입력하거나 카탈로그에서 검색해 고르면 바코드가 함께 저장됩니다.`);
+    setShowForm(true);
+  };
+
+  const isRegistered = (beer: CatalogBeer, serving: CatalogServing) =>
+    beers.some(existing =>
+      existing.name === beer.name && existing.type === serving.type && existing.volume === serving.volume
+    );
+
   const handleEdit = (beer: Beer) => {
     setEditingBeer(beer);
     setFormData({
       name: beer.name,
       type: beer.type,
       volume: beer.volume.toString(),
-      alcohol_percentage: beer.alcohol_percentage.toString()
+      alcohol_percentage: beer.alcohol_percentage.toString(),
+      brewery: beer.brewery ?? '',
+      style: beer.style ?? '',
+      country: beer.country ?? '',
+      ibu: beer.ibu?.toString() ?? '',
+      price: beer.price?.toString() ?? '',
+      calories: beer.calories?.toString() ?? '',
+      notes: beer.notes ?? '',
+      rating: beer.rating,
+      tasting_notes: beer.tasting_notes ?? '',
+      barcodes: beer.barcodes
     });
+    setShowDetails(Boolean(
+      beer.brewery || beer.style || beer.country || beer.ibu !== null || beer.calories !== null || beer.notes || beer.rating !== null || beer.tasting_notes
+    ));
     setShowForm(true);
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('이 맥주를 삭제하시겠습니까?')) return;
+  const handleArchive = async (beer: Beer, archived: boolean) => {
+    try {
+      await beerRepository.setArchived(beer.id, archived);
+      loadBeers();
+    } catch (error) {
+      console.error('Error archiving beer:', error);
+    }
+  };
 
+  const handleDelete = async (beer: Beer) => {
     try {
-      const { error } = await supabase
-        .from('beers')
-        .delete()
-        .eq('id', id);
+      const recordCount = await consumptionRepository.countByBeer(user!.id, beer.id);
+      const message = recordCount > 0
+        ? `'${beer.name}'을(를) 완전히 삭제하면 소비 기록 ${recordCount}건도 함께 삭제되어 통계에서 사라집니다.\n기록을 남기려면 삭제 대신 보관을 사용하세요. 계속하시겠습니까?`
+        : `'${beer.name}'을(를) 완전히 삭제하시겠습니까?`;
+      if (!confirm(message)) return;
 
-      if (error) throw error;
+      await beerRepository.remove(beer.id);
       loadBeers();
     } catch (error) {
       console.error('Error deleting beer:', error);
@@ -108,27 +213,52 @@ const BeersPage: React.FC = () => {
   const cancelForm = () => {
     setShowForm(false);
     setEditingBeer(null);
-    setFormData({ name: '', type: '캔', volume: '', alcohol_percentage: '' });
+    setFormData(EMPTY_FORM);
+    setShowDetails(false);
+    setShowSuggestions(false);
+    setScanMessage('');
   };
 
-  const moveBeer = async (index: number, direction: 'up' | 'down') => {
-    const newBeers = [...beers];
-    const targetIndex = direction === 'up' ? index - 1 : index + 1;
+  const suggestions = showSuggestions ? searchCatalog(catalog, formData.name) : [];
+  const activeBeers = beers.filter(beer => !beer.archived_at);
+  const archivedBeers = beers.filter(beer => beer.archived_at);
+  const duplicateGroups = useMemo(
+    () => findDuplicateGroups(beers).filter(group => !dismissedGroups.includes(groupKey(group))),
+    [beers, dismissedGroups]
+  );
 
-    if (targetIndex < 0 || targetIndex >= beers.length) return;
+  const dismissGroup = (group: Beer[]) => {
+    const next = [...dismissedGroups, groupKey(group)];
+    localStorage.setItem(DISMISSED_DUPLICATES_KEY, JSON.stringify(next));
+    setDismissedGroups(next);
+  };
 
-    [newBeers[index], newBeers[targetIndex]] = [newBeers[targetIndex], newBeers[index]];
+  const openMerge = (target: Beer) => {
+    setMerge({
+      beers: [target, ...beers.filter(beer => beer.id !== target.id)],
+      targetId: target.id,
+      sourceIds: beers.filter(beer => beer.id !== target.id && areLikelyDuplicates(target, beer)).map(beer => beer.id)
+    });
+  };
 
-    const updates = newBeers.map((beer, i) => 
-      supabase.from('beers').update({ sort_order: i }).eq('id', beer.id)
-    );
+  const handleMerged = () => {
+    setMerge(null);
+    loadBeers();
+  };
 
+  const handleReorder = async (reordered: Beer[]) => {
+    const previous = beers;
+    // Archived beers follow the active ones so the whole list gets a consistent sort_order
+    const next = [...reordered, ...archivedBeers].map((beer, index) => ({ ...beer, sort_order: index }));
+
+    setBeers(next);
+    setReorderError('');
     try {
-      await Promise.all(updates);
-      setBeers(newBeers);
+      await beerRepository.reorder(next.map(beer => beer.id));
     } catch (error) {
       console.error('Error reordering beers:', error);
-      // Optionally revert state on error
+      setBeers(previous);
+      setReorderError('순서를 저장하지 못해 이전 순서로 되돌렸습니다.');
     }
   };
 
@@ -150,15 +280,28 @@ const BeersPage: React.FC = () => {
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">맥주 관리</h2>
         {!showForm && (
-          <button
-            onClick={() => setShowForm(true)}
-            className="bg-gradient-to-r from-primary to-secondary text-white p-3 rounded-full shadow-lg hover:shadow-xl transition-all duration-200 active:scale-95"
-          >
-            <Plus size={20} />
-          </button>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setScanning('add')}
+              className="bg-white text-primary-dark p-3 rounded-full shadow-lg hover:shadow-xl transition-all duration-200 active:scale-95"
+              title="바코드로 추가"
+            >
+              <ScanBarcode size={20} />
+            </button>
+            <button
+              onClick={() => setShowForm(true)}
+              className="bg-gradient-to-r from-primary to-secondary text-white p-3 rounded-full shadow-lg hover:shadow-xl transition-all duration-200 active:scale-95"
+            >
+              <Plus size={20} />
+            </button>
+          </div>
         )}
       </div>
 
+      {scanMessage && (
+        <p className="text-sm text-primary-dark bg-blue-50 p-3 rounded-lg">{scanMessage}</p>
+      )}
+
       {showForm && (
         <div className="bg-white rounded-xl p-6 shadow-lg">
           <div className="flex justify-between items-center mb-4">
@@ -181,11 +324,40 @@ const BeersPage: React.FC = () => {
               <input
                 type="text"
                 value={formData.name}
-                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                onChange={(e) => {
+                  setFormData({ ...formData, name: e.target.value });
+                  setShowSuggestions(!editingBeer);
+                }}
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
                 placeholder="예: 하이네켄"
+                autoComplete="off"
                 required
               />
+              {suggestions.length > 0 && (
+                <div className="mt-2 border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {suggestions.map(beer => (
+                    <div key={beer.id} className="p-3">
+                      <p className="text-sm font-medium text-gray-900">{beer.name}</p>
+                      <p className="text-xs text-gray-500 mb-2">
+                        {[beer.brewery, beer.style, `${beer.alcohol_percentage}%`].filter(Boolean).join(' · ')}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {beer.servings.map(serving => (
+                          <button
+                            key={`${serving.type}-${serving.volume}`}
+                            type="button"
+                            onClick={() => handlePickServing(beer, serving)}
+                            className="px-3 py-1 bg-blue-50 text-primary-dark text-xs rounded-full hover:bg-blue-100 transition-colors"
+                          >
+                            {servingLabel(serving)}
+                            {isRegistered(beer, serving) && <span className="ml-1 text-gray-400">등록됨</span>}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -195,13 +367,12 @@ const BeersPage: React.FC = () => {
                 </label>
                 <select
                   value={formData.type}
-                  onChange={(e) => setFormData({ ...formData, type: e.target.value as any })}
+                  onChange={(e) => setFormData({ ...formData, type: e.target.value as BeerType })}
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
                 >
-                  <option value="캔">캔</option>
-                  <option value="생">생</option>
-                  <option value="병">병</option>
-                  <option value="기타">기타</option>
+                  {BEER_TYPES.map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
                 </select>
               </div>
 
@@ -221,21 +392,189 @@ const BeersPage: React.FC = () => {
               </div>
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  알코올 도수 (%)
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={formData.alcohol_percentage}
+                  onChange={(e) => setFormData({ ...formData, alcohol_percentage: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                  placeholder="5.0"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  가격 (원/잔)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="100"
+                  value={formData.price}
+                  onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                  placeholder="선택"
+                />
+              </div>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                알코올 도수 (%)
+                제조사
               </label>
               <input
-                type="number"
-                step="0.1"
-                value={formData.alcohol_percentage}
-                onChange={(e) => setFormData({ ...formData, alcohol_percentage: e.target.value })}
+                type="text"
+                value={formData.brewery}
+                onChange={(e) => setFormData({ ...formData, brewery: e.target.value })}
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
-                placeholder="5.0"
-                required
+                placeholder="예: 하이네켄 인터내셔널"
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                바코드
+              </label>
+              <div className="flex flex-wrap items-center gap-2">
+                {formData.barcodes.map(code => (
+                  <span key={code} className="inline-flex items-center px-3 py-1 bg-gray-100 text-gray-700 text-xs rounded-full">
+                    {code}
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, barcodes: formData.barcodes.filter(value => value !== code) })}
+                      className="ml-1 text-gray-400 hover:text-gray-600"
+                    >
+                      <X size={12} />
+                    </button>
+                  </span>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setScanning('attach')}
+                  className="inline-flex items-center px-3 py-1 border border-gray-300 text-gray-600 text-xs rounded-full hover:bg-gray-50 transition-colors"
+                >
+                  <ScanBarcode size={14} className="mr-1" /> 바코드 연결
+                </button>
+              </div>
+            </div>
+
+            <button
+              type="button"
+              onClick={() => setShowDetails(!showDetails)}
+              className="flex items-center text-sm font-medium text-gray-600 hover:text-primary-dark"
+            >
+              {showDetails ? <ChevronUp size={16} className="mr-1" /> : <ChevronDown size={16} className="mr-1" />}
+              상세 정보 (스타일, 원산지, IBU, 칼로리, 평점, 메모)
+            </button>
+
+            {showDetails && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      스타일
+                    </label>
+                    <select
+                      value={formData.style}
+                      onChange={(e) => setFormData({ ...formData, style: e.target.value as BeerStyle | '' })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                    >
+                      <option value="">선택 안 함</option>
+                      {BEER_STYLES.map(style => (
+                        <option key={style} value={style}>{style}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      원산지
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.country}
+                      onChange={(e) => setFormData({ ...formData, country: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                      placeholder="예: 네덜란드"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      IBU (쓴맛 지수)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={formData.ibu}
+                      onChange={(e) => setFormData({ ...formData, ibu: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                      placeholder="20"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      칼로리 (kcal/잔)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={formData.calories}
+                      onChange={(e) => setFormData({ ...formData, calories: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                      placeholder={formData.volume && formData.alcohol_percentage
+                        ? `추정 ${Math.round(estimateCalories(parseFloat(formData.volume), parseFloat(formData.alcohol_percentage)))}`
+                        : '비우면 자동 추정'}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    평점
+                  </label>
+                  <StarRating value={formData.rating} onChange={(rating) => setFormData({ ...formData, rating })} />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    테이스팅 노트
+                  </label>
+                  <textarea
+                    value={formData.tasting_notes}
+                    onChange={(e) => setFormData({ ...formData, tasting_notes: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                    rows={3}
+                    placeholder="향, 맛, 바디감, 피니시 등"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    메모
+                  </label>
+                  <textarea
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                    rows={3}
+                    placeholder="맛, 구입처 등 자유롭게 적어주세요"
+                  />
+                </div>
+              </>
+            )}
+
             <div className="flex space-x-3">
               <button
                 type="submit"
@@ -256,8 +595,36 @@ const BeersPage: React.FC = () => {
         </div>
       )}
 
+      {duplicateGroups.length > 0 && !showForm && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 space-y-3">
+          <h3 className="font-semibold text-amber-800 flex items-center">
+            <GitMerge size={18} className="mr-2" /> 중복으로 보이는 맥주
+          </h3>
+          {duplicateGroups.map(group => (
+            <div key={groupKey(group)} className="flex items-center justify-between space-x-2">
+              <p className="text-sm text-amber-900 flex-1">
+                {group.map(beer => `${beer.name} (${beer.volume}ml)`).join(', ')}
+              </p>
+              <button
+                onClick={() => setMerge({ beers: group, targetId: group[0].id, sourceIds: group.slice(1).map(beer => beer.id) })}
+                className="px-3 py-1 bg-white border border-amber-300 text-amber-800 text-sm rounded-lg hover:bg-amber-100 transition-colors"
+              >
+                병합
+              </button>
+              <button
+                onClick={() => dismissGroup(group)}
+                className="p-1 text-amber-700 hover:bg-amber-100 rounded-lg transition-colors"
+                title="중복 아님"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="space-y-3">
-        {beers.length === 0 ? (
+        {activeBeers.length === 0 ? (
           <div className="text-center py-12">
             <div className="w-16 h-16 bg-blue-50 rounded-full flex items-center justify-center mx-auto mb-4">
               <Plus size={24} className="text-gray-400" />
@@ -271,47 +638,138 @@ const BeersPage: React.FC = () => {
             </button>
           </div>
         ) : (
-          beers.map((beer, index) => (
-            <div key={beer.id} className="bg-white rounded-xl p-4 shadow-md">
-              <div className="flex items-center space-x-4">
-                <div className="flex flex-col items-center">
-                  <button onClick={() => moveBeer(index, 'up')} disabled={index === 0} className="p-1 disabled:opacity-30">
-                    <ArrowUp size={16} />
-                  </button>
-                  <button onClick={() => moveBeer(index, 'down')} disabled={index === beers.length - 1} className="p-1 disabled:opacity-30">
-                    <ArrowDown size={16} />
-                  </button>
-                </div>
-                
-                <div className="flex-1">
-                  <h3 className="font-semibold text-gray-900">
-                    {beer.name}{' '}
-                    <span className="text-sm text-gray-500">({beer.type})</span>
-                  </h3>
-                  <p className="text-sm text-gray-600">
-                    {beer.type} · {beer.volume}ml · {beer.alcohol_percentage}%
-                  </p>
-                </div>
-
-                <div className="flex space-x-2">
-                  <button
-                    onClick={() => handleEdit(beer)}
-                    className="p-2 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors"
-                  >
-                    <Edit2 size={16} />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(beer.id)}
-                    className="p-2 hover:bg-red-50 text-red-600 rounded-lg transition-colors"
+          <SortableList
+            className="space-y-3"
+            items={activeBeers}
+            getKey={beer => beer.id}
+            getLabel={beer => beer.name}
+            onReorder={handleReorder}
+            renderItem={(beer, handleProps, dragging) => (
+              <div className={`bg-white rounded-xl p-4 transition-shadow ${dragging ? 'shadow-xl ring-2 ring-primary' : 'shadow-md'}`}>
+                <div className="flex items-center space-x-4">
+                  <div
+                    {...handleProps}
+                    className="p-1 -ml-1 text-gray-400 hover:text-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-primary"
                   >
-                    <Trash2 size={16} />
-                  </button>
+                    <GripVertical size={20} />
+                  </div>
+
+                  <div className="flex-1">
+                    <h3 className="font-semibold text-gray-900">
+                      <button onClick={() => navigate(`/beers/${beer.id}`)} className="hover:text-primary-dark">
+                        {beer.name}
+                      </button>{' '}
+                      <span className="text-sm text-gray-500">({beer.type})</span>
+                    </h3>
+                    <p className="text-sm text-gray-600">
+                      {[beer.brewery, beer.style, `${beer.volume}ml`, `${beer.alcohol_percentage}%`, beer.price !== null ? formatWon(beer.price) : null]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </p>
+                    {beer.rating !== null && <StarRating value={beer.rating} size="sm" />}
+                  </div>
+
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleEdit(beer)}
+                      className="p-2 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors"
+                    >
+                      <Edit2 size={16} />
+                    </button>
+                    <button
+                      onClick={() => openMerge(beer)}
+                      className="p-2 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors"
+                      title="병합"
+                    >
+                      <GitMerge size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleArchive(beer, true)}
+                      className="p-2 hover:bg-gray-100 text-gray-600 rounded-lg transition-colors"
+                      title="보관"
+                    >
+                      <Archive size={16} />
+                    </button>
+                  </div>
                 </div>
               </div>
-            </div>
-          ))
+            )}
+          />
         )}
       </div>
+
+      {reorderError && (
+        <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">{reorderError}</p>
+      )}
+
+      {archivedBeers.length > 0 && (
+        <div className="space-y-3">
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className="w-full flex items-center justify-between text-sm font-medium text-gray-600 px-1"
+          >
+            <span>보관된 맥주 ({archivedBeers.length})</span>
+            {showArchived ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+          </button>
+
+          {showArchived && (
+            <>
+              <p className="text-xs text-gray-500 px-1">보관된 맥주는 기록 화면에 표시되지 않지만 지난 기록과 통계에는 남아 있습니다.</p>
+              {archivedBeers.map(beer => (
+                <div key={beer.id} className="bg-white/70 rounded-xl p-4 shadow-sm">
+                  <div className="flex items-center space-x-4">
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-500">
+                        <button onClick={() => navigate(`/beers/${beer.id}`)} className="hover:text-gray-700">
+                          {beer.name}
+                        </button>{' '}
+                        <span className="text-sm text-gray-400">({beer.type})</span>
+                      </h3>
+                      <p className="text-sm text-gray-400">
+                        {beer.volume}ml · {beer.alcohol_percentage}%
+                      </p>
+                    </div>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleArchive(beer, false)}
+                        className="p-2 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors"
+                        title="복원"
+                      >
+                        <ArchiveRestore size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(beer)}
+                        className="p-2 hover:bg-red-50 text-red-600 rounded-lg transition-colors"
+                        title="완전 삭제"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
+      {scanning && (
+        <BarcodeScannerDialog
+          title={scanning === 'add' ? '바코드로 맥주 추가' : '바코드 연결'}
+          onDetected={handleScanned}
+          onClose={() => setScanning(null)}
+        />
+      )}
+
+      {merge && (
+        <MergeBeersDialog
+          beers={merge.beers}
+          initialTargetId={merge.targetId}
+          initialSourceIds={merge.sourceIds}
+          onClose={() => setMerge(null)}
+          onMerged={handleMerged}
+        />
+      )}
     </div>
   );
 };
@@ -1,66 +1,79 @@
 import React, { useState, useEffect } from 'react';
-import { BarChart3, Beer, Calendar, TrendingUp } from 'lucide-react';
+import { BarChart3, Beer, Calendar, Percent, TrendingUp } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
+import { beerRepository, consumptionRepository } from '../repositories';
 import { useAuth } from '../contexts/AuthContext';
-import { format, startOfMonth, endOfMonth } from 'date-fns';
+import { useSettings } from '../contexts/SettingsContext';
+import { beerAlcoholGrams, formatGrams, formatStandardDrinks } from '../lib/alcoholUnits';
+import { drinkingDay, toDateString } from '../lib/dates';
+import { hasLimits, limitStatuses, limitWindow, periodRange } from '../lib/limits';
+import { spending } from '../lib/spending';
+import BacCard from '../components/BacCard';
+import BudgetCard from '../components/BudgetCard';
+import LimitProgress from '../components/LimitProgress';
+import QuickLogCard from '../components/QuickLogCard';
+import StreakCard from '../components/StreakCard';
+import { ConsumptionRecordWithBeer, Streaks } from '../types';
+import { format } from 'date-fns';
 import { ko } from 'date-fns/locale';
 
 const HomePage: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { settings } = useSettings();
   const [stats, setStats] = useState({
     totalBeers: 0,
     thisMonthConsumption: 0,
+    thisMonthAlcohol: 0,
+    thisMonthSpent: 0,
     totalConsumption: 0,
     averageDaily: 0
   });
+  const [streaks, setStreaks] = useState<Streaks | null>(null);
+  const [limitRecords, setLimitRecords] = useState<ConsumptionRecordWithBeer[]>([]);
   const [loading, setLoading] = useState(true);
+  // Bumped whenever a card logs a glass so the other cards pick it up too
+  const [drinksVersion, setDrinksVersion] = useState(0);
 
   useEffect(() => {
     if (user) {
       loadStats();
     }
-  }, [user]);
+  }, [user, settings.day_start_hour]);
 
-  const loadStats = async () => {
+  // Refreshes after a change made on this page keep the cards mounted instead of showing the skeleton
+  const loadStats = async (showSkeleton = true) => {
     try {
-      setLoading(true);
+      if (showSkeleton) setLoading(true);
       
-      const { count: beersCount } = await supabase
-        .from('beers')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', user!.id);
-
-      const now = new Date();
-      const monthStart = startOfMonth(now);
-      const monthEnd = endOfMonth(now);
-
-      const { data: monthlyData } = await supabase
-        .from('consumption_records')
-        .select('quantity')
-        .eq('user_id', user!.id)
-        .gte('date', format(monthStart, 'yyyy-MM-dd'))
-        .lte('date', format(monthEnd, 'yyyy-MM-dd'));
-
-      const thisMonthTotal = monthlyData?.reduce((sum, record) => sum + record.quantity, 0) || 0;
-
-      const { data: totalData } = await supabase
-        .from('consumption_records')
-        .select('quantity')
-        .eq('user_id', user!.id);
-
-      const totalConsumption = totalData?.reduce((sum, record) => sum + record.quantity, 0) || 0;
-
+      // Before the day start hour it is still last night, which may even be last month
+      const now = drinkingDay(new Date(), settings.day_start_hour);
+      const month = periodRange('month', now);
+
+      // The window also covers the current week, which may start in the previous month
+      const [beersCount, windowRecords, totalConsumption, streakCounts] = await Promise.all([
+        beerRepository.count(user!.id),
+        consumptionRepository.listWithBeers(user!.id, limitWindow(now)),
+        consumptionRepository.sumQuantity(user!.id),
+        consumptionRepository.streaks(user!.id, toDateString(now))
+      ]);
+
+      const thisMonthRecords = windowRecords.filter(record => record.date >= month.start && record.date <= month.end);
+      const thisMonthTotal = thisMonthRecords.reduce((sum, record) => sum + record.quantity, 0);
+      const thisMonthAlcohol = thisMonthRecords.reduce((sum, record) => sum + beerAlcoholGrams(record.beer, record.quantity), 0);
       const daysInMonth = now.getDate();
       const averageDaily = thisMonthTotal / daysInMonth;
 
       setStats({
-        totalBeers: beersCount || 0,
+        totalBeers: beersCount,
         thisMonthConsumption: thisMonthTotal,
+        thisMonthAlcohol,
+        thisMonthSpent: spending(thisMonthRecords).total,
         totalConsumption,
         averageDaily: Math.round(averageDaily * 100) / 100
       });
+      setLimitRecords(windowRecords);
+      setStreaks(streakCounts);
     } catch (error) {
       console.error('Error loading stats:', error);
     } finally {
@@ -68,6 +81,11 @@ const HomePage: React.FC = () => {
     }
   };
 
+  const handleDrinkLogged = () => {
+    setDrinksVersion(version => version + 1);
+    loadStats(false);
+  };
+
   const quickActions = [
     {
       icon: Beer,
@@ -125,6 +143,42 @@ const HomePage: React.FC = () => {
         <StatCard icon={BarChart3} label="일평균" value={`${stats.averageDaily}잔`} color="bg-blue-500" />
       </div>
 
+      <QuickLogCard refreshKey={drinksVersion} onLogged={handleDrinkLogged} />
+
+      <BacCard refreshKey={drinksVersion} onDrinkAdded={handleDrinkLogged} />
+
+      {streaks && <StreakCard streaks={streaks} />}
+
+      {hasLimits(settings) ? (
+        <LimitProgress statuses={limitStatuses(settings, limitRecords, drinkingDay(new Date(), settings.day_start_hour))} settings={settings} />
+      ) : (
+        <button
+          onClick={() => navigate('/settings')}
+          className="w-full p-4 bg-white rounded-xl shadow-md text-left text-sm text-gray-600 hover:shadow-lg transition-all"
+        >
+          주간·월간 음주 한도를 설정하면 여기에서 진행 상황을 확인할 수 있습니다. <span className="text-primary font-medium">한도 설정하기 →</span>
+        </button>
+      )}
+
+      {settings.monthly_budget !== null && (
+        <BudgetCard spent={stats.thisMonthSpent} budget={settings.monthly_budget} />
+      )}
+
+      <div className="bg-white rounded-xl p-4 shadow-md">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-indigo-500 rounded-lg">
+            <Percent className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">이번 달 알코올 섭취량</p>
+            <p className="text-xl font-bold text-gray-900">
+              {formatStandardDrinks(stats.thisMonthAlcohol, settings.drink_standard)}
+              <span className="ml-2 text-sm font-normal text-gray-500">{formatGrams(stats.thisMonthAlcohol)}</span>
+            </p>
+          </div>
+        </div>
+      </div>
+
       <div>
         <h3 className="text-lg font-semibold text-gray-900 mb-4">빠른 실행</h3>
         <div className="space-y-3">
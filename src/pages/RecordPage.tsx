@@ -1,75 +1,139 @@
 import React, { useState, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { CalendarDays, Save, Trash2 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { AlertTriangle, CalendarDays, Leaf, MessageSquare, Pin, Save, ScanBarcode, Search } from 'lucide-react';
+import { beerRepository, consumptionRepository, dryDayRepository, SaveConflictError, versionSnapshot } from '../repositories';
 import { useAuth } from '../contexts/AuthContext';
-import { Beer, ConsumptionRecord } from '../types';
-import { format, isValid, parseISO } from 'date-fns';
+import { useSettings } from '../contexts/SettingsContext';
+import { beerAlcoholGrams, formatGrams, formatStandardDrinks } from '../lib/alcoholUnits';
+import { findBeerByBarcode } from '../lib/barcode';
+import { beerCalories, formatKcal } from '../lib/calories';
+import { drinkingDate, parseDateString, toDateString } from '../lib/dates';
+import { formatLimitAmount, hasLimits, LIMIT_NAMES, limitStatuses, limitWindow } from '../lib/limits';
+import { clearDryMark, withoutTime } from '../lib/quickLog';
+import { timestampFor } from '../lib/sessions';
+import { BEER_ORDER_LABELS, BeerOrder, orderBeers, searchBeers, SUGGESTION_LOOKBACK_DAYS } from '../lib/suggestions';
+import { formatWon, spending } from '../lib/spending';
+import BarcodeScannerDialog from '../components/BarcodeScannerDialog';
+import SessionTimeline from '../components/SessionTimeline';
+import StarRating from '../components/StarRating';
+import { Beer, BEER_TYPES, BeerType, ConsumptionRecord, ConsumptionRecordWithBeer } from '../types';
+import { parseISO, subDays } from 'date-fns';
+
+interface EntryDetails {
+  note: string;
+  rating: number | null;
+  /** Price per glass paid that day; empty falls back to the beer's usual price */
+  price: string;
+}
+
+const EMPTY_DETAILS: EntryDetails = { note: '', rating: null, price: '' };
+
+// Beers listed before "더보기" when not searching; beers with a quantity entered are always listed
+const PREVIEW_COUNT = 5;
 
 const RecordPage: React.FC = () => {
   const { user } = useAuth();
+  const { settings } = useSettings();
   const [searchParams] = useSearchParams();
   const dateFromUrl = searchParams.get('date');
   
+  // Without a date in the URL, open the drinking day that is still going on, so 1am is last night
   const getInitialDate = () => {
     if (dateFromUrl) {
-      const parsedDate = parseISO(dateFromUrl);
-      if (isValid(parsedDate)) {
-        return format(parsedDate, 'yyyy-MM-dd');
+      const parsedDate = parseDateString(dateFromUrl);
+      if (parsedDate) {
+        return toDateString(parsedDate);
       }
     }
-    return format(new Date(), 'yyyy-MM-dd');
+    return drinkingDate(new Date(), settings.day_start_hour);
   };
 
   const [selectedDate, setSelectedDate] = useState(getInitialDate());
   const [beers, setBeers] = useState<Beer[]>([]);
   const [records, setRecords] = useState<{ [key: string]: number }>({});
+  const [timestamps, setTimestamps] = useState<{ [key: string]: string[] }>({});
+  const [details, setDetails] = useState<{ [key: string]: EntryDetails }>({});
+  const [openDetails, setOpenDetails] = useState<string | null>(null);
   const [existingRecords, setExistingRecords] = useState<ConsumptionRecord[]>([]);
+  const [isDryDay, setIsDryDay] = useState(false);
+  const [windowRecords, setWindowRecords] = useState<ConsumptionRecordWithBeer[]>([]);
+  const [history, setHistory] = useState<ConsumptionRecord[]>([]);
+  const [query, setQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<BeerType | null>(null);
+  const [order, setOrder] = useState<BeerOrder>('suggested');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [showAll, setShowAll] = useState(false);
+  const [conflict, setConflict] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [scanMessage, setScanMessage] = useState('');
 
   useEffect(() => {
     if (user) {
+      setConflict(false);
+      setScanMessage('');
       loadBeers();
       loadRecords();
+      loadHistory();
     }
   }, [user, selectedDate]);
 
+  useEffect(() => {
+    if (user) {
+      loadWindowRecords();
+    }
+  }, [user, selectedDate, settings]);
+
+  // Settings usually arrive after the first render, when the default date used the default day start
+  useEffect(() => {
+    if (!dateFromUrl) setSelectedDate(drinkingDate(new Date(), settings.day_start_hour));
+  }, [dateFromUrl, settings.day_start_hour]);
+
   const loadBeers = async () => {
     try {
-      const { data, error } = await supabase
-        .from('beers')
-        .select('*')
-        .eq('user_id', user!.id)
-        .order('sort_order', { ascending: true });
-
-      if (error) throw error;
-      setBeers(data || []);
+      setBeers(await beerRepository.list(user!.id));
     } catch (error) {
       console.error('Error loading beers:', error);
     }
   };
 
+  // What was drunk in the weeks before the selected day, behind the suggested order
+  const loadHistory = async () => {
+    try {
+      const day = parseISO(selectedDate);
+      setHistory(await consumptionRepository.listWithBeers(user!.id, {
+        start: toDateString(subDays(day, SUGGESTION_LOOKBACK_DAYS)),
+        end: toDateString(subDays(day, 1))
+      }));
+    } catch (error) {
+      console.error('Error loading history:', error);
+    }
+  };
+
   const loadRecords = async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('consumption_records')
-        .select('*')
-        .eq('user_id', user!.id)
-        .eq('date', selectedDate);
-
-      if (error) throw error;
+      const [data, dryDates] = await Promise.all([
+        consumptionRepository.listByDate(user!.id, selectedDate),
+        dryDayRepository.list(user!.id, { start: selectedDate, end: selectedDate })
+      ]);
       
-      setExistingRecords(data || []);
+      setExistingRecords(data);
+      setIsDryDay(dryDates.length > 0);
       
       // Convert to records object for form
       const recordsObj: { [key: string]: number } = {};
-      data?.forEach(record => {
+      const timestampsObj: { [key: string]: string[] } = {};
+      const detailsObj: { [key: string]: EntryDetails } = {};
+      data.forEach(record => {
         recordsObj[record.beer_id] = record.quantity;
+        timestampsObj[record.beer_id] = [...record.consumed_at].sort();
+        detailsObj[record.beer_id] = { note: record.note ?? '', rating: record.rating, price: record.price?.toString() ?? '' };
       });
       setRecords(recordsObj);
+      setTimestamps(timestampsObj);
+      setDetails(detailsObj);
+      setOpenDetails(null);
     } catch (error) {
       console.error('Error loading records:', error);
     } finally {
@@ -77,55 +141,129 @@ const RecordPage: React.FC = () => {
     }
   };
 
+  // Records of the surrounding week and month, used to warn before a limit is exceeded
+  const loadWindowRecords = async () => {
+    if (!hasLimits(settings)) {
+      setWindowRecords([]);
+      return;
+    }
+    try {
+      setWindowRecords(await consumptionRepository.listWithBeers(user!.id, limitWindow(parseISO(selectedDate))));
+    } catch (error) {
+      console.error('Error loading records for limits:', error);
+    }
+  };
+
   const handleQuantityChange = (beerId: string, quantity: string) => {
     const qty = quantity === '' ? 0 : parseFloat(quantity);
     setRecords(prev => ({
       ...prev,
       [beerId]: qty
     }));
+    // Lowering the quantity drops the latest timed glasses that no longer fit
+    setTimestamps(prev => ({
+      ...prev,
+      [beerId]: (prev[beerId] ?? []).slice(0, Math.ceil(qty || 0))
+    }));
+  };
+
+  const handleAddTimed = (beerId: string, time: string) => {
+    setRecords(prev => ({ ...prev, [beerId]: (prev[beerId] || 0) + 1 }));
+    setTimestamps(prev => ({ ...prev, [beerId]: [...prev[beerId] ?? [], timestampFor(selectedDate, time, settings.day_start_hour)].sort() }));
+  };
+
+  const handleRemoveTimed = (beerId: string, at: string) => {
+    setRecords(prev => ({ ...prev, [beerId]: Math.max((prev[beerId] || 0) - 1, 0) }));
+    setTimestamps(prev => ({ ...prev, [beerId]: withoutTime(prev[beerId] ?? [], at) }));
+  };
+
+  // Only the user's own beers resolve here; the catalog is for adding beers on the beers page
+  const handleScanned = (code: string) => {
+    setScanning(false);
+    const match = findBeerByBarcode(code, beers);
+    if (!match) {
+      setScanMessage(`등록된 맥주에 연결되지 않은 바코드(${code})입니다. 맥주 관리에서 맥주에 바코드를 연결해주세요.`);
+      return;
+    }
+    if (!visibleBeers.some(beer => beer.id === match.id)) {
+      setScanMessage(`'${match.name}'은(는) 보관된 맥주입니다. 맥주 관리에서 복원 후 기록해주세요.`);
+      return;
+    }
+    handleQuantityChange(match.id, String((records[match.id] || 0) + 1));
+    setQuery('');
+    setTypeFilter(null);
+    setShowAll(true);
+    setScanMessage(`'${match.name}' 1잔을 추가했습니다. 저장을 눌러 기록하세요.`);
+  };
+
+  const handleTogglePin = async (beer: Beer) => {
+    const pinnedAt = beer.pinned_at ? null : new Date().toISOString();
+    try {
+      await beerRepository.setPinned(beer.id, pinnedAt !== null);
+      setBeers(prev => prev.map(candidate => candidate.id === beer.id ? { ...candidate, pinned_at: pinnedAt } : candidate));
+    } catch (error) {
+      console.error('Error pinning beer:', error);
+    }
+  };
+
+  const handleDetailsChange = (beerId: string, patch: Partial<EntryDetails>) => {
+    setDetails(prev => ({
+      ...prev,
+      [beerId]: { ...(prev[beerId] ?? EMPTY_DETAILS), ...patch }
+    }));
+  };
+
+  const priceOverride = (beerId: string) => {
+    const price = details[beerId]?.price;
+    return price ? parseFloat(price) : null;
   };
 
   const handleSave = async () => {
     try {
       setSaving(true);
+      setConflict(false);
 
-      // Delete existing records for this date
-      if (existingRecords.length > 0) {
-        const { error: deleteError } = await supabase
-          .from('consumption_records')
-          .delete()
-          .eq('user_id', user!.id)
-          .eq('date', selectedDate);
+      // Snapshot of what this page loaded; the save is rejected if the day changed since
+      const expected = versionSnapshot(existingRecords);
 
-        if (deleteError) throw deleteError;
-      }
-
-      // Insert new records
-      const recordsToInsert = Object.entries(records)
-        .filter(([_, quantity]) => quantity > 0)
+      const payload = Object.entries(records)
+        .filter(([, quantity]) => quantity > 0)
         .map(([beerId, quantity]) => ({
-          date: selectedDate,
           beer_id: beerId,
           quantity,
-          user_id: user!.id
+          consumed_at: timestamps[beerId] ?? [],
+          note: details[beerId]?.note || null,
+          rating: details[beerId]?.rating ?? null,
+          price: priceOverride(beerId)
         }));
 
-      if (recordsToInsert.length > 0) {
-        const { error: insertError } = await supabase
-          .from('consumption_records')
-          .insert(recordsToInsert);
-
-        if (insertError) throw insertError;
+      await consumptionRepository.saveDay(user!.id, selectedDate, payload, expected);
+      if (payload.length > 0) {
+        await clearDryMark(user!.id, selectedDate);
       }
-
       loadRecords();
+      loadWindowRecords();
     } catch (error) {
-      console.error('Error saving records:', error);
+      if (error instanceof SaveConflictError) {
+        setConflict(true);
+        loadRecords();
+      } else {
+        console.error('Error saving records:', error);
+      }
     } finally {
       setSaving(false);
     }
   };
 
+  const handleToggleDryDay = async () => {
+    try {
+      await dryDayRepository.set(user!.id, selectedDate, !isDryDay);
+      setIsDryDay(!isDryDay);
+    } catch (error) {
+      console.error('Error updating dry day:', error);
+    }
+  };
+
   const getTotalQuantity = () => {
     return Object.values(records).reduce((sum, qty) => sum + (qty || 0), 0);
   };
@@ -134,12 +272,52 @@ const RecordPage: React.FC = () => {
     return Object.entries(records).reduce((sum, [beerId, quantity]) => {
       const beer = beers.find(b => b.id === beerId);
       if (beer && quantity > 0) {
-        return sum + (beer.volume * beer.alcohol_percentage * quantity / 100);
+        return sum + beerAlcoholGrams(beer, quantity);
       }
       return sum;
     }, 0);
   };
 
+  const getTotalCalories = () => {
+    return Object.entries(records).reduce((sum, [beerId, quantity]) => {
+      const beer = beers.find(b => b.id === beerId);
+      return beer && quantity > 0 ? sum + beerCalories(beer, quantity) : sum;
+    }, 0);
+  };
+
+  const getTotalSpent = () => {
+    return spending(Object.entries(records).flatMap(([beerId, quantity]) => {
+      const beer = beers.find(b => b.id === beerId);
+      return beer && quantity > 0 ? [{ quantity, price: priceOverride(beerId), beer }] : [];
+    })).total;
+  };
+
+  // Limits exceeded once the quantities currently entered for this day are saved
+  const getExceededLimits = () => {
+    const entered = Object.entries(records).flatMap(([beerId, quantity]) => {
+      const beer = beers.find(b => b.id === beerId);
+      return beer && quantity > 0 ? [{ date: selectedDate, quantity, beer }] : [];
+    });
+    const otherDays = windowRecords.filter(record => record.date !== selectedDate);
+    return limitStatuses(settings, [...otherDays, ...entered], parseISO(selectedDate)).filter(status => status.exceeded);
+  };
+
+  const exceededLimits = getExceededLimits();
+
+  // Archived beers stay hidden unless this day already has a record for them
+  const visibleBeers = beers.filter(beer =>
+    !beer.archived_at || existingRecords.some(record => record.beer_id === beer.id)
+  );
+
+  // The order only follows history loaded for the day, so rows don't jump around while typing
+  const filtering = query.trim() !== '' || typeFilter !== null;
+  const matchingBeers = searchBeers(orderBeers(visibleBeers, history, parseISO(selectedDate), order), query)
+    .filter(beer => !typeFilter || beer.type === typeFilter);
+  const shownBeers = showAll || filtering
+    ? matchingBeers
+    : matchingBeers.filter((beer, index) => index < PREVIEW_COUNT || records[beer.id] > 0);
+  const availableTypes = BEER_TYPES.filter(type => visibleBeers.some(beer => beer.type === type));
+
   if (loading) {
     return (
       <div className="p-4">
@@ -157,7 +335,16 @@ const RecordPage: React.FC = () => {
   return (
     <div className="p-4 space-y-6">
       <div>
-        <h2 className="text-2xl font-bold text-gray-900 mb-4">소비 기록</h2>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-gray-900">소비 기록</h2>
+          <button
+            onClick={() => setScanning(true)}
+            className="bg-white text-primary-dark p-3 rounded-full shadow-lg hover:shadow-xl transition-all duration-200 active:scale-95"
+            title="바코드로 기록"
+          >
+            <ScanBarcode size={20} />
+          </button>
+        </div>
         
         <div className="bg-white rounded-xl p-4 shadow-md">
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -175,27 +362,116 @@ const RecordPage: React.FC = () => {
         </div>
       </div>
 
-      {beers.length === 0 ? (
+      {scanMessage && (
+        <p className="text-sm text-primary-dark bg-blue-50 p-3 rounded-lg">{scanMessage}</p>
+      )}
+
+      {isDryDay ? (
+        <div className="flex items-center justify-between p-4 bg-green-50 border border-green-200 rounded-xl">
+          <div className="flex items-center space-x-3">
+            <Leaf className="w-5 h-5 text-green-600" />
+            <div>
+              <p className="font-medium text-green-700">술을 마시지 않은 날</p>
+              {getTotalQuantity() > 0 && (
+                <p className="text-xs text-green-600">기록을 저장하면 금주일 표시가 해제됩니다.</p>
+              )}
+            </div>
+          </div>
+          <button onClick={handleToggleDryDay} className="text-sm text-green-700 hover:text-green-900 underline">
+            표시 해제
+          </button>
+        </div>
+      ) : existingRecords.length === 0 && getTotalQuantity() === 0 && (
+        <button
+          onClick={handleToggleDryDay}
+          className="w-full flex items-center justify-center space-x-2 py-3 px-4 border border-green-300 text-green-700 rounded-xl font-medium hover:bg-green-50 transition-colors"
+        >
+          <Leaf size={18} />
+          <span>마시지 않은 날로 표시</span>
+        </button>
+      )}
+
+      {visibleBeers.length === 0 ? (
         <div className="text-center py-12">
           <p className="text-gray-500 mb-4">등록된 맥주가 없습니다</p>
           <p className="text-sm text-gray-400">먼저 맥주를 등록해주세요</p>
         </div>
       ) : (
         <>
+          <div className="bg-white rounded-xl p-4 shadow-md space-y-3">
+            <div className="relative">
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="w-full px-4 py-3 pl-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                placeholder="이름, 양조장, 스타일로 검색"
+              />
+              <Search className="absolute left-4 top-3.5 w-5 h-5 text-gray-400" />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex flex-wrap gap-2">
+                {[null, ...availableTypes].map(type => (
+                  <button
+                    key={type ?? 'all'}
+                    onClick={() => setTypeFilter(type)}
+                    className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${typeFilter === type ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                  >
+                    {type ?? '전체'}
+                  </button>
+                ))}
+              </div>
+              <div className="flex flex-shrink-0 bg-primary-light/20 rounded-lg p-1">
+                {(Object.keys(BEER_ORDER_LABELS) as BeerOrder[]).map(value => (
+                  <button
+                    key={value}
+                    onClick={() => setOrder(value)}
+                    className={`px-3 py-1 rounded text-sm font-medium transition-colors ${order === value ? 'bg-white text-primary-dark shadow-sm' : 'text-gray-600 hover:text-primary-dark'}`}
+                  >
+                    {BEER_ORDER_LABELS[value]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {matchingBeers.length === 0 && (
+            <p className="text-center text-sm text-gray-500 py-6">조건에 맞는 맥주가 없습니다</p>
+          )}
+
           <div className="space-y-3">
-            {(showAll ? beers : beers.slice(0, 3)).map((beer) => (
+            {shownBeers.map((beer) => (
               <div key={beer.id} className="bg-white rounded-xl p-4 shadow-md">
                 <div className="flex items-center justify-between">
                   <div className="flex-1">
                     <h3 className="font-semibold text-gray-900">
                       {beer.name}{' '}
                       <span className="text-sm text-gray-500">({beer.type})</span>
+                      {beer.archived_at && <span className="ml-1 text-xs text-gray-400">보관됨</span>}
                     </h3>
                     <p className="text-sm text-gray-600">
                       {beer.volume}ml · {beer.alcohol_percentage}%
                     </p>
                   </div>
                   <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => handleTogglePin(beer)}
+                      className={`p-2 rounded-lg transition-colors ${beer.pinned_at ? 'text-primary-dark bg-blue-50' : 'text-gray-300 hover:bg-gray-100'}`}
+                      title={beer.pinned_at ? '고정 해제' : '맨 위에 고정'}
+                    >
+                      <Pin size={16} />
+                    </button>
+                    {records[beer.id] > 0 && (
+                      <button
+                        onClick={() => setOpenDetails(openDetails === beer.id ? null : beer.id)}
+                        className={`p-2 rounded-lg transition-colors ${
+                          details[beer.id]?.note || details[beer.id]?.rating || details[beer.id]?.price ? 'text-primary-dark bg-blue-50' : 'text-gray-400 hover:bg-gray-100'
+                        }`}
+                        title="평점 · 메모 · 가격"
+                      >
+                        <MessageSquare size={16} />
+                      </button>
+                    )}
                     <span className="text-sm text-gray-500">잔</span>
                     <input
                       type="number"
@@ -208,19 +484,54 @@ const RecordPage: React.FC = () => {
                     />
                   </div>
                 </div>
+                {openDetails === beer.id && records[beer.id] > 0 && (
+                  <div className="mt-3 pt-3 border-t border-gray-100 space-y-2">
+                    <StarRating
+                      value={details[beer.id]?.rating ?? null}
+                      onChange={(rating) => handleDetailsChange(beer.id, { rating })}
+                    />
+                    <textarea
+                      value={details[beer.id]?.note ?? ''}
+                      onChange={(e) => handleDetailsChange(beer.id, { note: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                      rows={2}
+                      placeholder="어디서, 누구와, 어떤 맛이었는지"
+                    />
+                    <div className="flex items-center space-x-2">
+                      <label className="text-sm text-gray-600 whitespace-nowrap">이날 가격 (원/잔)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="100"
+                        value={details[beer.id]?.price ?? ''}
+                        onChange={(e) => handleDetailsChange(beer.id, { price: e.target.value })}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                        placeholder={beer.price !== null ? `기본 ${formatWon(beer.price)}` : '가격 미등록'}
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
             ))}
           </div>
 
-          {beers.length > 3 && !showAll && (
+          {shownBeers.length < matchingBeers.length && (
             <button
               onClick={() => setShowAll(true)}
               className="w-full bg-gray-200 text-gray-700 py-3 px-4 rounded-xl font-semibold hover:bg-gray-300 focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-all"
             >
-              더보기
+              더보기 ({matchingBeers.length - shownBeers.length}개)
             </button>
           )}
 
+          <SessionTimeline
+            key={selectedDate}
+            beers={visibleBeers}
+            timestamps={timestamps}
+            onAdd={handleAddTimed}
+            onRemove={handleRemoveTimed}
+          />
+
           {getTotalQuantity() > 0 && (
             <div className="bg-primary-light/20 rounded-xl p-4 border border-primary-light">
               <h4 className="font-semibold text-primary-dark mb-2">오늘의 총합</h4>
@@ -229,8 +540,42 @@ const RecordPage: React.FC = () => {
                   총 {getTotalQuantity()}잔
                 </p>
                 <p className="text-primary-dark">
-                  순알코올 약 {Math.round(getTotalAlcohol() * 100) / 100}ml
+                  알코올 약 {formatGrams(getTotalAlcohol())} · {formatStandardDrinks(getTotalAlcohol(), settings.drink_standard)}
+                </p>
+                <p className="text-primary-dark">
+                  칼로리 약 {formatKcal(getTotalCalories())}
                 </p>
+                {getTotalSpent() > 0 && (
+                  <p className="text-primary-dark">
+                    지출 {formatWon(getTotalSpent())}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {conflict && (
+            <div className="flex items-start space-x-3 p-4 bg-red-50 border border-red-200 rounded-xl">
+              <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-600">
+                다른 기기에서 이 날짜의 기록이 먼저 변경되어 저장하지 않았습니다.
+                최신 기록을 다시 불러왔으니 확인 후 다시 저장해주세요.
+              </p>
+            </div>
+          )}
+
+          {exceededLimits.length > 0 && (
+            <div className="flex items-start space-x-3 p-4 bg-amber-50 border border-amber-200 rounded-xl">
+              <AlertTriangle className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-amber-700">
+                <p className="font-medium">이대로 저장하면 음주 한도를 넘습니다.</p>
+                <ul className="mt-1 space-y-0.5">
+                  {exceededLimits.map(status => (
+                    <li key={status.period}>
+                      {LIMIT_NAMES[status.period]} {formatLimitAmount(status.limit, settings)} · 저장 후 {formatLimitAmount(status.amount, settings)}
+                    </li>
+                  ))}
+                </ul>
               </div>
             </div>
           )}
@@ -245,6 +590,10 @@ const RecordPage: React.FC = () => {
           </button>
         </>
       )}
+
+      {scanning && (
+        <BarcodeScannerDialog title="바코드로 기록" onDetected={handleScanned} onClose={() => setScanning(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,26 @@
+import React from 'react';
+import BacProfileSection from '../components/BacProfileSection';
+import BackupSection from '../components/BackupSection';
+import BudgetSection from '../components/BudgetSection';
+import DayStartSection from '../components/DayStartSection';
+import DrinkStandardSection from '../components/DrinkStandardSection';
+import ImportSection from '../components/ImportSection';
+import LimitsSection from '../components/LimitsSection';
+
+const SettingsPage: React.FC = () => {
+  return (
+    <div className="p-4 space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900">설정</h2>
+
+      <DrinkStandardSection />
+      <DayStartSection />
+      <LimitsSection />
+      <BudgetSection />
+      <BacProfileSection />
+      <BackupSection />
+      <ImportSection />
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -1,9 +1,22 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ChevronLeft, ChevronRight, Trophy, GlassWater, TrendingUp, CalendarDays, Percent, Sigma, Calendar as CalendarIcon } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { ChevronLeft, ChevronRight, Trophy, Star, GlassWater, TrendingUp, CalendarDays, Percent, Sigma, Factory, Leaf, Clock, Gauge, Wallet, Coins, Banknote, Flame, ArrowLeftRight, LineChart, BarChart3, Grid3x3, Calendar as CalendarIcon } from 'lucide-react';
+import { consumptionRepository, dryDayRepository } from '../repositories';
 import { useAuth } from '../contexts/AuthContext';
-import { ConsumptionRecord, Beer } from '../types';
+import { useSettings } from '../contexts/SettingsContext';
+import { formatGrams, formatStandardDrinks } from '../lib/alcoholUnits';
+import { formatKcal } from '../lib/calories';
+import { drinkingDay, parseDateString, toDateString } from '../lib/dates';
+import { formatLimitAmount, measureByDate } from '../lib/limits';
+import { formatDuration, SessionStats, sessionStats } from '../lib/sessions';
+import { PeriodBounds, formatRange, isSameRange, lastDays, percentChange, previousPeriod, RANGE_PRESETS, sameLastYear } from '../lib/periods';
+import { costPerGlass, costPerLiter, formatWon } from '../lib/spending';
+import { dailyIntake, TREND_LEAD_IN_DAYS, weekdayTotals, WEEKDAY_LABELS } from '../lib/trends';
+import BarChart from '../components/BarChart';
+import StarRating from '../components/StarRating';
+import TrendChart from '../components/TrendChart';
+import YearHeatmap from '../components/YearHeatmap';
+import { Beer, BeerTotal, DailyTotal, MonthlyTotal, SessionSpan } from '../types';
 import { 
   format, 
   startOfMonth, 
@@ -15,49 +28,185 @@ import {
   getYear,
   startOfYear,
   endOfYear,
-  getDay
+  getDay,
+  subDays,
+  min
 } from 'date-fns';
 import { ko } from 'date-fns/locale';
 
-interface MonthlyStats {
+interface MonthlyStats extends SessionStats {
   totalQuantity: number;
   totalVolume: number;
+  /** Grams of ethanol. */
   totalAlcohol: number;
   drinkingDays: number;
   maxInDay: number;
   avgPerDay: number;
+  maxAlcoholInDay: number;
+  avgAlcoholPerDay: number;
+  /** Kcal, estimated for beers without calories entered. */
+  totalCalories: number;
+  /** Won spent on glasses with a known price. */
+  totalSpent: number;
+  costPerGlass: number | null;
+  costPerLiter: number | null;
+  /** Beer with the highest price paid for one glass in the period. */
+  mostExpensive: { beer: Beer; price: number } | null;
   beerRanking: { beer: Beer; quantity: number; volume: number }[];
+  breweryRanking: GroupRankingItem[];
+  styleRanking: GroupRankingItem[];
+  topRated: RatedBeer[];
 }
 
+interface RatedBeer {
+  beer: Beer;
+  rating: number;
+  /** Rated records behind the score; 0 means the beer's own rating was used */
+  ratedCount: number;
+}
+
+interface GroupRankingItem {
+  name: string;
+  quantity: number;
+  volume: number;
+}
+
+const UNSPECIFIED = '미입력';
+
+interface ComparedMetric {
+  label: string;
+  value: (stats: MonthlyStats) => number | null;
+  format: (value: number) => string;
+}
+
+const COMPARED_METRICS: ComparedMetric[] = [
+  { label: '총 음주량', value: stats => stats.totalQuantity, format: value => `${value}잔` },
+  { label: '총 부피', value: stats => stats.totalVolume, format: value => `${(value / 1000).toFixed(2)} L` },
+  { label: '순수 알코올', value: stats => stats.totalAlcohol, format: formatGrams },
+  { label: '음주일', value: stats => stats.drinkingDays, format: value => `${value}일` },
+  { label: '하루 최대', value: stats => stats.maxInDay, format: value => `${value}잔` },
+  { label: '음주일 평균', value: stats => stats.avgPerDay, format: value => `${value.toFixed(1)}잔` },
+  { label: '칼로리', value: stats => stats.totalCalories, format: formatKcal },
+  { label: '지출', value: stats => stats.totalSpent, format: formatWon },
+  { label: '잔당 가격', value: stats => stats.costPerGlass, format: formatWon },
+  { label: '세션 수', value: stats => stats.sessionCount, format: value => `${value}회` },
+  { label: '평균 세션 길이', value: stats => stats.sessionCount > 0 ? stats.avgSessionMinutes : null, format: formatDuration },
+  { label: '음주 속도', value: stats => stats.drinksPerHour > 0 ? stats.drinksPerHour : null, format: value => `${value.toFixed(1)}잔/시간` }
+];
+
+/** What the stats of one period are worked out from: server-side aggregates rather than every record. */
+interface PeriodSummary {
+  days: DailyTotal[];
+  beers: BeerTotal[];
+  sessions: SessionSpan[];
+}
+
+const EMPTY_SUMMARY: PeriodSummary = { days: [], beers: [], sessions: [] };
+
+interface ComparisonSummaries {
+  previous: PeriodSummary;
+  /** Null when last year's period is the previous period itself, as for a whole year. */
+  lastYear: PeriodSummary | null;
+}
+
+const rankBy = (beers: BeerTotal[], groupOf: (beer: Beer) => string | null): GroupRankingItem[] => {
+  const groups = beers.reduce((acc, total) => {
+    const name = groupOf(total.beer) || UNSPECIFIED;
+    acc[name] = acc[name] || { name, quantity: 0, volume: 0 };
+    acc[name].quantity += total.glasses;
+    acc[name].volume += total.volume;
+    return acc;
+  }, {} as Record<string, GroupRankingItem>);
+
+  return Object.values(groups).sort((a, b) => b.quantity - a.quantity);
+};
+
+const TOP_RATED_COUNT = 5;
+
+// Averages the per-occasion ratings of each beer drunk in the period, falling back to the beer's own rating
+const rankByRating = (beers: BeerTotal[]): RatedBeer[] =>
+  beers
+    .flatMap(({ beer, avg_rating, rated_count }): RatedBeer[] => {
+      if (avg_rating !== null) return [{ beer, rating: avg_rating, ratedCount: rated_count }];
+      return beer.rating !== null ? [{ beer, rating: beer.rating, ratedCount: 0 }] : [];
+    })
+    .sort((a, b) => b.rating - a.rating || b.ratedCount - a.ratedCount)
+    .slice(0, TOP_RATED_COUNT);
+
+const sumOf = <T,>(items: T[], valueOf: (item: T) => number) => items.reduce((total, item) => total + valueOf(item), 0);
+
 const StatsPage: React.FC = () => {
   const { user } = useAuth();
+  const { settings } = useSettings();
   const navigate = useNavigate();
-  const [currentDate, setCurrentDate] = useState(new Date());
-  const [records, setRecords] = useState<(ConsumptionRecord & { beer: Beer })[]>([]);
-  const [yearlyRecords, setYearlyRecords] = useState<(ConsumptionRecord & { beer: Beer })[]>([]);
+  // The drinking day in progress; after midnight but before the day start hour it is still yesterday
+  const today = useMemo(() => drinkingDay(new Date(), settings.day_start_hour), [settings.day_start_hour]);
+  const [currentDate, setCurrentDate] = useState(today);
+  const [monthSummary, setMonthSummary] = useState<PeriodSummary>(EMPTY_SUMMARY);
+  const [dryDates, setDryDates] = useState<string[]>([]);
+  const [yearSummary, setYearSummary] = useState<PeriodSummary>(EMPTY_SUMMARY);
+  const [monthlyTotals, setMonthlyTotals] = useState<MonthlyTotal[]>([]);
   const [loading, setLoading] = useState(true);
-  const [view, setView] = useState<'calendar' | 'yearly'>('calendar');
+  const [view, setView] = useState<'calendar' | 'yearly' | 'range'>('calendar');
+  const [breakdownBy, setBreakdownBy] = useState<'brewery' | 'style'>('brewery');
+  const [range, setRange] = useState<PeriodBounds>(() => lastDays(30, today));
+  const [rangeSummary, setRangeSummary] = useState<PeriodSummary>(EMPTY_SUMMARY);
+  const [compare, setCompare] = useState(false);
+  const [comparison, setComparison] = useState<ComparisonSummaries | null>(null);
+  // Days just before the period, so the first rolling averages of the trend cover full windows
+  const [trendLeadIn, setTrendLeadIn] = useState<DailyTotal[]>([]);
 
   useEffect(() => {
     if (user) {
       loadData();
     }
-  }, [user, currentDate, view]);
+  }, [user, currentDate, view, range, compare]);
+
+  const period = useMemo((): PeriodBounds => {
+    if (view === 'calendar') return { start: startOfMonth(currentDate), end: endOfMonth(currentDate) };
+    if (view === 'yearly') return { start: startOfYear(currentDate), end: endOfYear(currentDate) };
+    return range;
+  }, [view, currentDate, range]);
 
   const loadData = async () => {
     setLoading(true);
     try {
+      if (compare) {
+        const previous = previousPeriod(period);
+        const lastYear = sameLastYear(period);
+        const [previousSummary, lastYearSummary] = await Promise.all([
+          fetchSummary(previous),
+          isSameRange(previous, lastYear) ? null : fetchSummary(lastYear)
+        ]);
+        setComparison({ previous: previousSummary, lastYear: lastYearSummary });
+      } else {
+        setComparison(null);
+      }
+
       if (view === 'calendar') {
-        const monthStart = startOfMonth(currentDate);
-        const monthEnd = endOfMonth(currentDate);
-        const { data } = await fetchRecords(monthStart, monthEnd);
-        setRecords(data || []);
+        const [summary, monthDryDates] = await Promise.all([
+          fetchSummary(period),
+          dryDayRepository.list(user!.id, toDateStrings(period))
+        ]);
+        setMonthSummary(summary);
+        setDryDates(monthDryDates);
+      } else if (view === 'yearly') {
+        const [summary, months, yearDryDates] = await Promise.all([
+          fetchSummary(period),
+          consumptionRepository.monthlyTotals(user!.id, toDateStrings(period)),
+          dryDayRepository.list(user!.id, toDateStrings(period))
+        ]);
+        setYearSummary(summary);
+        setMonthlyTotals(months);
+        setDryDates(yearDryDates);
       } else {
-        const yearStart = startOfYear(currentDate);
-        const yearEnd = endOfYear(currentDate);
-        const { data } = await fetchRecords(yearStart, yearEnd);
-        setYearlyRecords(data || []);
+        setRangeSummary(await fetchSummary(period));
       }
+
+      setTrendLeadIn(await consumptionRepository.dailyTotals(user!.id, toDateStrings({
+        start: subDays(period.start, TREND_LEAD_IN_DAYS),
+        end: subDays(period.start, 1)
+      })));
     } catch (error) {
       console.error('Error loading records:', error);
     } finally {
@@ -65,53 +214,61 @@ const StatsPage: React.FC = () => {
     }
   };
 
-  const fetchRecords = async (startDate: Date, endDate: Date) => {
-    const { data, error } = await supabase
-      .from('consumption_records')
-      .select(`*, beer:beers(*)`)
-      .eq('user_id', user!.id)
-      .gte('date', format(startDate, 'yyyy-MM-dd'))
-      .lte('date', format(endDate, 'yyyy-MM-dd'))
-      .order('date', { ascending: true });
-
-    if (error) throw error;
-    return { data: data as (ConsumptionRecord & { beer: Beer })[] };
+  const toDateStrings = (dates: PeriodBounds) => ({
+    start: toDateString(dates.start),
+    end: toDateString(dates.end)
+  });
+
+  const fetchSummary = async (dates: PeriodBounds): Promise<PeriodSummary> => {
+    const [days, beers, sessions] = await Promise.all([
+      consumptionRepository.dailyTotals(user!.id, toDateStrings(dates)),
+      consumptionRepository.beerTotals(user!.id, toDateStrings(dates)),
+      consumptionRepository.sessions(user!.id, toDateStrings(dates))
+    ]);
+    return { days, beers, sessions };
   };
 
-  const calculateStats = (data: (ConsumptionRecord & { beer: Beer })[]): MonthlyStats => {
-    if (data.length === 0) {
-      return { totalQuantity: 0, totalVolume: 0, totalAlcohol: 0, drinkingDays: 0, maxInDay: 0, avgPerDay: 0, beerRanking: [] };
+  const calculateStats = ({ days, beers, sessions }: PeriodSummary): MonthlyStats => {
+    if (days.length === 0) {
+      return { totalQuantity: 0, totalVolume: 0, totalAlcohol: 0, drinkingDays: 0, maxInDay: 0, avgPerDay: 0, maxAlcoholInDay: 0, avgAlcoholPerDay: 0, totalCalories: 0, totalSpent: 0, costPerGlass: null, costPerLiter: null, mostExpensive: null, sessionCount: 0, avgSessionMinutes: 0, drinksPerHour: 0, beerRanking: [], breweryRanking: [], styleRanking: [], topRated: [] };
     }
 
-    const dailyConsumption = data.reduce((acc, rec) => {
-      acc[rec.date] = (acc[rec.date] || 0) + rec.quantity;
-      return acc;
-    }, {} as Record<string, number>);
-
-    const totalQuantity = data.reduce((sum, r) => sum + r.quantity, 0);
-    const totalVolume = data.reduce((sum, r) => sum + r.beer.volume * r.quantity, 0);
-    const totalAlcohol = data.reduce((sum, r) => sum + (r.beer.volume * r.beer.alcohol_percentage / 100) * r.quantity, 0);
-    const drinkingDays = Object.keys(dailyConsumption).length;
-    const maxInDay = Math.max(...Object.values(dailyConsumption));
+    const totalQuantity = sumOf(days, day => day.glasses);
+    const totalVolume = sumOf(days, day => day.volume);
+    const totalAlcohol = sumOf(days, day => day.alcohol);
+    const drinkingDays = days.length;
+    const maxInDay = Math.max(...days.map(day => day.glasses));
     const avgPerDay = drinkingDays > 0 ? totalQuantity / drinkingDays : 0;
+    const maxAlcoholInDay = Math.max(...days.map(day => day.alcohol));
+    const avgAlcoholPerDay = drinkingDays > 0 ? totalAlcohol / drinkingDays : 0;
 
-    const beerCounts = data.reduce((acc, rec) => {
-      if (!acc[rec.beer.id]) {
-        acc[rec.beer.id] = { beer: rec.beer, quantity: 0, volume: 0 };
-      }
-      acc[rec.beer.id].quantity += rec.quantity;
-      acc[rec.beer.id].volume += rec.beer.volume * rec.quantity;
-      return acc;
-    }, {} as Record<string, { beer: Beer; quantity: number; volume: number }>);
+    const totalCalories = sumOf(days, day => day.calories);
+
+    const spent = {
+      total: sumOf(days, day => day.spent),
+      pricedQuantity: sumOf(days, day => day.priced_glasses),
+      pricedVolume: sumOf(days, day => day.priced_volume)
+    };
+    const mostExpensive = beers.reduce<{ beer: Beer; price: number } | null>((top, total) =>
+      total.max_price !== null && (!top || total.max_price > top.price) ? { beer: total.beer, price: total.max_price } : top, null);
+
+    const beerRanking = beers.map(total => ({ beer: total.beer, quantity: total.glasses, volume: total.volume }));
+
+    const breweryRanking = rankBy(beers, beer => beer.brewery);
+    const styleRanking = rankBy(beers, beer => beer.style);
 
-    const beerRanking = Object.values(beerCounts)
-      .sort((a, b) => b.quantity - a.quantity);
+    const topRated = rankByRating(beers);
 
-    return { totalQuantity, totalVolume, totalAlcohol, drinkingDays, maxInDay, avgPerDay, beerRanking };
+    return { totalQuantity, totalVolume, totalAlcohol, drinkingDays, maxInDay, avgPerDay, maxAlcoholInDay, avgAlcoholPerDay, totalCalories, totalSpent: spent.total, costPerGlass: costPerGlass(spent), costPerLiter: costPerLiter(spent), mostExpensive, ...sessionStats(sessions), beerRanking, breweryRanking, styleRanking, topRated };
   };
 
-  const monthlyStats = useMemo(() => calculateStats(records), [records]);
-  const yearlyStats = useMemo(() => calculateStats(yearlyRecords), [yearlyRecords]);
+  const monthlyStats = useMemo(() => calculateStats(monthSummary), [monthSummary]);
+  const yearlyStats = useMemo(() => calculateStats(yearSummary), [yearSummary]);
+  const rangeStats = useMemo(() => calculateStats(rangeSummary), [rangeSummary]);
+  const comparisonStats = useMemo(() => comparison && {
+    previous: calculateStats(comparison.previous),
+    lastYear: comparison.lastYear && calculateStats(comparison.lastYear)
+  }, [comparison]);
 
   const monthDays = useMemo(() => {
     const monthStart = startOfMonth(currentDate);
@@ -124,11 +281,20 @@ const StatsPage: React.FC = () => {
   const navigateMonth = (direction: 'prev' | 'next') => setCurrentDate(prev => direction === 'prev' ? subMonths(prev, 1) : addMonths(prev, 1));
   const navigateYear = (direction: 'prev' | 'next') => setCurrentDate(prev => new Date(getYear(prev) + (direction === 'prev' ? -1 : 1), 0, 1));
 
+  const handleRangeChange = (field: keyof PeriodBounds, value: string) => {
+    const date = parseDateString(value);
+    if (!date) return;
+    // Keep the range the right way round when one end is dragged past the other
+    setRange(prev => field === 'start'
+      ? { start: date, end: date > prev.end ? date : prev.end }
+      : { start: date < prev.start ? date : prev.start, end: date });
+  };
+
   const handleDateClick = (date: Date) => {
-    navigate(`/record?date=${format(date, 'yyyy-MM-dd')}`);
+    navigate(`/record?date=${toDateString(date)}`);
   };
 
-  const StatCard = ({ icon, value, label, color }: { icon: React.ElementType, value: string | number, label: string, color: string }) => (
+  const StatCard = ({ icon, value, label, color, detail }: { icon: React.ElementType, value: string | number, label: string, color: string, detail?: string }) => (
     <div className="bg-white p-4 rounded-xl shadow-md flex items-center space-x-4">
       <div className={`p-3 rounded-full ${color}`}>
         {React.createElement(icon, { size: 24, className: "text-white" })}
@@ -136,6 +302,7 @@ const StatsPage: React.FC = () => {
       <div>
         <p className="text-2xl font-bold text-gray-800">{value}</p>
         <p className="text-sm text-gray-500">{label}</p>
+        {detail && <p className="text-xs text-gray-400">{detail}</p>}
       </div>
     </div>
   );
@@ -154,6 +321,7 @@ const StatsPage: React.FC = () => {
                 <p className="font-semibold text-gray-900">
                   {item.beer.name}{' '}
                   <span className="text-sm text-gray-500">({item.beer.type})</span>
+                  {item.beer.archived_at && <span className="ml-1 text-xs text-gray-400">보관됨</span>}
                 </p>
                 <p className="text-sm text-gray-500">{item.quantity}잔 · {item.volume.toLocaleString()}ml</p>
               </div>
@@ -164,6 +332,156 @@ const StatsPage: React.FC = () => {
     </div>
   );
 
+  const TopRated = ({ ranking }: { ranking: RatedBeer[] }) => (
+    <div className="bg-white p-6 rounded-xl shadow-md">
+      <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center">
+        <Star size={20} className="mr-2 text-amber-400" /> 평점 높은 맥주
+      </h3>
+      {ranking.length > 0 ? (
+        <ul className="space-y-3">
+          {ranking.map(item => (
+            <li key={item.beer.id}>
+              <button onClick={() => navigate(`/beers/${item.beer.id}`)} className="w-full flex items-center justify-between text-left">
+                <div>
+                  <p className="font-semibold text-gray-900">{item.beer.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {item.ratedCount > 0 ? `${item.ratedCount}회 평가 평균` : '맥주 평점'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <StarRating value={Math.round(item.rating)} size="sm" />
+                  <span className="text-sm font-medium text-gray-700">{item.rating.toFixed(1)}</span>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : <p className="text-gray-500 text-center py-4">평점을 남긴 맥주가 없습니다.</p>}
+    </div>
+  );
+
+  const GroupRanking = ({ stats }: { stats: MonthlyStats }) => {
+    const ranking = breakdownBy === 'brewery' ? stats.breweryRanking : stats.styleRanking;
+    return (
+      <div className="bg-white p-6 rounded-xl shadow-md">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center">
+            <Factory size={20} className="mr-2 text-primary" /> {breakdownBy === 'brewery' ? '제조사별' : '스타일별'} 소비
+          </h3>
+          <div className="flex bg-primary-light/20 rounded-lg p-1">
+            <button onClick={() => setBreakdownBy('brewery')} className={`px-3 py-1 rounded text-sm font-medium transition-colors ${breakdownBy === 'brewery' ? 'bg-white text-primary-dark shadow-sm' : 'text-gray-600 hover:text-primary-dark'}`}>제조사</button>
+            <button onClick={() => setBreakdownBy('style')} className={`px-3 py-1 rounded text-sm font-medium transition-colors ${breakdownBy === 'style' ? 'bg-white text-primary-dark shadow-sm' : 'text-gray-600 hover:text-primary-dark'}`}>스타일</button>
+          </div>
+        </div>
+        {ranking.length > 0 ? (
+          <ul className="space-y-3">
+            {ranking.map(item => {
+              const share = stats.totalQuantity > 0 ? item.quantity / stats.totalQuantity * 100 : 0;
+              return (
+                <li key={item.name}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className={`font-medium ${item.name === UNSPECIFIED ? 'text-gray-400' : 'text-gray-900'}`}>{item.name}</span>
+                    <span className="text-gray-500">{item.quantity}잔 · {share.toFixed(0)}%</span>
+                  </div>
+                  <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-gradient-to-r from-primary to-secondary rounded-full" style={{ width: `${share}%` }} />
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        ) : <p className="text-gray-500 text-center py-4">데이터가 없습니다.</p>}
+      </div>
+    );
+  };
+
+  const Change = ({ metric, current, previous }: { metric: ComparedMetric; current: number | null; previous: number | null }) => {
+    if (current === null || previous === null) return <span className="text-xs text-gray-400">-</span>;
+    const delta = current - previous;
+    // Float sums such as litres or kcal can differ by rounding noise only
+    if (Math.abs(delta) < 1e-6) return <span className="text-xs text-gray-400">변화 없음</span>;
+    const change = percentChange(current, previous);
+    return (
+      <span className={`text-xs ${delta > 0 ? 'text-red-600' : 'text-green-600'}`}>
+        {delta > 0 ? '+' : '-'}{metric.format(Math.abs(delta))}
+        {change !== null && ` (${delta > 0 ? '+' : ''}${change.toFixed(0)}%)`}
+      </span>
+    );
+  };
+
+  const PeriodComparison = ({ stats, previous, lastYear }: { stats: MonthlyStats; previous: MonthlyStats; lastYear: MonthlyStats | null }) => {
+    const columns = [{ label: '이전 기간', range: previousPeriod(period), stats: previous }];
+    if (lastYear) columns.push({ label: '작년 같은 기간', range: sameLastYear(period), stats: lastYear });
+
+    return (
+      <div className="bg-white p-6 rounded-xl shadow-md">
+        <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center">
+          <ArrowLeftRight size={20} className="mr-2 text-primary" /> 기간 비교
+        </h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 text-right">
+                <th className="font-medium text-left pb-2">항목</th>
+                <th className="font-medium pb-2 pl-3">이번 기간</th>
+                {columns.map(column => (
+                  <th key={column.label} className="font-medium pb-2 pl-3">
+                    {column.label}
+                    <span className="block text-xs font-normal text-gray-400">{formatRange(column.range)}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {COMPARED_METRICS.map(metric => {
+                const current = metric.value(stats);
+                return (
+                  <tr key={metric.label} className="border-t border-gray-100 text-right align-top">
+                    <td className="py-2 text-left text-gray-700">{metric.label}</td>
+                    <td className="py-2 pl-3 font-semibold text-gray-900">{current !== null ? metric.format(current) : '-'}</td>
+                    {columns.map(column => {
+                      const previousValue = metric.value(column.stats);
+                      return (
+                        <td key={column.label} className="py-2 pl-3">
+                          <span className="block text-gray-700">{previousValue !== null ? metric.format(previousValue) : '-'}</span>
+                          <Change metric={metric} current={current} previous={previousValue} />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  const displayedDays = (view === 'calendar' ? monthSummary : view === 'yearly' ? yearSummary : rangeSummary).days;
+
+  const dailyAmounts = useMemo(
+    () => measureByDate(displayedDays, settings.limit_unit, settings.drink_standard),
+    [displayedDays, settings.limit_unit, settings.drink_standard]
+  );
+
+  const intakeByDate = useMemo(() => dailyIntake(displayedDays), [displayedDays]);
+  const weekdayData = useMemo(
+    () => weekdayTotals(intakeByDate).map((total, weekday) => ({ label: WEEKDAY_LABELS[weekday], value: total.glasses })),
+    [intakeByDate]
+  );
+  const trendIntake = useMemo(() => dailyIntake([...trendLeadIn, ...displayedDays]), [trendLeadIn, displayedDays]);
+  // Trends stop at today so the current month or year doesn't trail off into empty future days
+  const trendEnd = useMemo(() => min([period.end, today]), [period, today]);
+
+  const openMonth = (month: number) => {
+    setCurrentDate(new Date(getYear(currentDate), month, 1));
+    setView('calendar');
+  };
+
+  const isOverDailyLimit = (date: Date) =>
+    settings.daily_limit !== null && (dailyAmounts[toDateString(date)] ?? 0) > settings.daily_limit;
+
   const renderCalendar = () => (
     <div className="bg-white p-4 rounded-xl shadow-md">
       <div className="grid grid-cols-7 gap-1 text-center">
@@ -172,9 +490,11 @@ const StatsPage: React.FC = () => {
         ))}
         {Array.from({ length: startingDay }).map((_, i) => <div key={`empty-${i}`} />)}
         {monthDays.map(date => {
-          const dayTotal = records.filter(r => isSameDay(new Date(r.date), date)).reduce((sum, r) => sum + r.quantity, 0);
-          const isToday = isSameDay(date, new Date());
+          const dayTotal = intakeByDate[toDateString(date)]?.glasses ?? 0;
+          const isToday = isSameDay(date, today);
           const hasRecords = dayTotal > 0;
+          const overLimit = isOverDailyLimit(date);
+          const isDry = !hasRecords && dryDates.includes(toDateString(date));
 
           return (
             <div 
@@ -182,24 +502,37 @@ const StatsPage: React.FC = () => {
               className={`aspect-square p-1 rounded-lg text-sm flex flex-col justify-between transition-all cursor-pointer ${
                 isToday ? 'bg-primary-light/30 border-2 border-primary' : ''
               } ${
-                hasRecords ? 'bg-secondary-light/20 hover:bg-secondary-light/40' : 'hover:bg-gray-100'
+                overLimit ? 'bg-red-100 hover:bg-red-200' : hasRecords ? 'bg-secondary-light/20 hover:bg-secondary-light/40' : isDry ? 'bg-green-50 hover:bg-green-100' : 'hover:bg-gray-100'
               }`}
               onClick={() => handleDateClick(date)}
             >
               <span className={`${isToday ? 'font-bold text-primary-dark' : 'text-gray-900'}`}>{format(date, 'd')}</span>
-              {hasRecords && <span className="text-base text-secondary-dark font-medium self-center">{dayTotal}</span>}
+              {hasRecords && <span className={`text-base font-medium self-center ${overLimit ? 'text-red-600' : 'text-secondary-dark'}`}>{dayTotal}</span>}
+              {isDry && <Leaf size={14} className="text-green-500 self-center" />}
             </div>
           );
         })}
       </div>
+      <div className="flex items-center justify-end space-x-3 mt-3 text-xs text-gray-500">
+        <span className="flex items-center">
+          <span className="w-3 h-3 rounded bg-green-50 border border-green-200 mr-1" />
+          금주일
+        </span>
+        {settings.daily_limit !== null && (
+          <span className="flex items-center">
+            <span className="w-3 h-3 rounded bg-red-100 mr-1" />
+            하루 최대 {formatLimitAmount(settings.daily_limit, settings)} 초과
+          </span>
+        )}
+      </div>
     </div>
   );
 
   const renderYearlyBreakdown = () => {
     const monthlyData = Array.from({ length: 12 }).map((_, i) => {
         const monthStart = new Date(getYear(currentDate), i, 1);
-        const monthRecords = yearlyRecords.filter(r => new Date(r.date).getMonth() === i);
-        return { month: format(monthStart, 'M월', { locale: ko }), stats: calculateStats(monthRecords) };
+        const total = monthlyTotals.find(m => m.month === format(monthStart, 'yyyy-MM'));
+        return { month: format(monthStart, 'M월', { locale: ko }), total: total ?? { glasses: 0, volume: 0, drinking_days: 0, calories: 0 } };
     });
 
     return (
@@ -207,14 +540,23 @@ const StatsPage: React.FC = () => {
             <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center">
                 <CalendarIcon size={20} className="mr-2 text-primary" /> 월별 상세
             </h3>
+            <div className="mb-4">
+                <BarChart
+                    data={monthlyData.map(({ month, total }) => ({ label: month, value: total.glasses }))}
+                    formatValue={value => `${value}잔`}
+                    onSelect={openMonth}
+                    highlight={getYear(currentDate) === getYear(today) ? today.getMonth() : undefined}
+                />
+            </div>
             <div className="space-y-3">
-                {monthlyData.map(({ month, stats }) => (
-                    <div key={month} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                {monthlyData.map(({ month, total }, i) => (
+                    <div key={month} onClick={() => openMonth(i)} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg cursor-pointer hover:bg-gray-100 transition-colors">
                         <span className="font-medium text-gray-900 w-12">{month}</span>
-                        <div className="flex-1 grid grid-cols-3 text-sm text-right">
-                            <span className="text-primary-dark">{stats.totalQuantity}잔</span>
-                            <span className="text-secondary-dark">{(stats.totalVolume / 1000).toFixed(1)}L</span>
-                            <span className="text-accent-dark">{stats.drinkingDays}일</span>
+                        <div className="flex-1 grid grid-cols-4 text-sm text-right">
+                            <span className="text-primary-dark">{total.glasses}잔</span>
+                            <span className="text-secondary-dark">{(total.volume / 1000).toFixed(1)}L</span>
+                            <span className="text-accent-dark">{total.drinking_days}일</span>
+                            <span className="text-orange-600">{Math.round(total.calories).toLocaleString()}kcal</span>
                         </div>
                     </div>
                 ))}
@@ -223,9 +565,43 @@ const StatsPage: React.FC = () => {
     );
   };
 
+  const renderHeatmap = () => (
+    <div className="bg-white p-6 rounded-xl shadow-md">
+      <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center">
+        <Grid3x3 size={20} className="mr-2 text-primary" /> {getYear(currentDate)}년 음주 기록
+      </h3>
+      <YearHeatmap
+        year={getYear(currentDate)}
+        today={today}
+        daily={intakeByDate}
+        dryDates={dryDates}
+        isOverLimit={settings.daily_limit !== null ? isOverDailyLimit : undefined}
+        onSelect={handleDateClick}
+      />
+    </div>
+  );
+
+  const renderTrend = () => (
+    <div className="bg-white p-6 rounded-xl shadow-md">
+      <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center">
+        <LineChart size={20} className="mr-2 text-primary" /> 음주량 추이
+      </h3>
+      <TrendChart daily={trendIntake} start={period.start} end={trendEnd} standard={settings.drink_standard} onSelect={handleDateClick} />
+    </div>
+  );
+
+  const renderWeekdays = () => (
+    <div className="bg-white p-6 rounded-xl shadow-md">
+      <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center">
+        <BarChart3 size={20} className="mr-2 text-primary" /> 요일별 음주량
+      </h3>
+      <BarChart data={weekdayData} formatValue={value => `${value}잔`} />
+    </div>
+  );
+
   if (loading) return <div className="p-4 text-center">로딩 중...</div>;
 
-  const statsToDisplay = view === 'calendar' ? monthlyStats : yearlyStats;
+  const statsToDisplay = view === 'calendar' ? monthlyStats : view === 'yearly' ? yearlyStats : rangeStats;
 
   return (
     <div className="p-4 space-y-6">
@@ -234,31 +610,130 @@ const StatsPage: React.FC = () => {
         <div className="flex bg-primary-light/20 rounded-lg p-1">
           <button onClick={() => setView('calendar')} className={`px-3 py-1 rounded text-sm font-medium transition-colors ${view === 'calendar' ? 'bg-white text-primary-dark shadow-sm' : 'text-gray-600 hover:text-primary-dark'}`}>월별</button>
           <button onClick={() => setView('yearly')} className={`px-3 py-1 rounded text-sm font-medium transition-colors ${view === 'yearly' ? 'bg-white text-primary-dark shadow-sm' : 'text-gray-600 hover:text-primary-dark'}`}>연별</button>
+          <button onClick={() => setView('range')} className={`px-3 py-1 rounded text-sm font-medium transition-colors ${view === 'range' ? 'bg-white text-primary-dark shadow-sm' : 'text-gray-600 hover:text-primary-dark'}`}>기간</button>
         </div>
       </div>
 
-      <div className="bg-white rounded-xl p-4 shadow-md">
-        <div className="flex justify-between items-center mb-4">
-          <button onClick={() => view === 'calendar' ? navigateMonth('prev') : navigateYear('prev')} className="p-2 hover:bg-gray-100 rounded-lg transition-colors"><ChevronLeft size={20} /></button>
-          <h3 className="text-lg font-semibold text-gray-800">
-            {format(currentDate, view === 'calendar' ? 'yyyy년 M월' : 'yyyy년', { locale: ko })}
-          </h3>
-          <button onClick={() => view === 'calendar' ? navigateMonth('next') : navigateYear('next')} className="p-2 hover:bg-gray-100 rounded-lg transition-colors"><ChevronRight size={20} /></button>
+      <div className="bg-white rounded-xl p-4 shadow-md space-y-4">
+        {view === 'range' ? (
+          <div className="space-y-3">
+            <div className="flex space-x-2">
+              {RANGE_PRESETS.map(days => (
+                <button
+                  key={days}
+                  onClick={() => setRange(lastDays(days, today))}
+                  className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${isSameRange(range, lastDays(days, today)) ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                >
+                  최근 {days}일
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="date"
+                value={toDateString(range.start)}
+                onChange={(e) => handleRangeChange('start', e.target.value)}
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+              />
+              <span className="text-gray-500">~</span>
+              <input
+                type="date"
+                value={toDateString(range.end)}
+                onChange={(e) => handleRangeChange('end', e.target.value)}
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="flex justify-between items-center">
+            <button onClick={() => view === 'calendar' ? navigateMonth('prev') : navigateYear('prev')} className="p-2 hover:bg-gray-100 rounded-lg transition-colors"><ChevronLeft size={20} /></button>
+            <h3 className="text-lg font-semibold text-gray-800">
+              {format(currentDate, view === 'calendar' ? 'yyyy년 M월' : 'yyyy년', { locale: ko })}
+            </h3>
+            <button onClick={() => view === 'calendar' ? navigateMonth('next') : navigateYear('next')} className="p-2 hover:bg-gray-100 rounded-lg transition-colors"><ChevronRight size={20} /></button>
+          </div>
+        )}
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            id="compare"
+            checked={compare}
+            onChange={(e) => setCompare(e.target.checked)}
+            className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <label htmlFor="compare" className="ml-2 text-sm text-gray-700">
+            이전 기간 · 작년 같은 기간과 비교
+          </label>
         </div>
       </div>
 
       <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-        <StatCard icon={GlassWater} value={statsToDisplay.totalQuantity} label="총 음주량 (잔)" color="bg-primary" />
+        <StatCard icon={GlassWater} value={statsToDisplay.totalQuantity} label="총 음주량 (잔)" color="bg-primary" detail={`≈ ${formatStandardDrinks(statsToDisplay.totalAlcohol, settings.drink_standard)}`} />
         <StatCard icon={Sigma} value={`${(statsToDisplay.totalVolume / 1000).toFixed(2)} L`} label="총 음주량 (부피)" color="bg-secondary" />
-        <StatCard icon={Percent} value={`${statsToDisplay.totalAlcohol.toFixed(2)} ml`} label="총 순수 알코올" color="bg-accent" />
+        <StatCard icon={Percent} value={formatGrams(statsToDisplay.totalAlcohol)} label="총 순수 알코올" color="bg-accent" detail={formatStandardDrinks(statsToDisplay.totalAlcohol, settings.drink_standard)} />
         <StatCard icon={CalendarDays} value={statsToDisplay.drinkingDays} label="총 음주일" color="bg-blue-500" />
-        <StatCard icon={TrendingUp} value={statsToDisplay.maxInDay} label="하루 최대 음주량" color="bg-indigo-500" />
-        <StatCard icon={Trophy} value={statsToDisplay.avgPerDay.toFixed(1)} label="평균 음주량 (잔/일)" color="bg-cyan-500" />
+        <StatCard icon={TrendingUp} value={statsToDisplay.maxInDay} label="하루 최대 음주량" color="bg-indigo-500" detail={`최대 ${formatStandardDrinks(statsToDisplay.maxAlcoholInDay, settings.drink_standard)}`} />
+        <StatCard icon={Trophy} value={statsToDisplay.avgPerDay.toFixed(1)} label="평균 음주량 (잔/일)" color="bg-cyan-500" detail={`≈ ${formatStandardDrinks(statsToDisplay.avgAlcoholPerDay, settings.drink_standard)}/일`} />
+        <StatCard
+          icon={Flame}
+          value={formatKcal(statsToDisplay.totalCalories)}
+          label="총 칼로리"
+          color="bg-orange-500"
+          detail={statsToDisplay.drinkingDays > 0 ? `음주일 평균 ${formatKcal(statsToDisplay.totalCalories / statsToDisplay.drinkingDays)}` : undefined}
+        />
+        {statsToDisplay.sessionCount > 0 && (
+          <>
+            <StatCard icon={Clock} value={formatDuration(statsToDisplay.avgSessionMinutes)} label="평균 세션 길이" color="bg-violet-500" detail={`세션 ${statsToDisplay.sessionCount}회`} />
+            <StatCard icon={Gauge} value={statsToDisplay.drinksPerHour > 0 ? statsToDisplay.drinksPerHour.toFixed(1) : '-'} label="음주 속도 (잔/시간)" color="bg-rose-500" detail="시간을 기록한 잔 기준" />
+          </>
+        )}
+        {statsToDisplay.totalSpent > 0 && (
+          <>
+            <StatCard
+              icon={Wallet}
+              value={formatWon(statsToDisplay.totalSpent)}
+              label="총 지출"
+              color="bg-emerald-500"
+              detail={view === 'calendar' && settings.monthly_budget !== null ? `예산 ${formatWon(settings.monthly_budget)}` : undefined}
+            />
+            <StatCard
+              icon={Coins}
+              value={statsToDisplay.costPerGlass !== null ? formatWon(statsToDisplay.costPerGlass) : '-'}
+              label="평균 가격 (잔당)"
+              color="bg-teal-500"
+              detail={statsToDisplay.costPerLiter !== null ? `리터당 ${formatWon(statsToDisplay.costPerLiter)}` : undefined}
+            />
+            {statsToDisplay.mostExpensive && (
+              <StatCard
+                icon={Banknote}
+                value={statsToDisplay.mostExpensive.beer.name}
+                label="가장 비싼 맥주"
+                color="bg-lime-600"
+                detail={`잔당 ${formatWon(statsToDisplay.mostExpensive.price)}`}
+              />
+            )}
+          </>
+        )}
       </div>
 
+      {comparisonStats && (
+        <PeriodComparison stats={statsToDisplay} previous={comparisonStats.previous} lastYear={comparisonStats.lastYear} />
+      )}
+
       <BeerRanking ranking={statsToDisplay.beerRanking} />
 
-      {view === 'calendar' ? renderCalendar() : renderYearlyBreakdown()}
+      <TopRated ranking={statsToDisplay.topRated} />
+
+      <GroupRanking stats={statsToDisplay} />
+
+      {trendEnd >= period.start && renderTrend()}
+
+      {renderWeekdays()}
+
+      {view === 'yearly' && renderHeatmap()}
+
+      {view === 'calendar' && renderCalendar()}
+      {view === 'yearly' && renderYearlyBreakdown()}
     </div>
   );
 };
@@ -0,0 +1,98 @@
+import { BeerTotal, ConsumptionRecordWithBeer, DailyTotal, MonthlyTotal, SessionSpan, Streaks } from '../types';
+import { beerAlcoholGrams } from '../lib/alcoholUnits';
+import { beerCalories } from '../lib/calories';
+import { parseDateString } from '../lib/dates';
+import { drinkEvents, groupSessions, toSessionSpan } from '../lib/sessions';
+import { calculateStreaks } from '../lib/streaks';
+import { pricePerGlass } from '../lib/spending';
+
+// Client-side counterparts of the consumption_* SQL functions, for the in-memory store and offline reads
+
+const EMPTY_TOTAL: Omit<DailyTotal, 'date'> = {
+  glasses: 0,
+  volume: 0,
+  alcohol: 0,
+  calories: 0,
+  spent: 0,
+  priced_glasses: 0,
+  priced_volume: 0,
+};
+
+const addRecord = (total: Omit<DailyTotal, 'date'>, record: ConsumptionRecordWithBeer) => {
+  const price = pricePerGlass(record);
+  const volume = record.beer.volume * record.quantity;
+  return {
+    glasses: total.glasses + record.quantity,
+    volume: total.volume + volume,
+    alcohol: total.alcohol + beerAlcoholGrams(record.beer, record.quantity),
+    calories: total.calories + beerCalories(record.beer, record.quantity),
+    spent: total.spent + (price ?? 0) * record.quantity,
+    priced_glasses: total.priced_glasses + (price !== null ? record.quantity : 0),
+    priced_volume: total.priced_volume + (price !== null ? volume : 0),
+  };
+};
+
+const drunk = (records: ConsumptionRecordWithBeer[]) => records.filter(record => record.quantity > 0);
+
+/** Oldest first, one entry per day with at least one glass. */
+export const aggregateDaily = (records: ConsumptionRecordWithBeer[]): DailyTotal[] => {
+  const byDate = drunk(records).reduce((acc, record) => {
+    acc[record.date] = addRecord(acc[record.date] ?? EMPTY_TOTAL, record);
+    return acc;
+  }, {} as Record<string, Omit<DailyTotal, 'date'>>);
+
+  return Object.entries(byDate)
+    .map(([date, total]) => ({ date, ...total }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const aggregateMonthly = (records: ConsumptionRecordWithBeer[]): MonthlyTotal[] => {
+  const byMonth = aggregateDaily(records).reduce((acc, { date, ...day }) => {
+    const month = date.slice(0, 7);
+    const total = acc[month] ?? { ...EMPTY_TOTAL, month, drinking_days: 0 };
+    acc[month] = {
+      month,
+      glasses: total.glasses + day.glasses,
+      volume: total.volume + day.volume,
+      alcohol: total.alcohol + day.alcohol,
+      calories: total.calories + day.calories,
+      spent: total.spent + day.spent,
+      priced_glasses: total.priced_glasses + day.priced_glasses,
+      priced_volume: total.priced_volume + day.priced_volume,
+      drinking_days: total.drinking_days + 1,
+    };
+    return acc;
+  }, {} as Record<string, MonthlyTotal>);
+
+  return Object.values(byMonth).sort((a, b) => a.month.localeCompare(b.month));
+};
+
+/** Most glasses first. */
+export const aggregateByBeer = (records: ConsumptionRecordWithBeer[]): BeerTotal[] => {
+  const byBeer = drunk(records).reduce((acc, record) => {
+    const total = acc[record.beer.id] ?? { beer: record.beer, glasses: 0, volume: 0, max_price: null, ratings: [] };
+    const price = pricePerGlass(record);
+    acc[record.beer.id] = {
+      ...total,
+      glasses: total.glasses + record.quantity,
+      volume: total.volume + record.beer.volume * record.quantity,
+      max_price: price !== null && (total.max_price === null || price > total.max_price) ? price : total.max_price,
+      ratings: record.rating !== null ? [...total.ratings, record.rating] : total.ratings,
+    };
+    return acc;
+  }, {} as Record<string, Omit<BeerTotal, 'avg_rating' | 'rated_count'> & { ratings: number[] }>);
+
+  return Object.values(byBeer)
+    .map(({ ratings, ...total }) => ({
+      ...total,
+      avg_rating: ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null,
+      rated_count: ratings.length,
+    }))
+    .sort((a, b) => b.glasses - a.glasses);
+};
+
+export const aggregateSessions = (records: ConsumptionRecordWithBeer[]): SessionSpan[] =>
+  groupSessions(drinkEvents(records)).map(toSessionSpan);
+
+export const aggregateStreaks = (records: ConsumptionRecordWithBeer[], dryDates: string[], today: string): Streaks =>
+  calculateStreaks(aggregateDaily(records).map(day => day.date), dryDates, parseDateString(today)!);
@@ -0,0 +1,23 @@
+import { getSupabase } from '../lib/supabase';
+import { createMemoryRepositories, idleSyncService } from './memory';
+import { createOfflineRepositories } from './offline';
+import { createDemoSeed } from './seed';
+import { createSupabaseRepositories } from './supabase';
+
+export * from './types';
+export * from './records';
+
+// Demo mode runs entirely in memory with seeded data, no Supabase project required
+export const isDemoMode = import.meta.env.VITE_DEMO_MODE === 'true';
+
+const { repositories, sync } = isDemoMode
+  ? { repositories: createMemoryRepositories(createDemoSeed()), sync: idleSyncService }
+  : createOfflineRepositories(createSupabaseRepositories(getSupabase()));
+
+export const authService = repositories.auth;
+export const beerRepository = repositories.beers;
+export const consumptionRepository = repositories.consumption;
+export const settingsRepository = repositories.settings;
+export const dryDayRepository = repositories.dryDays;
+export const catalogRepository = repositories.catalog;
+export const syncService = sync;
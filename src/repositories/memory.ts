@@ -0,0 +1,289 @@
+import { Beer, ConsumptionRecord, DEFAULT_USER_SETTINGS, EMPTY_BEER_DETAILS, User, UserSettings } from '../types';
+import { aggregateByBeer, aggregateDaily, aggregateMonthly, aggregateSessions, aggregateStreaks } from './aggregates';
+import { ALL_DATES, applyDayEntries, isSnapshotCurrent, mergeRecords } from './records';
+import { AuthService, BeerRepository, CatalogRepository, ConsumptionRepository, DateRange, Repositories, DryDayRepository, SaveConflictError, SettingsRepository, SyncService, SyncStatus } from './types';
+
+export interface MemorySeed {
+  user: User | null;
+  beers: Beer[];
+  records: ConsumptionRecord[];
+  dryDays?: DryDay[];
+}
+
+export interface DryDay {
+  user_id: string;
+  date: string;
+}
+
+interface MemoryStore {
+  user: User | null;
+  beers: Beer[];
+  records: ConsumptionRecord[];
+  settings: Record<string, UserSettings>;
+  dryDays: DryDay[];
+}
+
+const now = () => new Date().toISOString();
+
+const createAuthService = (store: MemoryStore): AuthService => {
+  const listeners = new Set<(user: User | null) => void>();
+  const emit = () => listeners.forEach(listener => listener(store.user));
+
+  return {
+    async getCurrentUser() {
+      return store.user;
+    },
+
+    onAuthStateChange(callback) {
+      listeners.add(callback);
+      return () => listeners.delete(callback);
+    },
+
+    async signIn(email, password) {
+      if (!email || !password) {
+        return { error: { message: '이메일과 비밀번호를 입력해주세요.' } };
+      }
+      // Any credentials are accepted; the seeded user keeps their id so their data stays visible
+      store.user = { id: store.user?.id ?? crypto.randomUUID(), email, created_at: store.user?.created_at ?? now() };
+      emit();
+      return { error: null };
+    },
+
+    async signUp(email, password) {
+      if (!email || !password) {
+        return { error: { message: '이메일과 비밀번호를 입력해주세요.' } };
+      }
+      return { error: null };
+    },
+
+    async signOut() {
+      store.user = null;
+      emit();
+    },
+  };
+};
+
+const createBeerRepository = (store: MemoryStore): BeerRepository => ({
+  async list(userId) {
+    return store.beers
+      .filter(beer => beer.user_id === userId)
+      .sort((a, b) => a.sort_order - b.sort_order);
+  },
+
+  async count(userId) {
+    return store.beers.filter(beer => beer.user_id === userId && !beer.archived_at).length;
+  },
+
+  async create(userId, input, sortOrder, id, marks) {
+    const beer: Beer = { ...EMPTY_BEER_DETAILS, ...input, id: id ?? crypto.randomUUID(), user_id: userId, sort_order: sortOrder, created_at: now(), archived_at: null, pinned_at: null, ...marks };
+    store.beers.push(beer);
+    return beer;
+  },
+
+  async update(id, input) {
+    store.beers = store.beers.map(beer => beer.id === id ? { ...beer, ...input } : beer);
+  },
+
+  async setArchived(id, archived) {
+    store.beers = store.beers.map(beer => beer.id === id ? { ...beer, archived_at: archived ? now() : null } : beer);
+  },
+
+  async setPinned(id, pinned) {
+    store.beers = store.beers.map(beer => beer.id === id ? { ...beer, pinned_at: pinned ? now() : null } : beer);
+  },
+
+  async remove(id) {
+    store.beers = store.beers.filter(beer => beer.id !== id);
+    // Mirrors the ON DELETE CASCADE on consumption_records.beer_id
+    store.records = store.records.filter(record => record.beer_id !== id);
+  },
+
+  async merge(targetId, sourceIds) {
+    const sources = new Set(sourceIds.filter(id => id !== targetId));
+    const barcodes = store.beers
+      .filter(beer => beer.id === targetId || sources.has(beer.id))
+      .flatMap(beer => beer.barcodes);
+    store.records = mergeRecords(store.records, targetId, sources);
+    store.beers = store.beers
+      .filter(beer => !sources.has(beer.id))
+      .map(beer => beer.id === targetId ? { ...beer, barcodes: [...new Set(barcodes)].sort() } : beer);
+  },
+
+  async replaceAll(userId, beers, entries) {
+    const ids = new Set(store.beers.filter(beer => beer.user_id === userId).map(beer => beer.id));
+    store.beers = [
+      ...store.beers.filter(beer => !ids.has(beer.id)),
+      ...beers.map(beer => ({
+        ...EMPTY_BEER_DETAILS, ...beer.input, id: beer.id, user_id: userId, sort_order: beer.sortOrder,
+        created_at: now(), archived_at: beer.archivedAt, pinned_at: beer.pinnedAt
+      }))
+    ];
+    store.records = [
+      ...store.records.filter(record => !ids.has(record.beer_id)),
+      ...entries.map(entry => ({
+        ...entry, consumed_at: entry.consumed_at ?? [], note: entry.note ?? null, rating: entry.rating ?? null, price: entry.price ?? null, id: crypto.randomUUID(), user_id: userId,
+        created_at: now(), updated_at: now(), version: 1
+      }))
+    ];
+    return entries.length;
+  },
+
+  async reorder(orderedIds) {
+    store.beers = store.beers.map(beer => {
+      const index = orderedIds.indexOf(beer.id);
+      return index === -1 ? beer : { ...beer, sort_order: index };
+    });
+  },
+});
+
+const createConsumptionRepository = (store: MemoryStore): ConsumptionRepository => {
+  const forDay = (userId: string, date: string) =>
+    store.records.filter(record => record.user_id === userId && record.date === date);
+
+  const withBeers = (userId: string, range: DateRange) =>
+    store.records
+      .filter(record => record.user_id === userId && record.date >= range.start && record.date <= range.end)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .flatMap(record => {
+        const beer = store.beers.find(b => b.id === record.beer_id);
+        return beer ? [{ ...record, beer }] : [];
+      });
+
+  return {
+    async listByDate(userId, date) {
+      return forDay(userId, date);
+    },
+
+    async listWithBeers(userId, range) {
+      return withBeers(userId, range);
+    },
+
+    async sumQuantity(userId, range) {
+      return store.records
+        .filter(record => record.user_id === userId && (!range || (record.date >= range.start && record.date <= range.end)))
+        .reduce((sum, record) => sum + record.quantity, 0);
+    },
+
+    async countByBeer(userId, beerId) {
+      return store.records.filter(record => record.user_id === userId && record.beer_id === beerId).length;
+    },
+
+    async listByBeer(userId, beerId) {
+      return store.records
+        .filter(record => record.user_id === userId && record.beer_id === beerId)
+        .sort((a, b) => b.date.localeCompare(a.date));
+    },
+
+    async dailyTotals(userId, range = ALL_DATES) {
+      return aggregateDaily(withBeers(userId, range));
+    },
+
+    async monthlyTotals(userId, range) {
+      return aggregateMonthly(withBeers(userId, range));
+    },
+
+    async beerTotals(userId, range) {
+      return aggregateByBeer(withBeers(userId, range));
+    },
+
+    async sessions(userId, range) {
+      return aggregateSessions(withBeers(userId, range));
+    },
+
+    async streaks(userId, today) {
+      const dryDates = store.dryDays.filter(day => day.user_id === userId).map(day => day.date);
+      return aggregateStreaks(withBeers(userId, ALL_DATES), dryDates, today);
+    },
+
+    async saveDay(userId, date, entries, expected) {
+      const current = forDay(userId, date);
+      if (!isSnapshotCurrent(current, expected)) throw new SaveConflictError(date);
+
+      const next = applyDayEntries(userId, date, current, entries);
+      store.records = store.records
+        .filter(record => !(record.user_id === userId && record.date === date))
+        .concat(next);
+      return next;
+    },
+
+    async insertMany(userId, entries) {
+      let inserted = 0;
+      entries.forEach(entry => {
+        const exists = store.records.some(record =>
+          record.user_id === userId && record.date === entry.date && record.beer_id === entry.beer_id
+        );
+        if (exists) return;
+        store.records.push({
+          ...entry, consumed_at: entry.consumed_at ?? [], note: entry.note ?? null, rating: entry.rating ?? null, price: entry.price ?? null, id: crypto.randomUUID(), user_id: userId,
+          created_at: now(), updated_at: now(), version: 1
+        });
+        inserted++;
+      });
+      return inserted;
+    },
+  };
+};
+
+const createDryDayRepository = (store: MemoryStore): DryDayRepository => ({
+  async list(userId, range) {
+    return store.dryDays
+      .filter(day => day.user_id === userId && (!range || (day.date >= range.start && day.date <= range.end)))
+      .map(day => day.date)
+      .sort();
+  },
+
+  async set(userId, date, dry) {
+    store.dryDays = store.dryDays.filter(day => day.user_id !== userId || day.date !== date);
+    if (dry) store.dryDays.push({ user_id: userId, date });
+  },
+});
+
+const createSettingsRepository = (store: MemoryStore): SettingsRepository => ({
+  async get(userId) {
+    return { ...DEFAULT_USER_SETTINGS, ...store.settings[userId] };
+  },
+
+  async update(userId, patch) {
+    store.settings[userId] = { ...DEFAULT_USER_SETTINGS, ...store.settings[userId], ...patch };
+    return { ...store.settings[userId] };
+  },
+});
+
+// Demo mode has no shared catalog; the bundled one is used as is
+const memoryCatalogRepository: CatalogRepository = {
+  async listOverrides() {
+    return [];
+  },
+};
+
+const IDLE_STATUS: SyncStatus = { online: true, pending: 0, failed: 0, syncing: false, lastError: null };
+
+// Nothing is ever queued when the data lives in memory
+export const idleSyncService: SyncService = {
+  getStatus: () => IDLE_STATUS,
+  subscribe: () => () => {},
+  flush: async () => {},
+  discardPending: async () => {},
+  listFailed: async () => [],
+  retryFailed: async () => {},
+  discardFailed: async () => {},
+};
+
+export const createMemoryRepositories = (seed: MemorySeed): Repositories => {
+  const store: MemoryStore = {
+    user: seed.user,
+    beers: seed.beers.map(beer => ({ ...beer })),
+    records: seed.records.map(record => ({ ...record })),
+    settings: {},
+    dryDays: (seed.dryDays ?? []).map(day => ({ ...day })),
+  };
+
+  return {
+    auth: createAuthService(store),
+    beers: createBeerRepository(store),
+    consumption: createConsumptionRepository(store),
+    settings: createSettingsRepository(store),
+    dryDays: createDryDayRepository(store),
+    catalog: memoryCatalogRepository,
+  };
+};
@@ -0,0 +1,281 @@
+import { Beer, ConsumptionRecord, ConsumptionRecordWithBeer, EMPTY_BEER_DETAILS } from '../types';
+import { isNetworkError, createSyncEngine } from '../offline/syncEngine';
+import { localBeers, localDryDays, localQueue, localRecords, localSettings } from '../offline/store';
+import { aggregateByBeer, aggregateDaily, aggregateMonthly, aggregateSessions, aggregateStreaks } from './aggregates';
+import { ALL_DATES, applyDayEntries, isSnapshotCurrent, mergeRecords, quantitySnapshot, versionSnapshot } from './records';
+import { BeerRepository, CatalogRepository, ConsumptionRepository, DateRange, DryDayRepository, Repositories, SaveConflictError, SettingsRepository } from './types';
+
+const stripBeer = (record: ConsumptionRecordWithBeer): ConsumptionRecord => {
+  const copy: ConsumptionRecord = { ...record };
+  delete copy.beer;
+  return copy;
+};
+
+/**
+ * Wraps the remote repositories with an IndexedDB copy. Writes land locally first and are
+ * queued for replay; reads come from the server while nothing is pending and refresh the cache.
+ */
+export const createOfflineRepositories = (remote: Repositories) => {
+  const engine = createSyncEngine(remote);
+
+  const readThrough = async <T>(fromRemote: () => Promise<T>, fromLocal: () => Promise<T>) => {
+    // Local state is authoritative while writes are waiting to be replayed
+    if (!navigator.onLine || await engine.hasPending()) return fromLocal();
+    try {
+      return await fromRemote();
+    } catch (error) {
+      if (isNetworkError(error)) return fromLocal();
+      throw error;
+    }
+  };
+
+  // Bulk operations bypass the queue: they run against the server once it has caught up,
+  // after which the cache is dropped and refilled by the next read
+  const direct = async <T>(userId: string, operation: () => Promise<T>) => {
+    await engine.flushAll();
+    if (await engine.hasPending()) {
+      throw new Error('동기화되지 않은 변경 사항이 있습니다. 연결 후 다시 시도해주세요.');
+    }
+    const result = await operation();
+    await localBeers.replaceAll(userId, await remote.beers.list(userId));
+    await localRecords.replaceRange(userId, ALL_DATES, []);
+    return result;
+  };
+
+  const beers: BeerRepository = {
+    list: (userId) => readThrough(
+      async () => {
+        const data = await remote.beers.list(userId);
+        await localBeers.replaceAll(userId, data);
+        return data;
+      },
+      () => localBeers.list(userId)
+    ),
+
+    count: (userId) => readThrough(
+      () => remote.beers.count(userId),
+      async () => (await localBeers.list(userId)).filter(beer => !beer.archived_at).length
+    ),
+
+    async create(userId, input, sortOrder, id = crypto.randomUUID(), marks) {
+      const beer: Beer = {
+        ...EMPTY_BEER_DETAILS,
+        ...input, id, user_id: userId, sort_order: sortOrder, created_at: new Date().toISOString(), archived_at: null, pinned_at: null, ...marks
+      };
+      await localBeers.put(beer);
+      await engine.enqueue({ kind: 'createBeer', userId, beerId: id, input, sortOrder, marks });
+      return beer;
+    },
+
+    async update(id, input) {
+      const cached = await localBeers.get(id);
+      if (cached) await localBeers.put({ ...cached, ...input });
+      await engine.enqueue({ kind: 'updateBeer', beerId: id, input });
+    },
+
+    async setArchived(id, archived) {
+      const cached = await localBeers.get(id);
+      if (cached) await localBeers.put({ ...cached, archived_at: archived ? new Date().toISOString() : null });
+      await engine.enqueue({ kind: 'archiveBeer', beerId: id, archived });
+    },
+
+    async setPinned(id, pinned) {
+      const cached = await localBeers.get(id);
+      if (cached) await localBeers.put({ ...cached, pinned_at: pinned ? new Date().toISOString() : null });
+      await engine.enqueue({ kind: 'pinBeer', beerId: id, pinned });
+    },
+
+    async remove(id) {
+      await localBeers.remove(id);
+      await engine.enqueue({ kind: 'removeBeer', beerId: id });
+    },
+
+    async merge(targetId, sourceIds) {
+      const sources = sourceIds.filter(id => id !== targetId);
+      const target = await localBeers.get(targetId);
+      if (target) {
+        const merged = mergeRecords(await localRecords.list(target.user_id), targetId, new Set(sources));
+        await localRecords.replaceRange(target.user_id, ALL_DATES, merged);
+        const sourceBeers = await Promise.all(sources.map(id => localBeers.get(id)));
+        const barcodes = [...target.barcodes, ...sourceBeers.flatMap(beer => beer?.barcodes ?? [])];
+        await localBeers.put({ ...target, barcodes: [...new Set(barcodes)].sort() });
+        await Promise.all(sources.map(id => localBeers.remove(id)));
+      }
+      await engine.enqueue({ kind: 'mergeBeers', targetId, sourceIds: sources });
+    },
+
+    replaceAll: (userId, restored, entries) => direct(userId, () => remote.beers.replaceAll(userId, restored, entries)),
+
+    async reorder(orderedIds) {
+      const applyLocally = () => Promise.all(orderedIds.map(async (id, index) => {
+        const cached = await localBeers.get(id);
+        if (cached) await localBeers.put({ ...cached, sort_order: index });
+      }));
+
+      // Sent straight away when possible, so a rejected order reaches the caller and can be rolled back;
+      // behind other queued writes it has to wait its turn
+      if (navigator.onLine && !await engine.hasPending()) {
+        try {
+          await remote.beers.reorder(orderedIds);
+          await applyLocally();
+          return;
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+        }
+      }
+      await applyLocally();
+      await engine.enqueue({ kind: 'reorderBeers', orderedIds });
+    },
+  };
+
+  const localWithBeers = async (userId: string, range: DateRange) => {
+    const cachedBeers = await localBeers.list(userId);
+    return (await localRecords.list(userId, range)).flatMap((record): ConsumptionRecordWithBeer[] => {
+      const beer = cachedBeers.find(b => b.id === record.beer_id);
+      return beer ? [{ ...record, beer }] : [];
+    });
+  };
+
+  // Aggregates are not cached themselves; offline they are worked out from the cached records
+  const consumption: ConsumptionRepository = {
+    listByDate: (userId, date) => readThrough(
+      async () => {
+        const data = await remote.consumption.listByDate(userId, date);
+        await localRecords.replaceRange(userId, { start: date, end: date }, data);
+        return data;
+      },
+      () => localRecords.byDate(userId, date)
+    ),
+
+    listWithBeers: (userId, range) => readThrough(
+      async () => {
+        const data = await remote.consumption.listWithBeers(userId, range);
+        await localRecords.replaceRange(userId, range, data.map(stripBeer));
+        return data;
+      },
+      () => localWithBeers(userId, range)
+    ),
+
+    sumQuantity: (userId, range) => readThrough(
+      () => remote.consumption.sumQuantity(userId, range),
+      async () => (await localRecords.list(userId, range)).reduce((sum, record) => sum + record.quantity, 0)
+    ),
+
+    countByBeer: (userId, beerId) => readThrough(
+      () => remote.consumption.countByBeer(userId, beerId),
+      async () => (await localRecords.list(userId)).filter(record => record.beer_id === beerId).length
+    ),
+
+    listByBeer: (userId, beerId) => readThrough(
+      () => remote.consumption.listByBeer(userId, beerId),
+      async () => (await localRecords.list(userId))
+        .filter(record => record.beer_id === beerId)
+        .reverse()
+    ),
+
+    dailyTotals: (userId, range = ALL_DATES) => readThrough(
+      () => remote.consumption.dailyTotals(userId, range),
+      async () => aggregateDaily(await localWithBeers(userId, range))
+    ),
+
+    monthlyTotals: (userId, range) => readThrough(
+      () => remote.consumption.monthlyTotals(userId, range),
+      async () => aggregateMonthly(await localWithBeers(userId, range))
+    ),
+
+    beerTotals: (userId, range) => readThrough(
+      () => remote.consumption.beerTotals(userId, range),
+      async () => aggregateByBeer(await localWithBeers(userId, range))
+    ),
+
+    sessions: (userId, range) => readThrough(
+      () => remote.consumption.sessions(userId, range),
+      async () => aggregateSessions(await localWithBeers(userId, range))
+    ),
+
+    streaks: (userId, today) => readThrough(
+      () => remote.consumption.streaks(userId, today),
+      async () => aggregateStreaks(await localWithBeers(userId, ALL_DATES), await localDryDays.list(userId), today)
+    ),
+
+    async saveDay(userId, date, entries, expected) {
+      const current = await localRecords.byDate(userId, date);
+      if (!isSnapshotCurrent(current, expected)) throw new SaveConflictError(date);
+
+      // With an earlier save of this day still queued, the cached versions are local ones;
+      // the engine rebases this operation onto the server result once that save lands
+      const dayQueued = (await localQueue.list()).some(operation =>
+        operation.kind === 'saveDay' && operation.userId === userId && operation.date === date
+      );
+
+      const next = applyDayEntries(userId, date, current, entries);
+      await localRecords.replaceRange(userId, { start: date, end: date }, next);
+      await engine.enqueue({
+        kind: 'saveDay',
+        userId,
+        date,
+        entries: entries.filter(entry => entry.quantity > 0),
+        expected: dayQueued ? {} : versionSnapshot(current),
+        base: quantitySnapshot(current),
+      });
+      return next;
+    },
+
+    insertMany: (userId, entries) => direct(userId, () => remote.consumption.insertMany(userId, entries)),
+  };
+
+  const dryDays: DryDayRepository = {
+    list: (userId, range) => readThrough(
+      async () => {
+        const data = await remote.dryDays.list(userId, range);
+        await localDryDays.replaceRange(userId, range ?? ALL_DATES, data);
+        return data;
+      },
+      () => localDryDays.list(userId, range)
+    ),
+
+    async set(userId, date, dry) {
+      await localDryDays.set(userId, date, dry);
+      await engine.enqueue({ kind: 'setDryDay', userId, date, dry });
+    },
+  };
+
+  const settings: SettingsRepository = {
+    get: (userId) => readThrough(
+      async () => {
+        const data = await remote.settings.get(userId);
+        await localSettings.put(userId, data);
+        return data;
+      },
+      () => localSettings.get(userId)
+    ),
+
+    async update(userId, patch) {
+      const next = { ...await localSettings.get(userId), ...patch };
+      await localSettings.put(userId, next);
+      await engine.enqueue({ kind: 'updateSettings', userId, patch });
+      return next;
+    },
+  };
+
+  // Shared data, so pending writes don't matter; offline the bundled catalog is used on its own
+  const catalog: CatalogRepository = {
+    async listOverrides() {
+      if (!navigator.onLine) return [];
+      try {
+        return await remote.catalog.listOverrides();
+      } catch (error) {
+        if (isNetworkError(error)) return [];
+        throw error;
+      }
+    },
+  };
+
+  const repositories: Repositories = { auth: remote.auth, beers, consumption, settings, dryDays, catalog };
+  engine.start();
+
+  return {
+    repositories,
+    sync: engine.service,
+  };
+};
@@ -0,0 +1,89 @@
+import { ConsumptionRecord, DailyEntry } from '../types';
+import { DateRange } from './types';
+
+export const ALL_DATES: DateRange = { start: '0001-01-01', end: '9999-12-31' };
+
+// `{ beer_id: version }` snapshot used to detect that a day changed since it was loaded
+export const versionSnapshot = (records: ConsumptionRecord[]) =>
+  records.reduce((acc, record) => {
+    acc[record.beer_id] = record.version;
+    return acc;
+  }, {} as Record<string, number>);
+
+export const quantitySnapshot = (records: ConsumptionRecord[]) =>
+  records.reduce((acc, record) => {
+    acc[record.beer_id] = record.quantity;
+    return acc;
+  }, {} as Record<string, number>);
+
+export const isSnapshotCurrent = (records: ConsumptionRecord[], expected: Record<string, number>) =>
+  records.length === Object.keys(expected).length &&
+  records.every(record => expected[record.beer_id] === record.version);
+
+export const sameTimestamps = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
+
+// Applies a day's entries on top of its current rows the same way save_daily_records does
+export const applyDayEntries = (
+  userId: string,
+  date: string,
+  current: ConsumptionRecord[],
+  entries: DailyEntry[]
+): ConsumptionRecord[] => {
+  const now = new Date().toISOString();
+  return entries
+    .filter(entry => entry.quantity > 0)
+    .map(entry => {
+      const existing = current.find(record => record.beer_id === entry.beer_id);
+      const fields = {
+        quantity: entry.quantity,
+        consumed_at: entry.consumed_at ?? [],
+        note: entry.note?.trim() || null,
+        rating: entry.rating ?? null,
+        price: entry.price ?? null,
+      };
+      if (!existing) {
+        return {
+          id: crypto.randomUUID(), date, beer_id: entry.beer_id, ...fields,
+          user_id: userId, created_at: now, updated_at: now, version: 1
+        };
+      }
+      const unchanged = existing.quantity === fields.quantity &&
+        sameTimestamps(existing.consumed_at, fields.consumed_at) &&
+        existing.note === fields.note &&
+        existing.rating === fields.rating &&
+        existing.price === fields.price;
+      return unchanged ? existing : { ...existing, ...fields, version: existing.version + 1, updated_at: now };
+    });
+};
+
+// Re-points the records of `sourceIds` at `targetId` the way merge_beers does, summing same-day quantities
+export const mergeRecords = (records: ConsumptionRecord[], targetId: string, sourceIds: Set<string>) => {
+  const now = new Date().toISOString();
+  const kept = records.filter(record => !sourceIds.has(record.beer_id));
+
+  records
+    .filter(record => sourceIds.has(record.beer_id))
+    .forEach(source => {
+      const index = kept.findIndex(record =>
+        record.user_id === source.user_id && record.date === source.date && record.beer_id === targetId
+      );
+      if (index === -1) {
+        kept.push({ ...source, id: crypto.randomUUID(), beer_id: targetId, version: 1, created_at: now, updated_at: now });
+      } else {
+        const target = kept[index];
+        kept[index] = {
+          ...target,
+          quantity: target.quantity + source.quantity,
+          consumed_at: [...target.consumed_at, ...source.consumed_at],
+          note: target.note ?? source.note,
+          rating: target.rating ?? source.rating,
+          price: target.price ?? source.price,
+          version: target.version + 1,
+          updated_at: now
+        };
+      }
+    });
+
+  return kept;
+};
@@ -0,0 +1,72 @@
+import { addMinutes, setHours, startOfDay, subDays } from 'date-fns';
+import { toDateString } from '../lib/dates';
+import { Beer, BeerInput, ConsumptionRecord, EMPTY_BEER_DETAILS, User } from '../types';
+import { DryDay, MemorySeed } from './memory';
+
+const DEMO_USER: User = {
+  id: '00000000-0000-4000-8000-000000000001',
+  email: 'demo@beer-tracker.local',
+  created_at: '2025-01-01T00:00:00.000Z',
+};
+
+const DEMO_BEERS: BeerInput[] = [
+  { name: '카스', type: '캔', volume: 500, alcohol_percentage: 4.5, brewery: '오비맥주', style: '라거', country: '대한민국', rating: 3, price: 2800 },
+  { name: '테라', type: '병', volume: 500, alcohol_percentage: 4.6, brewery: '하이트진로', style: '라거', country: '대한민국', price: 2200 },
+  { name: '하이네켄', type: '캔', volume: 330, alcohol_percentage: 5.0, brewery: 'Heineken', style: '라거', country: '네덜란드', price: 2900 },
+  { name: '기네스', type: '생맥주', volume: 568, alcohol_percentage: 4.2, brewery: 'Guinness', style: '스타우트', country: '아일랜드', ibu: 45, rating: 5, tasting_notes: '크리미한 거품, 커피와 초콜릿 향', price: 12000, calories: 210 },
+  { name: '블루문', type: '병', volume: 355, alcohol_percentage: 5.4, brewery: 'Blue Moon', style: '밀맥주', country: '미국', ibu: 9, rating: 4, tasting_notes: '오렌지 껍질 향, 가벼운 바디', price: 4500 },
+];
+
+// Generates ~90 days of history deterministically so demo screenshots stay stable
+export const createDemoSeed = (today: Date = new Date()): MemorySeed => {
+  const createdAt = DEMO_USER.created_at;
+  const beers: Beer[] = DEMO_BEERS.map((beer, index) => ({
+    ...EMPTY_BEER_DETAILS,
+    ...beer,
+    id: `00000000-0000-4000-8000-0000000001${index.toString().padStart(2, '0')}`,
+    sort_order: index,
+    user_id: DEMO_USER.id,
+    created_at: createdAt,
+    archived_at: null,
+    pinned_at: null,
+  }));
+
+  const records: ConsumptionRecord[] = [];
+  const dryDays: DryDay[] = [];
+  for (let daysAgo = 0; daysAgo < 90; daysAgo++) {
+    const date = subDays(today, daysAgo);
+    const weekday = date.getDay();
+    const isWeekend = weekday === 5 || weekday === 6;
+    if (!isWeekend && daysAgo % 3 !== 0) {
+      // Most recent sober weekdays are marked as such; older gaps stay unlogged
+      if (daysAgo > 0 && daysAgo < 30) dryDays.push({ user_id: DEMO_USER.id, date: toDateString(date) });
+      continue;
+    }
+
+    const beer = beers[(daysAgo * 7) % beers.length];
+    const quantity = isWeekend ? 2 + (daysAgo % 3) * 0.5 : 1;
+    // Weekend nights are timed, Saturdays starting late enough to run past midnight
+    const sessionStart = setHours(startOfDay(date), weekday === 6 ? 22 : 19);
+    const consumedAt = isWeekend
+      ? Array.from({ length: Math.floor(quantity) }, (_, glass) => addMinutes(sessionStart, glass * 50).toISOString())
+      : [];
+    records.push({
+      id: `00000000-0000-4000-9000-${daysAgo.toString().padStart(12, '0')}`,
+      date: toDateString(date),
+      beer_id: beer.id,
+      quantity,
+      consumed_at: consumedAt,
+      // Pub nights with the draught stout get an occasion note
+      note: isWeekend && beer.type === '생맥주' ? '펍에서 생맥주로, 병보다 훨씬 부드러움' : null,
+      rating: isWeekend && beer.type === '생맥주' ? 5 : null,
+      // Weekend bottles are bought at a bar, at bar prices
+      price: isWeekend && beer.type === '병' ? 7000 : null,
+      user_id: DEMO_USER.id,
+      created_at: createdAt,
+      updated_at: createdAt,
+      version: 1,
+    });
+  }
+
+  return { user: DEMO_USER, beers, records, dryDays };
+};
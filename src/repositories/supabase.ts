@@ -0,0 +1,363 @@
+import { SupabaseClient, User as SupabaseUser } from '@supabase/supabase-js';
+import { ConsumptionRecordWithBeer, DailyTotal, DEFAULT_USER_SETTINGS, SessionSpan, User } from '../types';
+import { AuthService, BeerRepository, CatalogRepository, ConsumptionRepository, DateRange, DryDayRepository, Repositories, SaveConflictError, SettingsRepository } from './types';
+
+// SQLSTATE raised by save_daily_records when the day was modified elsewhere
+const SAVE_CONFLICT_CODE = '40001';
+
+// Columns of user_settings that make up UserSettings
+const SETTINGS_COLUMNS = 'drink_standard, limit_unit, daily_limit, weekly_limit, monthly_limit, body_weight, body_water_constant, bac_threshold, monthly_budget, day_start_hour';
+
+// Keeps each bulk insert request comfortably below PostgREST's payload limits
+const INSERT_CHUNK_SIZE = 500;
+
+// PostgREST's default max-rows; longer results come back cut off unless read page by page
+const PAGE_SIZE = 1000;
+
+// The consumption_* aggregate functions take an open-ended range as nulls
+const rangeParams = (range?: DateRange) => ({ p_start: range?.start ?? null, p_end: range?.end ?? null });
+
+/**
+ * Reads every page of a query until a short page comes back. `page` is asked for an exact count,
+ * and the rows are checked against it so a result cut off in between fails instead of going missing.
+ */
+const fetchAllPages = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown; count: number | null }>
+) => {
+  const rows: T[] = [];
+  let expected: number | null = null;
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error, count } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    expected = expected ?? count;
+    rows.push(...data ?? []);
+    if ((data?.length ?? 0) < PAGE_SIZE) break;
+  }
+  if (expected !== null && rows.length !== expected) {
+    throw new Error(`전체 ${expected}건 중 ${rows.length}건만 받아왔습니다. 다시 시도해주세요.`);
+  }
+  return rows;
+};
+
+const toUser = (user: SupabaseUser | null | undefined): User | null =>
+  user ? { id: user.id, email: user.email ?? '', created_at: user.created_at } : null;
+
+const createAuthService = (supabase: SupabaseClient): AuthService => ({
+  async getCurrentUser() {
+    const { data: { session } } = await supabase.auth.getSession();
+    return toUser(session?.user);
+  },
+
+  onAuthStateChange(callback) {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      callback(toUser(session?.user));
+    });
+    return () => subscription.unsubscribe();
+  },
+
+  async signIn(email, password) {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    return { error };
+  },
+
+  async signUp(email, password) {
+    const { error } = await supabase.auth.signUp({ email, password });
+    return { error };
+  },
+
+  async signOut() {
+    await supabase.auth.signOut();
+  },
+});
+
+const createBeerRepository = (supabase: SupabaseClient): BeerRepository => ({
+  async list(userId) {
+    const { data, error } = await supabase
+      .from('beers')
+      .select('*')
+      .eq('user_id', userId)
+      .order('sort_order', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async count(userId) {
+    const { count, error } = await supabase
+      .from('beers')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('archived_at', null);
+
+    if (error) throw error;
+    return count || 0;
+  },
+
+  async create(userId, input, sortOrder, id, marks) {
+    const { data, error } = await supabase
+      .from('beers')
+      .insert([{ ...input, ...marks, ...(id && { id }), user_id: userId, sort_order: sortOrder }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async update(id, input) {
+    const { error } = await supabase
+      .from('beers')
+      .update(input)
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async setArchived(id, archived) {
+    const { error } = await supabase
+      .from('beers')
+      .update({ archived_at: archived ? new Date().toISOString() : null })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async setPinned(id, pinned) {
+    const { error } = await supabase
+      .from('beers')
+      .update({ pinned_at: pinned ? new Date().toISOString() : null })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async remove(id) {
+    const { error } = await supabase
+      .from('beers')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async merge(targetId, sourceIds) {
+    const { error } = await supabase.rpc('merge_beers', {
+      p_target: targetId,
+      p_sources: sourceIds
+    });
+
+    if (error) throw error;
+  },
+
+  async replaceAll(_userId, beers, entries) {
+    const { data, error } = await supabase.rpc('replace_user_data', {
+      p_beers: beers.map(beer => ({
+        ...beer.input, id: beer.id, sort_order: beer.sortOrder, archived_at: beer.archivedAt, pinned_at: beer.pinnedAt
+      })),
+      p_records: entries
+    });
+
+    if (error) throw error;
+    return data ?? 0;
+  },
+
+  async reorder(orderedIds) {
+    const { error } = await supabase.rpc('reorder_beers', { p_ids: orderedIds });
+
+    if (error) throw error;
+  },
+});
+
+const createConsumptionRepository = (supabase: SupabaseClient): ConsumptionRepository => ({
+  async listByDate(userId, date) {
+    const { data, error } = await supabase
+      .from('consumption_records')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('date', date);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async listWithBeers(userId, range) {
+    return fetchAllPages<ConsumptionRecordWithBeer>((from, to) => supabase
+      .from('consumption_records')
+      .select(`*, beer:beers(*)`, { count: 'exact' })
+      .eq('user_id', userId)
+      .gte('date', range.start)
+      .lte('date', range.end)
+      // id breaks ties so rows don't shift between pages
+      .order('date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to));
+  },
+
+  // The aggregate functions filter on auth.uid() under RLS, so `userId` is only kept for the interface
+  async sumQuantity(_userId, range) {
+    const { data, error } = await supabase.rpc('consumption_total', rangeParams(range));
+
+    if (error) throw error;
+    return data ?? 0;
+  },
+
+  async countByBeer(userId, beerId) {
+    const { count, error } = await supabase
+      .from('consumption_records')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('beer_id', beerId);
+
+    if (error) throw error;
+    return count || 0;
+  },
+
+  async listByBeer(userId, beerId) {
+    const { data, error } = await supabase
+      .from('consumption_records')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('beer_id', beerId)
+      .order('date', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async saveDay(_userId, date, entries, expected) {
+    const { data, error } = await supabase.rpc('save_daily_records', {
+      p_date: date,
+      p_records: entries,
+      p_expected: expected
+    });
+
+    if (error) {
+      if (error.code === SAVE_CONFLICT_CODE) throw new SaveConflictError(date);
+      throw error;
+    }
+    return data || [];
+  },
+
+  // One row per drinking day, so long ranges pass PostgREST's row cap; the function orders by date
+  async dailyTotals(_userId, range) {
+    return fetchAllPages<DailyTotal>((from, to) =>
+      supabase.rpc('consumption_daily', rangeParams(range), { count: 'exact' }).range(from, to));
+  },
+
+  async monthlyTotals(_userId, range) {
+    const { data, error } = await supabase.rpc('consumption_monthly', rangeParams(range));
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async beerTotals(_userId, range) {
+    const { data, error } = await supabase.rpc('consumption_by_beer', rangeParams(range));
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async sessions(_userId, range) {
+    return fetchAllPages<SessionSpan>((from, to) =>
+      supabase.rpc('consumption_sessions', rangeParams(range), { count: 'exact' }).range(from, to));
+  },
+
+  async streaks(_userId, today) {
+    const { data, error } = await supabase.rpc('consumption_streaks', { p_today: today }).single();
+
+    if (error) throw error;
+    const streaks = data as { current_dry: number; longest_dry: number; current_drinking: number; longest_drinking: number };
+    return {
+      currentDry: streaks.current_dry,
+      longestDry: streaks.longest_dry,
+      currentDrinking: streaks.current_drinking,
+      longestDrinking: streaks.longest_drinking
+    };
+  },
+
+  async insertMany(userId, entries) {
+    let inserted = 0;
+    for (let i = 0; i < entries.length; i += INSERT_CHUNK_SIZE) {
+      const rows = entries.slice(i, i + INSERT_CHUNK_SIZE).map(entry => ({ ...entry, user_id: userId }));
+      const { data, error } = await supabase
+        .from('consumption_records')
+        .upsert(rows, { onConflict: 'user_id,date,beer_id', ignoreDuplicates: true })
+        .select('id');
+
+      if (error) throw error;
+      inserted += data?.length ?? 0;
+    }
+    return inserted;
+  },
+});
+
+const createDryDayRepository = (supabase: SupabaseClient): DryDayRepository => ({
+  async list(userId, range) {
+    let query = supabase
+      .from('dry_days')
+      .select('date')
+      .eq('user_id', userId)
+      .order('date', { ascending: true });
+
+    if (range) {
+      query = query.gte('date', range.start).lte('date', range.end);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(row => row.date as string);
+  },
+
+  async set(userId, date, dry) {
+    const { error } = dry
+      ? await supabase.from('dry_days').upsert({ user_id: userId, date }, { ignoreDuplicates: true })
+      : await supabase.from('dry_days').delete().eq('user_id', userId).eq('date', date);
+
+    if (error) throw error;
+  },
+});
+
+const createSettingsRepository = (supabase: SupabaseClient): SettingsRepository => ({
+  async get(userId) {
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select(SETTINGS_COLUMNS)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return { ...DEFAULT_USER_SETTINGS, ...data };
+  },
+
+  async update(userId, patch) {
+    const { data, error } = await supabase
+      .from('user_settings')
+      .upsert({ ...patch, user_id: userId, updated_at: new Date().toISOString() })
+      .select(SETTINGS_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return { ...DEFAULT_USER_SETTINGS, ...data };
+  },
+});
+
+const createCatalogRepository = (supabase: SupabaseClient): CatalogRepository => ({
+  async listOverrides() {
+    const { data, error } = await supabase
+      .from('beer_catalog')
+      .select('id, name, aliases, brewery, style, country, alcohol_percentage, ibu, servings, retired');
+
+    if (error) throw error;
+    return data || [];
+  },
+});
+
+export const createSupabaseRepositories = (supabase: SupabaseClient): Repositories => ({
+  auth: createAuthService(supabase),
+  beers: createBeerRepository(supabase),
+  consumption: createConsumptionRepository(supabase),
+  settings: createSettingsRepository(supabase),
+  dryDays: createDryDayRepository(supabase),
+  catalog: createCatalogRepository(supabase),
+});
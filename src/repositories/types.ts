@@ -0,0 +1,142 @@
+import { SyncOperation } from '../offline/operations';
+import { Beer, BeerInput, BeerTotal, CatalogOverride, ConsumptionRecord, ConsumptionRecordWithBeer, DailyEntry, DailyTotal, DatedEntry, MonthlyTotal, SessionSpan, Streaks, User, UserSettings } from '../types';
+
+export interface AuthResult {
+  error: { message: string } | null;
+}
+
+export interface AuthService {
+  getCurrentUser(): Promise<User | null>;
+  onAuthStateChange(callback: (user: User | null) => void): () => void;
+  signIn(email: string, password: string): Promise<AuthResult>;
+  signUp(email: string, password: string): Promise<AuthResult>;
+  signOut(): Promise<void>;
+}
+
+/** When a beer was archived and pinned; restored beers keep the times from their backup. */
+export interface BeerMarks {
+  archived_at: string | null;
+  pinned_at: string | null;
+}
+
+/** A beer written back from a backup under the id its records point at. */
+export interface RestoredBeer {
+  id: string;
+  input: BeerInput;
+  sortOrder: number;
+  archivedAt: string | null;
+  pinnedAt: string | null;
+}
+
+export interface BeerRepository {
+  /** Every beer of the user, archived ones included. */
+  list(userId: string): Promise<Beer[]>;
+  /** Number of beers that are not archived. */
+  count(userId: string): Promise<number>;
+  create(userId: string, input: BeerInput, sortOrder: number, id?: string, marks?: BeerMarks): Promise<Beer>;
+  update(id: string, input: BeerInput): Promise<void>;
+  setArchived(id: string, archived: boolean): Promise<void>;
+  setPinned(id: string, pinned: boolean): Promise<void>;
+  remove(id: string): Promise<void>;
+  /**
+   * Moves every record of `sourceIds` onto `targetId`, summing quantities that land on the
+   * same day, then deletes the source beers. Runs as one transaction.
+   */
+  merge(targetId: string, sourceIds: string[]): Promise<void>;
+  /**
+   * Deletes every beer and record of the user and writes `beers` and `entries` in their place,
+   * as one transaction. Returns the number of records written.
+   */
+  replaceAll(userId: string, beers: RestoredBeer[], entries: DatedEntry[]): Promise<number>;
+  /** Rewrites `sort_order` of the whole list in one transaction, following `orderedIds`. */
+  reorder(orderedIds: string[]): Promise<void>;
+}
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface ConsumptionRepository {
+  listByDate(userId: string, date: string): Promise<ConsumptionRecord[]>;
+  listWithBeers(userId: string, range: DateRange): Promise<ConsumptionRecordWithBeer[]>;
+  sumQuantity(userId: string, range?: DateRange): Promise<number>;
+  countByBeer(userId: string, beerId: string): Promise<number>;
+  /** Every record of one beer, newest first. */
+  listByBeer(userId: string, beerId: string): Promise<ConsumptionRecord[]>;
+  /** Per-day sums, oldest first, so callers don't download every record to add them up. */
+  dailyTotals(userId: string, range?: DateRange): Promise<DailyTotal[]>;
+  monthlyTotals(userId: string, range: DateRange): Promise<MonthlyTotal[]>;
+  /** Per-beer sums, most glasses first. */
+  beerTotals(userId: string, range: DateRange): Promise<BeerTotal[]>;
+  /** Drinking sessions formed by the glasses that have a time, earliest first. */
+  sessions(userId: string, range: DateRange): Promise<SessionSpan[]>;
+  /** Current and longest dry and drinking runs up to `today` (yyyy-MM-dd), dry days included. */
+  streaks(userId: string, today: string): Promise<Streaks>;
+  /**
+   * Replaces the records of one day with `entries`. `expected` is the `{ beer_id: version }`
+   * snapshot the caller loaded; a SaveConflictError is thrown if the day changed since.
+   */
+  saveDay(userId: string, date: string, entries: DailyEntry[], expected: Record<string, number>): Promise<ConsumptionRecord[]>;
+  /** Bulk insert that skips entries whose (date, beer) already has a record. Resolves to the inserted count. */
+  insertMany(userId: string, entries: DatedEntry[]): Promise<number>;
+}
+
+/** Days the user explicitly marked as alcohol-free, as opposed to days nothing was logged. */
+export interface DryDayRepository {
+  list(userId: string, range?: DateRange): Promise<string[]>;
+  set(userId: string, date: string, dry: boolean): Promise<void>;
+}
+
+export interface SettingsRepository {
+  /** The user's preferences, falling back to DEFAULT_USER_SETTINGS for anything never saved. */
+  get(userId: string): Promise<UserSettings>;
+  update(userId: string, patch: Partial<UserSettings>): Promise<UserSettings>;
+}
+
+export interface CatalogRepository {
+  listOverrides(): Promise<CatalogOverride[]>;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  pending: number;
+  /** Writes the server rejected, waiting for the user to retry or discard them. */
+  failed: number;
+  syncing: boolean;
+  lastError: string | null;
+}
+
+/** A queued write the server rejected, set aside so the rest of the queue can proceed. */
+export type FailedSync = SyncOperation & { id: number; error: string; failed_at: string };
+
+export interface SyncService {
+  getStatus(): SyncStatus;
+  subscribe(listener: (status: SyncStatus) => void): () => void;
+  /** Replays the signed-in user's queue until it is empty or stops making progress. */
+  flush(): Promise<void>;
+  /** Drops the signed-in user's queued writes without sending them, e.g. when signing out offline. */
+  discardPending(): Promise<void>;
+  /** Rejected writes, oldest first. */
+  listFailed(): Promise<FailedSync[]>;
+  /** Queues a rejected write again and flushes. */
+  retryFailed(id: number): Promise<void>;
+  /** Drops a rejected write; the next read replaces its local effect with the server's data. */
+  discardFailed(id: number): Promise<void>;
+}
+
+export interface Repositories {
+  auth: AuthService;
+  beers: BeerRepository;
+  consumption: ConsumptionRepository;
+  settings: SettingsRepository;
+  dryDays: DryDayRepository;
+  catalog: CatalogRepository;
+}
+
+export class SaveConflictError extends Error {
+  constructor(date: string) {
+    super(`Records for ${date} were modified by another session`);
+    this.name = 'SaveConflictError';
+  }
+}
@@ -4,15 +4,51 @@ export interface User {
   created_at: string;
 }
 
+export const BEER_TYPES = ['캔', '병', '생맥주', '기타'] as const;
+
+export type BeerType = typeof BEER_TYPES[number];
+
+export const BEER_STYLES = [
+  '라거',
+  '필스너',
+  '페일 에일',
+  'IPA',
+  '밀맥주',
+  '스타우트',
+  '포터',
+  '사워',
+  '벨지안 에일',
+  '기타'
+] as const;
+
+export type BeerStyle = typeof BEER_STYLES[number];
+
 export interface Beer {
   id: string;
   name: string;
-  type: '캔' | '병' | '생맥주' | '기타';
+  type: BeerType;
   volume: number;
   alcohol_percentage: number;
+  brewery: string | null;
+  style: BeerStyle | null;
+  country: string | null;
+  ibu: number | null;
+  notes: string | null;
+  /** 1–5 stars. */
+  rating: number | null;
+  tasting_notes: string | null;
+  /** Usual price of one glass (can, bottle) in won. */
+  price: number | null;
+  /** Kcal in one glass; null means estimated from volume and ABV. */
+  calories: number | null;
+  /** EAN-13 / EAN-8 codes that resolve to this beer when scanned. */
+  barcodes: string[];
   sort_order: number;
   user_id: string;
   created_at: string;
+  archived_at: string | null;
+  /** When the beer was pinned to the top of the record screen; null when it isn't. */
+  pinned_at: string | null;
 }
 
 export interface ConsumptionRecord {
@@ -20,11 +56,163 @@ export interface ConsumptionRecord {
   date: string;
   beer_id: string;
   quantity: number;
+  /** ISO timestamps of individual glasses; optional, so it may hold fewer entries than `quantity`. */
+  consumed_at: string[];
+  /** Notes on this particular occasion, e.g. where it was drunk. */
+  note: string | null;
+  rating: number | null;
+  /** Price per glass paid that day when it differs from the beer's usual price, e.g. at a bar. */
+  price: number | null;
   user_id: string;
   created_at: string;
+  updated_at: string;
+  version: number;
   beer?: Beer;
 }
 
+export type BeerDetails = Pick<Beer, 'brewery' | 'style' | 'country' | 'ibu' | 'notes' | 'rating' | 'tasting_notes' | 'price' | 'calories' | 'barcodes'>;
+
+export const EMPTY_BEER_DETAILS: BeerDetails = {
+  brewery: null,
+  style: null,
+  country: null,
+  ibu: null,
+  notes: null,
+  rating: null,
+  tasting_notes: null,
+  price: null,
+  calories: null,
+  barcodes: [],
+};
+
+/** Fields a user edits on a beer; the optional details default to EMPTY_BEER_DETAILS. */
+export type BeerInput = Pick<Beer, 'name' | 'type' | 'volume' | 'alcohol_percentage'> & Partial<BeerDetails>;
+
+export interface CatalogServing {
+  type: BeerType;
+  volume: number;
+}
+
+/** A well-known beer users can add from instead of typing every field. */
+export interface CatalogBeer {
+  id: string;
+  name: string;
+  /** Other names to search by, e.g. the English name or a short form. */
+  aliases: string[];
+  brewery: string | null;
+  style: BeerStyle | null;
+  country: string | null;
+  alcohol_percentage: number;
+  ibu: number | null;
+  servings: CatalogServing[];
+}
+
+/** Shared catalog row; replaces the bundled entry with the same id, or hides it when retired. */
+export interface CatalogOverride extends CatalogBeer {
+  retired: boolean;
+}
+
+export interface ConsumptionRecordWithBeer extends ConsumptionRecord {
+  beer: Beer;
+}
+
+export interface DailyEntry {
+  beer_id: string;
+  quantity: number;
+  consumed_at?: string[];
+  note?: string | null;
+  rating?: number | null;
+  price?: number | null;
+}
+
+export interface DatedEntry extends DailyEntry {
+  date: string;
+}
+
+/** One day's records summed up; `alcohol` is grams of ethanol and `spent` covers priced glasses only. */
+export interface DailyTotal {
+  date: string;
+  glasses: number;
+  volume: number;
+  alcohol: number;
+  calories: number;
+  spent: number;
+  priced_glasses: number;
+  priced_volume: number;
+}
+
+export interface MonthlyTotal extends Omit<DailyTotal, 'date'> {
+  /** yyyy-MM */
+  month: string;
+  drinking_days: number;
+}
+
+export interface BeerTotal {
+  beer: Beer;
+  glasses: number;
+  volume: number;
+  /** Highest price paid for one glass, the beer's usual price standing in for records without one. */
+  max_price: number | null;
+  /** Average of the per-occasion ratings; null when no record was rated. */
+  avg_rating: number | null;
+  rated_count: number;
+}
+
+/** A drinking session reduced to what the stats need. */
+export interface SessionSpan {
+  started_at: string;
+  ended_at: string;
+  glasses: number;
+}
+
+/** Runs of consecutive explicitly dry or drinking days, in days. */
+export interface Streaks {
+  currentDry: number;
+  longestDry: number;
+  currentDrinking: number;
+  longestDrinking: number;
+}
+
+export const DRINK_STANDARDS = ['kr', 'us', 'uk', 'jp'] as const;
+
+export type DrinkStandard = typeof DRINK_STANDARDS[number];
+
+export const LIMIT_UNITS = ['glasses', 'drinks', 'grams'] as const;
+
+export type LimitUnit = typeof LIMIT_UNITS[number];
+
+export interface UserSettings {
+  drink_standard: DrinkStandard;
+  /** Unit shared by every limit below; a null limit is not tracked. */
+  limit_unit: LimitUnit;
+  daily_limit: number | null;
+  weekly_limit: number | null;
+  monthly_limit: number | null;
+  /** Body weight in kg, for the blood alcohol estimate. */
+  body_weight: number | null;
+  /** Widmark body water constant r. */
+  body_water_constant: number | null;
+  /** Blood alcohol concentration in percent the estimate counts down to. */
+  bac_threshold: number;
+  /** Monthly beer budget in won; null turns the budget alert off. */
+  monthly_budget: number | null;
+  /** Hour (0–12) the drinking day starts at; glasses before it count toward the previous night. */
+  day_start_hour: number;
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  drink_standard: 'kr',
+  limit_unit: 'glasses',
+  daily_limit: null,
+  weekly_limit: null,
+  monthly_limit: null,
+  body_weight: null,
+  body_water_constant: null,
+  bac_threshold: 0.03,
+  monthly_budget: null,
+  day_start_hour: 0,
+};
+
 export interface MonthlyStats {
   month: string;
   total_quantity: number;
@@ -0,0 +1,112 @@
+/*
+  # 일일 기록 원자적 저장
+
+  1. Changes
+    - `consumption_records`
+      - 같은 날짜/맥주에 대한 중복 행을 하나로 병합 (수량 합산)
+      - `(user_id, date, beer_id)` 유니크 제약 추가
+      - `version` (integer, 낙관적 잠금용 버전)
+      - `updated_at` (timestamp, 수정일시)
+
+  2. Functions
+    - `save_daily_records(p_date, p_records, p_expected)`
+      - 하루치 기록의 변경분만 upsert/delete 하는 단일 트랜잭션
+      - 클라이언트가 읽은 시점의 `{beer_id: version}` 스냅샷과 현재 상태가 다르면
+        SQLSTATE 40001 로 거부하여 다른 기기의 수정을 덮어쓰지 않도록 함
+
+  3. Notes
+    - SECURITY INVOKER 로 실행되므로 기존 RLS 정책이 그대로 적용됨
+*/
+
+ALTER TABLE consumption_records
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+-- 중복 행 병합: 가장 먼저 생성된 행에 수량을 합산하고 나머지는 삭제
+WITH ranked AS (
+  SELECT
+    id,
+    sum(quantity) OVER (PARTITION BY user_id, date, beer_id) AS total,
+    row_number() OVER (PARTITION BY user_id, date, beer_id ORDER BY created_at, id) AS rn
+  FROM consumption_records
+)
+UPDATE consumption_records c
+SET quantity = r.total
+FROM ranked r
+WHERE c.id = r.id
+  AND r.rn = 1
+  AND c.quantity <> r.total;
+
+DELETE FROM consumption_records c
+USING (
+  SELECT
+    id,
+    row_number() OVER (PARTITION BY user_id, date, beer_id ORDER BY created_at, id) AS rn
+  FROM consumption_records
+) r
+WHERE c.id = r.id
+  AND r.rn > 1;
+
+ALTER TABLE consumption_records
+  ADD CONSTRAINT consumption_records_user_date_beer_key
+  UNIQUE (user_id, date, beer_id);
+
+CREATE OR REPLACE FUNCTION save_daily_records(
+  p_date date,
+  p_records jsonb,
+  p_expected jsonb DEFAULT '{}'::jsonb
+)
+RETURNS SETOF consumption_records
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_current jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  -- 같은 사용자/날짜에 대한 동시 저장을 직렬화
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::text || ':' || p_date::text));
+
+  SELECT coalesce(jsonb_object_agg(beer_id::text, version), '{}'::jsonb)
+  INTO v_current
+  FROM consumption_records
+  WHERE user_id = v_user_id
+    AND date = p_date;
+
+  IF v_current <> coalesce(p_expected, '{}'::jsonb) THEN
+    RAISE EXCEPTION 'records for % were modified by another session', p_date
+      USING ERRCODE = '40001';
+  END IF;
+
+  DELETE FROM consumption_records c
+  WHERE c.user_id = v_user_id
+    AND c.date = p_date
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_to_recordset(p_records) AS r(beer_id uuid, quantity decimal)
+      WHERE r.beer_id = c.beer_id
+        AND r.quantity > 0
+    );
+
+  INSERT INTO consumption_records (date, beer_id, quantity, user_id)
+  SELECT p_date, r.beer_id, r.quantity, v_user_id
+  FROM jsonb_to_recordset(p_records) AS r(beer_id uuid, quantity decimal)
+  WHERE r.quantity > 0
+  ON CONFLICT (user_id, date, beer_id) DO UPDATE
+    SET quantity = EXCLUDED.quantity,
+        version = consumption_records.version + 1,
+        updated_at = now()
+    WHERE consumption_records.quantity IS DISTINCT FROM EXCLUDED.quantity;
+
+  RETURN QUERY
+    SELECT *
+    FROM consumption_records
+    WHERE user_id = v_user_id
+      AND date = p_date;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_daily_records(date, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,20 @@
+/*
+  # 맥주 보관 (soft delete)
+
+  1. Changes
+    - `beers`
+      - `archived_at` (timestamp, 보관일시 — NULL 이면 사용 중인 맥주)
+
+  2. Indexes
+    - 사용 중인 맥주만 빠르게 조회하기 위한 부분 인덱스
+
+  3. Notes
+    - 보관된 맥주는 기록 화면에서 숨겨지지만 기존 소비 기록과 통계에는 그대로 남음
+    - 완전 삭제 시에는 기존과 같이 ON DELETE CASCADE 로 소비 기록도 삭제됨
+*/
+
+ALTER TABLE beers ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_beers_user_active
+  ON beers(user_id, sort_order)
+  WHERE archived_at IS NULL;
@@ -0,0 +1,68 @@
+/*
+  # 중복 맥주 병합
+
+  1. Functions
+    - `merge_beers(p_target, p_sources)`
+      - `p_sources` 맥주들의 소비 기록을 `p_target` 으로 옮김
+      - 같은 날짜에 이미 기록이 있으면 수량을 합산
+      - 옮긴 뒤 `p_sources` 맥주를 삭제
+      - 모든 작업이 하나의 트랜잭션에서 실행됨
+
+  2. Notes
+    - SECURITY INVOKER 로 실행되므로 RLS 에 의해 본인의 맥주만 병합 가능
+*/
+
+CREATE OR REPLACE FUNCTION merge_beers(p_target uuid, p_sources uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_sources uuid[] := array_remove(p_sources, p_target);
+  v_owned integer;
+  v_moved integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT count(*)
+  INTO v_owned
+  FROM beers
+  WHERE user_id = v_user_id
+    AND (id = p_target OR id = ANY(v_sources));
+
+  IF v_owned <> cardinality(v_sources) + 1 THEN
+    RAISE EXCEPTION 'beers not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- 병합 대상 날짜의 기록이 동시에 수정되지 않도록 잠금
+  PERFORM 1
+  FROM consumption_records
+  WHERE user_id = v_user_id
+    AND (beer_id = p_target OR beer_id = ANY(v_sources))
+  FOR UPDATE;
+
+  INSERT INTO consumption_records (date, beer_id, quantity, user_id)
+  SELECT date, p_target, sum(quantity), v_user_id
+  FROM consumption_records
+  WHERE user_id = v_user_id
+    AND beer_id = ANY(v_sources)
+  GROUP BY date
+  ON CONFLICT (user_id, date, beer_id) DO UPDATE
+    SET quantity = consumption_records.quantity + EXCLUDED.quantity,
+        version = consumption_records.version + 1,
+        updated_at = now();
+
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  -- 원본 기록은 ON DELETE CASCADE 로 함께 삭제됨
+  DELETE FROM beers
+  WHERE user_id = v_user_id
+    AND id = ANY(v_sources);
+
+  RETURN v_moved;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_beers(uuid, uuid[]) TO authenticated;
@@ -0,0 +1,40 @@
+/*
+  # 맥주 정렬 순서 일괄 변경
+
+  1. Functions
+    - `reorder_beers(p_ids)`
+      - 전달된 순서대로 `sort_order` 를 0부터 다시 매김
+      - 하나의 UPDATE 문으로 실행되어 일부만 반영되는 일이 없음
+      - 본인 소유가 아니거나 존재하지 않는 맥주가 섞여 있으면 전체를 거부
+
+  2. Notes
+    - SECURITY INVOKER 로 실행되므로 RLS 가 그대로 적용됨
+*/
+
+CREATE OR REPLACE FUNCTION reorder_beers(p_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_updated integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE beers b
+  SET sort_order = t.ord - 1
+  FROM unnest(p_ids) WITH ORDINALITY AS t(id, ord)
+  WHERE b.id = t.id
+    AND b.user_id = v_user_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  IF v_updated <> cardinality(p_ids) THEN
+    RAISE EXCEPTION 'beers not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reorder_beers(uuid[]) TO authenticated;
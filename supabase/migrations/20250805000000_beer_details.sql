@@ -0,0 +1,21 @@
+/*
+  # 맥주 상세 정보 추가
+
+  1. Changes
+    - `beers`
+      - `brewery` (text, 제조사)
+      - `style` (text, 스타일 — 앱의 스타일 목록 중 하나)
+      - `country` (text, 원산지)
+      - `ibu` (integer, 쓴맛 지수)
+      - `notes` (text, 메모)
+
+  2. Notes
+    - 모두 선택 항목이며 기존 맥주는 NULL 로 남음
+*/
+
+ALTER TABLE beers
+  ADD COLUMN IF NOT EXISTS brewery text,
+  ADD COLUMN IF NOT EXISTS style text,
+  ADD COLUMN IF NOT EXISTS country text,
+  ADD COLUMN IF NOT EXISTS ibu integer,
+  ADD COLUMN IF NOT EXISTS notes text;
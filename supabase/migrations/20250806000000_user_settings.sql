@@ -0,0 +1,31 @@
+/*
+  # 사용자 설정 테이블 생성
+
+  1. New Tables
+    - `user_settings`
+      - `user_id` (uuid, primary key, 사용자 ID)
+      - `drink_standard` (text, 표준잔 기준 — kr, us, uk, jp)
+      - `updated_at` (timestamp, 수정일시)
+
+  2. Security
+    - Enable RLS on `user_settings` table
+    - Add policy for authenticated users to manage their own settings
+
+  3. Notes
+    - 행이 없으면 앱은 기본값(kr)을 사용하고, 처음 저장할 때 upsert 로 생성됨
+*/
+
+CREATE TABLE IF NOT EXISTS user_settings (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  drink_standard text NOT NULL DEFAULT 'kr' CHECK (drink_standard IN ('kr', 'us', 'uk', 'jp')),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own settings"
+  ON user_settings
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,19 @@
+/*
+  # 음주 한도 설정 추가
+
+  1. Changes
+    - `user_settings`
+      - `limit_unit` (text, 한도 단위 — glasses: 잔, drinks: 표준잔, grams: 알코올 g)
+      - `daily_limit` (decimal, 하루 최대량)
+      - `weekly_limit` (decimal, 주간 한도, 일요일 시작)
+      - `monthly_limit` (decimal, 월간 한도)
+
+  2. Notes
+    - 한도가 NULL 이면 해당 기간은 추적하지 않음
+*/
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS limit_unit text NOT NULL DEFAULT 'glasses' CHECK (limit_unit IN ('glasses', 'drinks', 'grams')),
+  ADD COLUMN IF NOT EXISTS daily_limit decimal CHECK (daily_limit > 0),
+  ADD COLUMN IF NOT EXISTS weekly_limit decimal CHECK (weekly_limit > 0),
+  ADD COLUMN IF NOT EXISTS monthly_limit decimal CHECK (monthly_limit > 0);
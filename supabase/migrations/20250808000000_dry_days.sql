@@ -0,0 +1,32 @@
+/*
+  # 금주일 테이블 생성
+
+  1. New Tables
+    - `dry_days`
+      - `user_id` (uuid, 사용자 ID)
+      - `date` (date, 술을 마시지 않았다고 표시한 날짜)
+      - `created_at` (timestamp, 생성일시)
+
+  2. Security
+    - Enable RLS on `dry_days` table
+    - Add policy for authenticated users to manage their own dry days
+
+  3. Notes
+    - 기록이 없는 날(기록을 잊은 날)과 직접 금주일로 표시한 날을 구분하기 위한 테이블
+*/
+
+CREATE TABLE IF NOT EXISTS dry_days (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, date)
+);
+
+ALTER TABLE dry_days ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own dry days"
+  ON dry_days
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
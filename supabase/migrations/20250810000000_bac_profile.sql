@@ -0,0 +1,17 @@
+/*
+  # 혈중알코올농도 추정용 프로필
+
+  1. Changes
+    - `user_settings`
+      - `body_weight` (decimal, 체중 kg)
+      - `body_water_constant` (decimal, Widmark 체내 수분 계수 r — 남성 약 0.68, 여성 약 0.55)
+      - `bac_threshold` (decimal, 기준 혈중알코올농도 %, 기본값 0.03 — 한국 음주운전 단속 기준)
+
+  2. Notes
+    - 체중과 계수가 모두 있어야 홈 화면에 추정치를 표시함
+*/
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS body_weight decimal CHECK (body_weight > 0),
+  ADD COLUMN IF NOT EXISTS body_water_constant decimal CHECK (body_water_constant > 0 AND body_water_constant <= 1),
+  ADD COLUMN IF NOT EXISTS bac_threshold decimal NOT NULL DEFAULT 0.03 CHECK (bac_threshold >= 0);
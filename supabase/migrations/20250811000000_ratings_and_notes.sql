@@ -0,0 +1,159 @@
+/*
+  # 평점과 시음 노트
+
+  1. Changes
+    - `beers`
+      - `rating` (smallint, 1~5 평점)
+      - `tasting_notes` (text, 시음 노트)
+    - `consumption_records`
+      - `note` (text, 그날 마신 경험에 대한 메모)
+      - `rating` (smallint, 그날의 1~5 평점)
+
+  2. Functions
+    - `save_daily_records(p_date, p_records, p_expected)`
+      - `p_records` 항목의 `note`, `rating` 을 함께 저장
+    - `merge_beers(p_target, p_sources)`
+      - 같은 날짜로 합쳐질 때 대상 기록의 메모와 평점을 우선하고, 없으면 원본의 값을 사용
+*/
+
+ALTER TABLE beers
+  ADD COLUMN IF NOT EXISTS rating smallint CHECK (rating BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS tasting_notes text;
+
+ALTER TABLE consumption_records
+  ADD COLUMN IF NOT EXISTS note text,
+  ADD COLUMN IF NOT EXISTS rating smallint CHECK (rating BETWEEN 1 AND 5);
+
+CREATE OR REPLACE FUNCTION save_daily_records(
+  p_date date,
+  p_records jsonb,
+  p_expected jsonb DEFAULT '{}'::jsonb
+)
+RETURNS SETOF consumption_records
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_current jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  -- 같은 사용자/날짜에 대한 동시 저장을 직렬화
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::text || ':' || p_date::text));
+
+  SELECT coalesce(jsonb_object_agg(beer_id::text, version), '{}'::jsonb)
+  INTO v_current
+  FROM consumption_records
+  WHERE user_id = v_user_id
+    AND date = p_date;
+
+  IF v_current <> coalesce(p_expected, '{}'::jsonb) THEN
+    RAISE EXCEPTION 'records for % were modified by another session', p_date
+      USING ERRCODE = '40001';
+  END IF;
+
+  DELETE FROM consumption_records c
+  WHERE c.user_id = v_user_id
+    AND c.date = p_date
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_to_recordset(p_records) AS r(beer_id uuid, quantity decimal)
+      WHERE r.beer_id = c.beer_id
+        AND r.quantity > 0
+    );
+
+  INSERT INTO consumption_records (date, beer_id, quantity, consumed_at, note, rating, user_id)
+  SELECT p_date, r.beer_id, r.quantity, coalesce(r.consumed_at, '{}'), nullif(trim(r.note), ''), r.rating, v_user_id
+  FROM jsonb_to_recordset(p_records)
+    AS r(beer_id uuid, quantity decimal, consumed_at timestamptz[], note text, rating smallint)
+  WHERE r.quantity > 0
+  ON CONFLICT (user_id, date, beer_id) DO UPDATE
+    SET quantity = EXCLUDED.quantity,
+        consumed_at = EXCLUDED.consumed_at,
+        note = EXCLUDED.note,
+        rating = EXCLUDED.rating,
+        version = consumption_records.version + 1,
+        updated_at = now()
+    WHERE consumption_records.quantity IS DISTINCT FROM EXCLUDED.quantity
+       OR consumption_records.consumed_at IS DISTINCT FROM EXCLUDED.consumed_at
+       OR consumption_records.note IS DISTINCT FROM EXCLUDED.note
+       OR consumption_records.rating IS DISTINCT FROM EXCLUDED.rating;
+
+  RETURN QUERY
+    SELECT *
+    FROM consumption_records
+    WHERE user_id = v_user_id
+      AND date = p_date;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_beers(p_target uuid, p_sources uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_sources uuid[] := array_remove(p_sources, p_target);
+  v_owned integer;
+  v_moved integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT count(*)
+  INTO v_owned
+  FROM beers
+  WHERE user_id = v_user_id
+    AND (id = p_target OR id = ANY(v_sources));
+
+  IF v_owned <> cardinality(v_sources) + 1 THEN
+    RAISE EXCEPTION 'beers not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- 병합 대상 날짜의 기록이 동시에 수정되지 않도록 잠금
+  PERFORM 1
+  FROM consumption_records
+  WHERE user_id = v_user_id
+    AND (beer_id = p_target OR beer_id = ANY(v_sources))
+  FOR UPDATE;
+
+  INSERT INTO consumption_records (date, beer_id, quantity, consumed_at, note, rating, user_id)
+  SELECT
+    c.date,
+    p_target,
+    sum(c.quantity),
+    coalesce((
+      SELECT array_agg(t ORDER BY t)
+      FROM consumption_records s, unnest(s.consumed_at) AS t
+      WHERE s.user_id = v_user_id
+        AND s.beer_id = ANY(v_sources)
+        AND s.date = c.date
+    ), '{}'),
+    (array_agg(c.note ORDER BY c.created_at) FILTER (WHERE c.note IS NOT NULL))[1],
+    (array_agg(c.rating ORDER BY c.created_at) FILTER (WHERE c.rating IS NOT NULL))[1],
+    v_user_id
+  FROM consumption_records c
+  WHERE c.user_id = v_user_id
+    AND c.beer_id = ANY(v_sources)
+  GROUP BY c.date
+  ON CONFLICT (user_id, date, beer_id) DO UPDATE
+    SET quantity = consumption_records.quantity + EXCLUDED.quantity,
+        consumed_at = consumption_records.consumed_at || EXCLUDED.consumed_at,
+        note = coalesce(consumption_records.note, EXCLUDED.note),
+        rating = coalesce(consumption_records.rating, EXCLUDED.rating),
+        version = consumption_records.version + 1,
+        updated_at = now();
+
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  -- 원본 기록은 ON DELETE CASCADE 로 함께 삭제됨
+  DELETE FROM beers
+  WHERE user_id = v_user_id
+    AND id = ANY(v_sources);
+
+  RETURN v_moved;
+END;
+$$;
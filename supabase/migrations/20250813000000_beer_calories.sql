@@ -0,0 +1,13 @@
+/*
+  # 맥주 칼로리
+
+  1. Changes
+    - `beers`
+      - `calories` (decimal, 한 잔(캔·병)의 칼로리 kcal)
+
+  2. Notes
+    - 비워 두면 앱에서 알코올 도수와 용량으로 추정함 (미국 액량 온스당 도수 × 2.5 kcal)
+*/
+
+ALTER TABLE beers
+  ADD COLUMN IF NOT EXISTS calories decimal CHECK (calories >= 0);
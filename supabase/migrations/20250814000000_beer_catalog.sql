@@ -0,0 +1,46 @@
+/*
+  # 공용 맥주 카탈로그
+
+  1. New Tables
+    - `beer_catalog`
+      - `id` (text, primary key, 앱에 포함된 카탈로그 JSON 의 id 와 같은 체계)
+      - `name` (text, 맥주 이름)
+      - `aliases` (text[], 검색용 다른 이름 — 영문명, 줄임말 등)
+      - `brewery` (text, 제조사)
+      - `style` (text, 맥주 스타일)
+      - `country` (text, 원산지)
+      - `alcohol_percentage` (decimal, 알코올 도수)
+      - `ibu` (integer, 쓴맛 지수)
+      - `servings` (jsonb, `[{ "type": "캔", "volume": 500 }]` 형태의 판매 용량 목록)
+      - `retired` (boolean, true 이면 앱에 포함된 같은 id 의 항목을 숨김)
+      - `updated_at` (timestamp, 수정일시)
+
+  2. Security
+    - Enable RLS on `beer_catalog` table
+    - 로그인한 사용자는 읽기만 가능하고, 항목 관리는 service role 로만 수행
+
+  3. Notes
+    - 앱은 번들된 카탈로그를 기본으로 쓰고, 이 테이블의 행이 같은 id 의 항목을 덮어쓰거나 새 항목으로 추가됨
+*/
+
+CREATE TABLE IF NOT EXISTS beer_catalog (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  aliases text[] NOT NULL DEFAULT '{}',
+  brewery text,
+  style text,
+  country text,
+  alcohol_percentage decimal NOT NULL CHECK (alcohol_percentage >= 0),
+  ibu integer CHECK (ibu >= 0),
+  servings jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(servings) = 'array'),
+  retired boolean NOT NULL DEFAULT false,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE beer_catalog ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read the beer catalog"
+  ON beer_catalog
+  FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,101 @@
+/*
+  # 맥주 바코드
+
+  1. Changes
+    - `beers`
+      - `barcodes` (text[], 맥주에 연결한 EAN/UPC 바코드 목록 — 같은 맥주라도 용량·포장마다 바코드가 다름)
+
+  2. Functions
+    - `merge_beers(p_target, p_sources)`
+      - 병합되어 삭제되는 맥주의 바코드를 대상 맥주로 옮김
+
+  3. Notes
+    - 바코드는 13자리 EAN 형식으로 저장 (12자리 UPC-A 는 앞에 0 을 붙임)
+*/
+
+ALTER TABLE beers
+  ADD COLUMN IF NOT EXISTS barcodes text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS beers_barcodes_idx ON beers USING gin (barcodes);
+
+CREATE OR REPLACE FUNCTION merge_beers(p_target uuid, p_sources uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_sources uuid[] := array_remove(p_sources, p_target);
+  v_owned integer;
+  v_moved integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT count(*)
+  INTO v_owned
+  FROM beers
+  WHERE user_id = v_user_id
+    AND (id = p_target OR id = ANY(v_sources));
+
+  IF v_owned <> cardinality(v_sources) + 1 THEN
+    RAISE EXCEPTION 'beers not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- 병합 대상 날짜의 기록이 동시에 수정되지 않도록 잠금
+  PERFORM 1
+  FROM consumption_records
+  WHERE user_id = v_user_id
+    AND (beer_id = p_target OR beer_id = ANY(v_sources))
+  FOR UPDATE;
+
+  INSERT INTO consumption_records (date, beer_id, quantity, consumed_at, note, rating, price, user_id)
+  SELECT
+    c.date,
+    p_target,
+    sum(c.quantity),
+    coalesce((
+      SELECT array_agg(t ORDER BY t)
+      FROM consumption_records s, unnest(s.consumed_at) AS t
+      WHERE s.user_id = v_user_id
+        AND s.beer_id = ANY(v_sources)
+        AND s.date = c.date
+    ), '{}'),
+    (array_agg(c.note ORDER BY c.created_at) FILTER (WHERE c.note IS NOT NULL))[1],
+    (array_agg(c.rating ORDER BY c.created_at) FILTER (WHERE c.rating IS NOT NULL))[1],
+    (array_agg(c.price ORDER BY c.created_at) FILTER (WHERE c.price IS NOT NULL))[1],
+    v_user_id
+  FROM consumption_records c
+  WHERE c.user_id = v_user_id
+    AND c.beer_id = ANY(v_sources)
+  GROUP BY c.date
+  ON CONFLICT (user_id, date, beer_id) DO UPDATE
+    SET quantity = consumption_records.quantity + EXCLUDED.quantity,
+        consumed_at = consumption_records.consumed_at || EXCLUDED.consumed_at,
+        note = coalesce(consumption_records.note, EXCLUDED.note),
+        rating = coalesce(consumption_records.rating, EXCLUDED.rating),
+        price = coalesce(consumption_records.price, EXCLUDED.price),
+        version = consumption_records.version + 1,
+        updated_at = now();
+
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  -- 원본 맥주에 붙어 있던 바코드도 대상 맥주가 이어받음
+  UPDATE beers t
+  SET barcodes = ARRAY(
+    SELECT DISTINCT code
+    FROM beers b, unnest(b.barcodes) AS code
+    WHERE b.user_id = v_user_id
+      AND (b.id = p_target OR b.id = ANY(v_sources))
+    ORDER BY code
+  )
+  WHERE t.id = p_target;
+
+  -- 원본 기록은 ON DELETE CASCADE 로 함께 삭제됨
+  DELETE FROM beers
+  WHERE user_id = v_user_id
+    AND id = ANY(v_sources);
+
+  RETURN v_moved;
+END;
+$$;
@@ -0,0 +1,229 @@
+/*
+  # 서버 측 소비 집계
+
+  1. Functions
+    - `consumption_total(p_start, p_end)`
+      - 기간의 총 잔 수 (기간을 비우면 전체 기록)
+    - `consumption_daily(p_start, p_end)`
+      - 날짜별 잔 수, 용량(ml), 순수 알코올(g), 칼로리(kcal), 지출(원)과 가격을 아는 잔 수·용량
+    - `consumption_monthly(p_start, p_end)`
+      - 위 합계를 월(`YYYY-MM`)별로 묶고 음주일 수를 더함
+    - `consumption_by_beer(p_start, p_end)`
+      - 맥주별 잔 수, 용량, 한 잔 최고 가격, 기록 평점 평균과 평가 횟수 (맥주 정보는 `beer` JSON 으로 포함)
+    - `consumption_sessions(p_start, p_end)`
+      - 시각을 남긴 잔을 180분 넘게 떨어지면 나누어 세션별 시작·종료 시각과 잔 수를 반환
+    - `consumption_streaks(p_today)`
+      - 오늘까지의 현재·최장 연속 금주일과 연속 음주일 (기록이 있는 날은 금주일 표시가 있어도 음주일)
+
+  2. Notes
+    - 반 잔(0.5) 기록이 있으므로 잔 수는 반올림하지 않고 numeric 으로 반환
+    - 홈과 통계 화면이 기록 행 전체를 내려받아 브라우저에서 더하던 것을 대신함
+    - SECURITY INVOKER 로 실행되므로 RLS 가 그대로 적용되고, 본인 기록만 집계함
+    - 알코올은 밀도 0.789 g/ml, 칼로리는 맥주에 입력한 값이 없으면 도수 × 2.5 kcal/fl oz 추정치로 앱과 같은 식을 사용
+    - 가격은 기록의 가격, 없으면 맥주의 기본 가격을 사용하고 둘 다 없는 잔은 지출에서 제외
+*/
+
+CREATE OR REPLACE FUNCTION consumption_total(p_start date DEFAULT NULL, p_end date DEFAULT NULL)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(sum(c.quantity), 0)
+  FROM consumption_records c
+  WHERE c.user_id = auth.uid()
+    AND (p_start IS NULL OR c.date >= p_start)
+    AND (p_end IS NULL OR c.date <= p_end);
+$$;
+
+CREATE OR REPLACE FUNCTION consumption_daily(p_start date DEFAULT NULL, p_end date DEFAULT NULL)
+RETURNS TABLE (
+  date date,
+  glasses numeric,
+  volume numeric,
+  alcohol numeric,
+  calories numeric,
+  spent numeric,
+  priced_glasses numeric,
+  priced_volume numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    c.date,
+    sum(c.quantity),
+    sum(c.quantity * b.volume),
+    sum(c.quantity * b.volume * b.alcohol_percentage / 100 * 0.789),
+    sum(c.quantity * coalesce(b.calories, b.volume / 29.5735 * b.alcohol_percentage * 2.5)),
+    coalesce(sum(c.quantity * coalesce(c.price, b.price)), 0),
+    coalesce(sum(c.quantity) FILTER (WHERE coalesce(c.price, b.price) IS NOT NULL), 0),
+    coalesce(sum(c.quantity * b.volume) FILTER (WHERE coalesce(c.price, b.price) IS NOT NULL), 0)
+  FROM consumption_records c
+  JOIN beers b ON b.id = c.beer_id
+  WHERE c.user_id = auth.uid()
+    AND c.quantity > 0
+    AND (p_start IS NULL OR c.date >= p_start)
+    AND (p_end IS NULL OR c.date <= p_end)
+  GROUP BY c.date
+  ORDER BY c.date;
+$$;
+
+CREATE OR REPLACE FUNCTION consumption_monthly(p_start date DEFAULT NULL, p_end date DEFAULT NULL)
+RETURNS TABLE (
+  month text,
+  glasses numeric,
+  volume numeric,
+  alcohol numeric,
+  calories numeric,
+  spent numeric,
+  priced_glasses numeric,
+  priced_volume numeric,
+  drinking_days integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    to_char(d.date, 'YYYY-MM'),
+    sum(d.glasses),
+    sum(d.volume),
+    sum(d.alcohol),
+    sum(d.calories),
+    sum(d.spent),
+    sum(d.priced_glasses),
+    sum(d.priced_volume),
+    count(*)::integer
+  FROM consumption_daily(p_start, p_end) d
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+CREATE OR REPLACE FUNCTION consumption_by_beer(p_start date DEFAULT NULL, p_end date DEFAULT NULL)
+RETURNS TABLE (
+  beer jsonb,
+  glasses numeric,
+  volume numeric,
+  max_price numeric,
+  avg_rating numeric,
+  rated_count integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    to_jsonb(b),
+    t.glasses,
+    t.glasses * b.volume,
+    -- Records without a price of their own were bought at the beer's usual price
+    greatest(t.max_price, CASE WHEN t.has_unpriced THEN b.price END),
+    t.avg_rating,
+    t.rated_count
+  FROM (
+    SELECT
+      c.beer_id,
+      sum(c.quantity) AS glasses,
+      max(c.price) AS max_price,
+      bool_or(c.price IS NULL) AS has_unpriced,
+      avg(c.rating) AS avg_rating,
+      count(c.rating)::integer AS rated_count
+    FROM consumption_records c
+    WHERE c.user_id = auth.uid()
+      AND c.quantity > 0
+      AND (p_start IS NULL OR c.date >= p_start)
+      AND (p_end IS NULL OR c.date <= p_end)
+    GROUP BY c.beer_id
+  ) t
+  JOIN beers b ON b.id = t.beer_id
+  ORDER BY t.glasses DESC;
+$$;
+
+-- Keep the gap in step with SESSION_GAP_MINUTES in src/lib/sessions.ts
+CREATE OR REPLACE FUNCTION consumption_sessions(p_start date DEFAULT NULL, p_end date DEFAULT NULL)
+RETURNS TABLE (
+  started_at timestamptz,
+  ended_at timestamptz,
+  glasses integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH drinks AS (
+    SELECT unnest(c.consumed_at) AS drunk_at
+    FROM consumption_records c
+    WHERE c.user_id = auth.uid()
+      AND (p_start IS NULL OR c.date >= p_start)
+      AND (p_end IS NULL OR c.date <= p_end)
+  ),
+  marked AS (
+    SELECT
+      drunk_at,
+      CASE WHEN drunk_at - lag(drunk_at) OVER (ORDER BY drunk_at) <= interval '180 minutes' THEN 0 ELSE 1 END AS starts_session
+    FROM drinks
+  ),
+  numbered AS (
+    SELECT drunk_at, sum(starts_session) OVER (ORDER BY drunk_at) AS session_no
+    FROM marked
+  )
+  SELECT min(drunk_at), max(drunk_at), count(*)::integer
+  FROM numbered
+  GROUP BY session_no
+  ORDER BY 1;
+$$;
+
+-- Keep in step with calculateStreaks in src/lib/streaks.ts
+CREATE OR REPLACE FUNCTION consumption_streaks(p_today date)
+RETURNS TABLE (
+  current_dry integer,
+  longest_dry integer,
+  current_drinking integer,
+  longest_drinking integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH drinking AS (
+    SELECT DISTINCT c.date
+    FROM consumption_records c
+    WHERE c.user_id = auth.uid()
+      AND c.quantity > 0
+      AND c.date <= p_today
+  ),
+  days AS (
+    SELECT d.date, 'drinking' AS kind FROM drinking d
+    UNION ALL
+    SELECT d.date, 'dry'
+    FROM dry_days d
+    WHERE d.user_id = auth.uid()
+      AND d.date <= p_today
+      AND d.date NOT IN (SELECT date FROM drinking)
+  ),
+  -- Consecutive days of one kind share the same date minus their position among that kind
+  runs AS (
+    SELECT kind, max(date) AS last_day, count(*)::integer AS length
+    FROM (
+      SELECT kind, date, date - (row_number() OVER (PARTITION BY kind ORDER BY date))::integer AS run_key
+      FROM days
+    ) numbered
+    GROUP BY kind, run_key
+  ),
+  -- Today is still in progress: while it is unlogged the current run is the one ending yesterday
+  current_run AS (
+    SELECT kind, length
+    FROM runs
+    WHERE last_day IN (p_today, p_today - 1)
+    ORDER BY last_day DESC
+    LIMIT 1
+  )
+  SELECT
+    coalesce((SELECT length FROM current_run WHERE kind = 'dry'), 0),
+    coalesce((SELECT max(length) FROM runs WHERE kind = 'dry'), 0),
+    coalesce((SELECT length FROM current_run WHERE kind = 'drinking'), 0),
+    coalesce((SELECT max(length) FROM runs WHERE kind = 'drinking'), 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION consumption_total(date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION consumption_daily(date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION consumption_monthly(date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION consumption_by_beer(date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION consumption_sessions(date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION consumption_streaks(date) TO authenticated;
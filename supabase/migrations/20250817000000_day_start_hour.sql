@@ -0,0 +1,14 @@
+/*
+  # 하루 시작 시각
+
+  1. Changes
+    - `user_settings`
+      - `day_start_hour` (smallint, 0–12, 기본값 0 — 이 시각 전에 마신 잔은 전날 밤 기록으로 계산)
+
+  2. Notes
+    - 기록 화면의 기본 날짜, 캘린더의 오늘, 통계 기간과 잔별 시각 입력이 모두 이 값을 따름
+    - 기본값 0 은 자정 기준으로, 사용자가 설정하기 전까지 기존 날짜 계산이 그대로 유지됨
+*/
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS day_start_hour smallint NOT NULL DEFAULT 0 CHECK (day_start_hour BETWEEN 0 AND 12);
@@ -0,0 +1,13 @@
+/*
+  # 맥주 고정
+
+  1. Changes
+    - `beers`
+      - `pinned_at` (timestamp, 기록 화면 맨 위에 고정한 시각 — NULL 이면 고정하지 않은 맥주)
+
+  2. Notes
+    - 고정한 맥주는 추천 순서와 관계없이 기록 화면 맨 위에 고정한 순서대로 표시됨
+    - 보관하거나 병합해도 고정 여부는 그대로 남음
+*/
+
+ALTER TABLE beers ADD COLUMN IF NOT EXISTS pinned_at timestamptz;
@@ -0,0 +1,54 @@
+/*
+  # 백업 교체 복원을 단일 트랜잭션으로
+
+  1. Functions
+    - `replace_user_data(p_beers, p_records)`
+      - 사용자의 맥주와 소비 기록을 모두 지우고 백업의 맥주·기록으로 바꾸는 단일 트랜잭션
+      - 새로 넣은 기록 수를 반환
+
+  2. Notes
+    - 예전에는 삭제 후 맥주와 기록을 따로 요청해서, 중간에 실패하면 계정이 빈 채로 남을 수 있었음
+    - 어느 행이든 실패하면 삭제까지 함께 취소되어 기존 데이터가 그대로 남음
+    - SECURITY INVOKER 로 실행되므로 기존 RLS 정책이 그대로 적용됨
+*/
+
+CREATE OR REPLACE FUNCTION replace_user_data(p_beers jsonb, p_records jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_inserted integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  -- Records go with their beers through ON DELETE CASCADE
+  DELETE FROM beers WHERE user_id = v_user_id;
+
+  INSERT INTO beers (
+    id, user_id, name, type, volume, alcohol_percentage, brewery, style, country, ibu, notes,
+    rating, tasting_notes, price, calories, barcodes, sort_order, archived_at, pinned_at
+  )
+  SELECT
+    b.id, v_user_id, b.name, b.type, b.volume, b.alcohol_percentage, b.brewery, b.style, b.country, b.ibu, b.notes,
+    b.rating, b.tasting_notes, b.price, b.calories, coalesce(b.barcodes, '{}'), b.sort_order, b.archived_at, b.pinned_at
+  FROM jsonb_to_recordset(p_beers) AS b(
+    id uuid, name text, type text, volume decimal, alcohol_percentage decimal, brewery text, style text,
+    country text, ibu integer, notes text, rating smallint, tasting_notes text, price decimal, calories decimal,
+    barcodes text[], sort_order integer, archived_at timestamptz, pinned_at timestamptz
+  );
+
+  INSERT INTO consumption_records (user_id, date, beer_id, quantity, consumed_at, note, rating, price)
+  SELECT v_user_id, r.date, r.beer_id, r.quantity, coalesce(r.consumed_at, '{}'), r.note, r.rating, r.price
+  FROM jsonb_to_recordset(p_records) AS r(
+    date date, beer_id uuid, quantity decimal, consumed_at timestamptz[], note text, rating smallint, price decimal
+  );
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_inserted;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION replace_user_data(jsonb, jsonb) TO authenticated;